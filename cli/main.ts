@@ -0,0 +1,246 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import {
+  DEFAULT_SUBTITLE_OPTIONS,
+  STATISTICS_LABELS,
+  TIMING_RULE_LABELS,
+  TRANSCRIPT_FORMATS,
+  checkTimings,
+  formatJsonPath,
+  formatSubtitles,
+  formatTime,
+  parseTranscript,
+  summarizeTranscript,
+  toWordList,
+  type Statistics,
+  type SubtitleFormat,
+  type SubtitleOptions,
+} from "../src/core";
+
+const USAGE = `Usage: word-timing <command> <file> [options]
+
+Commands:
+  validate   Check the file against its format's schema and the timing rules
+  convert    Write the timings as a word list (json) or subtitles
+  stats      Summarize words, sentences, speakers and dubbing statistics
+
+Options:
+  --format <id>      Read the file as this format instead of detecting it
+  --json             Print machine-readable JSON (validate, stats)
+  --gap <seconds>    Flag gaps longer than this when validating (default 2)
+  --to <format>      json, srt, vtt or ass (convert, default json)
+  --language <lang>  original or translated words for subtitles
+  --grouping <by>    sentence or subphrase cues for subtitles
+  --out <file>       Write to a file instead of standard output
+
+Formats: ${TRANSCRIPT_FORMATS.map((format) => format.id).join(", ")}
+Caption files (SRT, WebVTT, TTML) are detected automatically.`;
+
+const OUTPUT_FORMATS = ["json", "srt", "vtt", "ass"];
+
+// Exit codes: the file has errors, or the command couldn't run at all
+const EXIT_INVALID = 1;
+const EXIT_USAGE = 2;
+
+class UsageError extends Error {}
+
+type Options = {
+  format?: string;
+  json?: boolean;
+  gap?: string;
+  to?: string;
+  language?: string;
+  grouping?: string;
+  out?: string;
+};
+
+async function output(text: string, out: string | undefined) {
+  if (out) {
+    await writeFile(out, text);
+  } else {
+    process.stdout.write(text.endsWith("\n") ? text : `${text}\n`);
+  }
+}
+
+async function validateCommand(text: string, options: Options) {
+  const transcript = parseTranscript(text, options.format);
+  const gapThreshold = options.gap === undefined ? 2 : Number(options.gap);
+  if (!(gapThreshold >= 0)) throw new UsageError("--gap must be a number");
+  const findings = checkTimings(
+    transcript.timings,
+    transcript.subphraseTimings,
+    { duration: 0, gapThreshold }
+  );
+  const errorCount =
+    transcript.issues.filter((issue) => issue.severity === "error").length +
+    findings.filter((finding) => finding.severity === "error").length;
+
+  if (options.json) {
+    await output(
+      JSON.stringify(
+        {
+          format: transcript.format,
+          words: transcript.timings.length,
+          issues: transcript.issues,
+          findings,
+        },
+        null,
+        2
+      ),
+      options.out
+    );
+  } else {
+    const lines = [
+      `${transcript.formatLabel}: ${transcript.timings.length} words, ${transcript.subphraseTimings.length} subphrases`,
+    ];
+    for (const issue of transcript.issues) {
+      lines.push(
+        `${issue.severity}  ${formatJsonPath(issue.path)}: ${issue.message}`
+      );
+    }
+    for (const finding of findings) {
+      lines.push(
+        `${finding.severity}  ${formatTime(finding.start)} ${
+          TIMING_RULE_LABELS[finding.rule]
+        }${finding.text ? ` "${finding.text}"` : ""} ${finding.message}`
+      );
+    }
+    const warningCount =
+      transcript.issues.length + findings.length - errorCount;
+    lines.push(
+      `${errorCount} error${
+        errorCount === 1 ? "" : "s"
+      }, ${warningCount} warning${warningCount === 1 ? "" : "s"}`
+    );
+    await output(lines.join("\n"), options.out);
+  }
+  return errorCount > 0 ? EXIT_INVALID : 0;
+}
+
+async function convertCommand(text: string, options: Options) {
+  const to = options.to ?? "json";
+  if (!OUTPUT_FORMATS.includes(to)) {
+    throw new UsageError(`--to must be one of ${OUTPUT_FORMATS.join(", ")}`);
+  }
+  const transcript = parseTranscript(text, options.format);
+  if (to === "json") {
+    await output(
+      JSON.stringify(toWordList(transcript.timings), null, 2),
+      options.out
+    );
+    return 0;
+  }
+
+  const subtitleOptions: SubtitleOptions = { ...DEFAULT_SUBTITLE_OPTIONS };
+  if (options.language) {
+    if (options.language !== "original" && options.language !== "translated") {
+      throw new UsageError("--language must be original or translated");
+    }
+    subtitleOptions.language = options.language;
+  }
+  if (options.grouping) {
+    if (options.grouping !== "sentence" && options.grouping !== "subphrase") {
+      throw new UsageError("--grouping must be sentence or subphrase");
+    }
+    subtitleOptions.grouping = options.grouping;
+  }
+  await output(
+    formatSubtitles(
+      to as SubtitleFormat,
+      transcript.timings,
+      transcript.subphraseTimings,
+      subtitleOptions
+    ),
+    options.out
+  );
+  return 0;
+}
+
+async function statsCommand(text: string, options: Options) {
+  const transcript = parseTranscript(text, options.format);
+  const summary = summarizeTranscript(transcript);
+  if (options.json) {
+    await output(
+      JSON.stringify({ format: transcript.format, ...summary }, null, 2),
+      options.out
+    );
+    return 0;
+  }
+
+  const lines = [
+    `Format:        ${transcript.formatLabel}`,
+    `Words:         ${summary.words}${Object.entries(summary.wordsByLanguage)
+      .filter(([language]) => language !== "words")
+      .map(([language, count]) => `, ${count} ${language}`)
+      .join("")}`,
+    `Sentences:     ${summary.sentences}`,
+    `Subphrases:    ${summary.subphrases}`,
+    `Speakers:      ${summary.speakers.join(", ") || "none"}`,
+    `Span:          ${formatTime(summary.start)} – ${formatTime(summary.end)}`,
+    `Mean word:     ${(summary.meanWordDuration * 1000).toFixed(0)} ms`,
+  ];
+  if (transcript.audioKey) lines.push(`Audio key:     ${transcript.audioKey}`);
+  if (summary.dubStatistics) {
+    lines.push("", "Dubbing statistics (recomputed):");
+    for (const [key, label] of Object.entries(STATISTICS_LABELS)) {
+      const value = summary.dubStatistics[key as keyof Statistics];
+      lines.push(
+        `  ${label}: ${Number.isInteger(value) ? value : value.toFixed(4)}`
+      );
+    }
+  }
+  await output(lines.join("\n"), options.out);
+  return 0;
+}
+
+const COMMANDS: Partial<
+  Record<string, (text: string, options: Options) => Promise<number>>
+> = {
+  validate: validateCommand,
+  convert: convertCommand,
+  stats: statsCommand,
+};
+
+export async function main(args: string[]): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        format: { type: "string" },
+        json: { type: "boolean" },
+        gap: { type: "string" },
+        to: { type: "string" },
+        language: { type: "string" },
+        grouping: { type: "string" },
+        out: { type: "string", short: "o" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+  } catch (error) {
+    process.stderr.write(`${(error as Error).message}\n\n${USAGE}\n`);
+    return EXIT_USAGE;
+  }
+
+  const [command, file] = parsed.positionals;
+  if (parsed.values.help || !command) {
+    process.stdout.write(`${USAGE}\n`);
+    return parsed.values.help ? 0 : EXIT_USAGE;
+  }
+  const run = Object.hasOwn(COMMANDS, command) ? COMMANDS[command] : undefined;
+  if (!run || !file) {
+    process.stderr.write(
+      `${run ? "Missing file" : `Unknown command "${command}"`}\n\n${USAGE}\n`
+    );
+    return EXIT_USAGE;
+  }
+
+  try {
+    const text = await readFile(file, "utf8");
+    return await run(text, parsed.values);
+  } catch (error) {
+    process.stderr.write(`${file}: ${(error as Error).message}\n`);
+    return error instanceof UsageError ? EXIT_USAGE : EXIT_INVALID;
+  }
+}
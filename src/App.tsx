@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from "react";
+import React, { useState, useRef, useEffect, useMemo } from "react";
 import {
   Upload,
   Play,
@@ -8,117 +8,165 @@ import {
   RotateCcw,
   SkipBack,
   SkipForward,
+  Undo2,
+  Redo2,
+  FileDown,
+  Keyboard,
+  Link2,
 } from "lucide-react";
-import type { SentenceTiming, Transcript, TranslatedWord } from "./types";
-
-type WordTiming = {
-  end: number;
-  word: string;
-  punctuated_word?: string;
-  start: number;
-  sentenceIndex?: number;
-  probability?: number;
-  language?: "original" | "translated";
-};
-
-class IntervalNode<T extends { start: number; end: number }> {
-  start: number;
-  end: number;
-  max: number;
-  data: T;
-  left: IntervalNode<T> | null;
-  right: IntervalNode<T> | null;
-
-  constructor(timing: T) {
-    this.start = timing.start;
-    this.end = timing.end;
-    this.max = timing.end;
-    this.data = timing;
-    this.left = null;
-    this.right = null;
-  }
-}
+import type {
+  SentenceAlignment,
+  Statistics,
+  SubphraseTiming,
+  WordTiming,
+} from "./types";
+import {
+  applyTimingEdits,
+  findNeighbours,
+  neighbourBounds,
+  nudgeWordTiming,
+  type TimingEdge,
+  type TimingEdit,
+} from "./timingEditor";
+import { downloadJson } from "./download";
+import { formatTime } from "./time";
+import TimingCheckPanel from "./components/TimingCheckPanel";
+import SilenceCheckPanel from "./components/SilenceCheckPanel";
+import OriginalAudioPanel from "./components/OriginalAudioPanel";
+import StatisticsPanel from "./components/StatisticsPanel";
+import SpeakerLegend from "./components/SpeakerLegend";
+import TranscriptView from "./components/TranscriptView";
+import TranscriptSearch from "./components/TranscriptSearch";
+import ShortcutHelp from "./components/ShortcutHelp";
+import LoopControls from "./components/LoopControls";
+import TimingCorrectionPanel from "./components/TimingCorrectionPanel";
+import AlignmentView from "./components/AlignmentView";
+import RecentSessions from "./components/RecentSessions";
+import AudioResolverSettings from "./components/AudioResolverSettings";
+import {
+  createSessionId,
+  deleteSessionAudio,
+  listSessions,
+  loadSession,
+  saveSession,
+  saveSessionAudio,
+  saveSessionPosition,
+} from "./sessions";
+import { toWordList } from "./core";
+import {
+  buildDeepLink,
+  hasDeepLinkSource,
+  parseDeepLink,
+  type DeepLink,
+} from "./deepLink";
+import type { SearchLanguage } from "./transcriptSearch";
+import {
+  editSentenceTimings,
+  toSentenceTimings,
+  type PhraseEdit,
+} from "./alignmentEditor";
+import {
+  IDENTITY_CORRECTION,
+  correctSubphraseTimings,
+  correctTime,
+  correctTimings,
+  isCorrectedTiming,
+  uncorrectTime,
+  type TimingCorrection,
+} from "./timingCorrection";
+import {
+  DEFAULT_LOOP,
+  loopBounds,
+  transcriptFingerprint,
+  type LoopState,
+} from "./loop";
+import { loadLoop, saveLoop } from "./loopStorage";
+import {
+  comboFromEvent,
+  findAction,
+  isTypingTarget,
+  loadBindings,
+  saveBindings,
+  type ShortcutAction,
+  type ShortcutBindings,
+} from "./shortcuts";
+import { nextStart, previousStart } from "./navigation";
+import {
+  collectSpeakers,
+  defaultSpeakerName,
+  hasLowSpeakerConfidence,
+  speakerKey,
+  speakerLines,
+  speakerStyle,
+  type SpeakerFilter,
+} from "./speakers";
+import {
+  TRANSCRIPT_FORMATS,
+  getTranscriptFormat,
+  type FormatDetection,
+  type TranscriptFormat,
+} from "./formats";
+import {
+  LOAD_STAGE_LABELS,
+  documentFromData,
+  documentFromText,
+  type FormatReading,
+  type LoadProgress,
+  type SourceDocument,
+  type TranscriptWorkerRequest,
+} from "./transcriptLoader";
+import {
+  buildLookups,
+  unpackLookups,
+  wordsToShow,
+  type PackedLookups,
+  type TranscriptLookups,
+} from "./transcriptLookups";
+import {
+  readResponseText,
+  runTranscriptWorker,
+} from "./transcriptWorkerClient";
+import WordTimingEditor from "./components/WordTimingEditor";
+import Timeline from "./components/Timeline";
+import SubtitleExportMenu from "./components/SubtitleExportMenu";
+import ValidationReport from "./components/ValidationReport";
+import type { ValidationIssue } from "./validation";
+import { decodeAudio, type DecodedAudio } from "./audioAnalysis";
+import { EPSILON, TimeIndex } from "./timeIndex";
+import {
+  createPlaybackClock,
+  sameItems,
+  usePlaybackSelector,
+} from "./playbackClock";
+import PlaybackTime from "./components/PlaybackTime";
+import {
+  findProfile,
+  hasHeaders,
+  resolveAudioUrl,
+  type AudioResolverProfile,
+} from "./audioResolver";
+import type { AudioLocation } from "./audioKey";
+import {
+  checkAudioUrl,
+  findPlayableAudio,
+  type AudioSources,
+} from "./audioDownload";
+import {
+  loadResolverSettings,
+  saveResolverSettings,
+  type ResolverSettings,
+} from "./resolverSettings";
+
+// How long edits settle before the session is written to IndexedDB
+const SESSION_SAVE_DELAY = 1000;
 
-const EPSILON = 0.001;
+// Shared so clearing the current words doesn't count as a change
+const NO_WORDS: WordTiming[] = [];
 
 const iOSiPadOS =
   navigator.platform?.startsWith("iP") ||
   (navigator.platform?.startsWith("Mac") && navigator.maxTouchPoints > 4);
 
-class IntervalTree<T extends { start: number; end: number }> {
-  root: IntervalNode<T> | null;
-  // Small epsilon value to handle floating point precision
-  private static EPSILON = EPSILON;
-
-  constructor() {
-    this.root = null;
-  }
-
-  insert(timing: T) {
-    const node = new IntervalNode(timing);
-    if (!this.root) {
-      this.root = node;
-      return;
-    }
-
-    // Iterative insertion instead of recursive
-    let current = this.root;
-    while (true) {
-      // Update max at each level
-      current.max = Math.max(current.max, node.end);
-
-      if (node.start < current.start) {
-        if (current.left === null) {
-          current.left = node;
-          break;
-        }
-        current = current.left;
-      } else {
-        if (current.right === null) {
-          current.right = node;
-          break;
-        }
-        current = current.right;
-      }
-    }
-  }
-
-  findOverlapping(point: number): T[] {
-    const result: T[] = [];
-    if (!this.root) return result;
-
-    // Use stack for iterative traversal
-    const stack: IntervalNode<T>[] = [this.root];
-
-    while (stack.length > 0) {
-      const node = stack.pop()!;
-
-      // Skip if node's max is less than point (no overlapping intervals possible)
-      if (point > node.max + IntervalTree.EPSILON) continue;
-
-      // Check if point is within the current node's interval
-      if (
-        point >= node.start - IntervalTree.EPSILON &&
-        point <= node.end + IntervalTree.EPSILON
-      ) {
-        result.push(node.data);
-      }
-
-      // Push right child first (to process left child first when popping)
-      if (node.right && point >= node.start - IntervalTree.EPSILON) {
-        stack.push(node.right);
-      }
-
-      // Push left child if it might contain overlapping intervals
-      if (node.left && point <= node.left.max + IntervalTree.EPSILON) {
-        stack.push(node.left);
-      }
-    }
-
-    return result;
-  }
-}
-
 function handleJsonFileUpload(
   event: React.ChangeEvent<HTMLInputElement>,
   callback: (jsonString: string) => void
@@ -136,27 +184,6 @@ function handleJsonFileUpload(
   }
 }
 
-function extractAudioKey(jsonInput: string): string {
-  try {
-    const data = JSON.parse(jsonInput);
-    if (data.dubAudioFileLocation?.key) {
-      return data.dubAudioFileLocation.key;
-    }
-    return "";
-  } catch {
-    return "";
-  }
-}
-
-function formatTime(seconds: number): string {
-  const minutes = Math.floor(seconds / 60);
-  const remainingSeconds = Math.floor(seconds % 60);
-  const milliseconds = Math.floor((seconds % 1) * 1000);
-  return `${minutes}:${remainingSeconds
-    .toString()
-    .padStart(2, "0")}.${milliseconds.toString().padStart(3, "0")}`;
-}
-
 // Add helper function to generate underline style based on probability
 function getProbabilityStyle(
   probability: number | undefined
@@ -169,210 +196,6 @@ function getProbabilityStyle(
   };
 }
 
-function extractSubphraseTimings(jsonInput: string): SubphraseTiming[] {
-  const parsedData = JSON.parse(jsonInput);
-  if (!Array.isArray(parsedData)) {
-    return [];
-  }
-  if (!("phrases" in parsedData[0])) {
-    return [];
-  }
-  const transcript: SentenceTiming[] = parsedData as SentenceTiming[];
-
-  const subphraseTimings: SubphraseTiming[] = [];
-
-  for (const sentence of transcript) {
-    for (const phrase of sentence.phrases) {
-      for (const subphrase of phrase.subphrases) {
-        const validTIndices = subphrase.translatedWordIndices.filter(
-          (x) => x !== -1
-        );
-        const tStartIndex = validTIndices.at(0);
-        const tEndIndex = validTIndices.at(-1);
-        const tStart =
-          tStartIndex !== undefined
-            ? phrase.translated.at(tStartIndex)!.start
-            : undefined;
-        const tEnd =
-          tEndIndex !== undefined
-            ? phrase.translated.at(tEndIndex)!.end
-            : undefined;
-
-        const validOIndices = subphrase.originalWordIndices.filter(
-          (x) => x !== -1
-        );
-        const oStartIndex = validOIndices.at(0);
-        const oEndIndex = validOIndices.at(-1);
-        const oStart =
-          oStartIndex !== undefined
-            ? phrase.original.at(oStartIndex)!.start
-            : undefined;
-        const oEnd =
-          oEndIndex !== undefined
-            ? phrase.original.at(oEndIndex)!.end
-            : undefined;
-        if (
-          tStart !== undefined &&
-          tEnd !== undefined &&
-          oStart !== undefined &&
-          oEnd !== undefined
-        ) {
-          const textOriginal = subphrase.originalWordIndices
-            .filter((i) => i !== -1)
-            .map((i) => phrase.original[i])
-            .map((w) => w.punctuatedWord || w.word)
-            .join(" ");
-          const textTranslated = subphrase.translatedWordIndices
-            .filter((i) => i !== -1)
-            .map((i) => phrase.translated[i])
-            .map((w) => w.punctuatedWord || w.word)
-            .join(" ");
-          subphraseTimings.push({
-            start: tStart,
-            end: tEnd,
-            textOriginal,
-            textTranslated,
-            startOriginal: oStart,
-            endOriginal: oEnd,
-          });
-        }
-      }
-    }
-  }
-
-  return subphraseTimings;
-}
-
-function extractWordTimings(jsonInput: string): WordTiming[] {
-  try {
-    const parsedData = JSON.parse(jsonInput);
-    const transcript: Transcript =
-      parsedData?.dubTranscript ||
-      parsedData?.wordTimings ||
-      parsedData?.segments ||
-      parsedData?.words ||
-      parsedData;
-    const allWords: WordTiming[] = [];
-
-    if (transcript?.sentences && Array.isArray(transcript.sentences)) {
-      console.log(
-        "Processing transcript with sentences:",
-        transcript.sentences.length
-      );
-
-      // Extract all translated words from each sentence
-      transcript.sentences.forEach((sentence: any) => {
-        if (
-          sentence.translated?.words &&
-          Array.isArray(sentence.translated.words)
-        ) {
-          console.log(
-            `Processing sentence ${sentence.index} with ${sentence.translated.words.length} words`
-          );
-
-          sentence.translated.words.forEach((word: TranslatedWord) => {
-            allWords.push({
-              ...word,
-              word: word.word,
-              punctuated_word: word.punctuatedWord,
-              start: word.start,
-              end: word.end,
-              sentenceIndex: sentence.index,
-              probability: word.confidence,
-            });
-          });
-        } else if (sentence?.words && Array.isArray(sentence.words)) {
-          sentence.words.forEach((word: any, i: number) => {
-            allWords.push({
-              ...word,
-              word: word.word,
-              punctuated_word: word.punctuatedWord,
-              start: word.start,
-              end: word.end,
-              probability: word.confidence,
-              sentenceIndex: i,
-            });
-          });
-        }
-      });
-
-      console.log("Total translated words extracted:", allWords.length);
-    } else if (Array.isArray(transcript)) {
-      const elem = transcript[0];
-      if (elem.word) {
-        for (const item of transcript) {
-          allWords.push({
-            ...item,
-            word: item.word,
-            punctuated_word: item.punctuatedWord,
-            start: item.start,
-            end: item.end,
-            probability: item.confidence || item.probability,
-            ...{ language: item.language },
-          });
-        }
-      } else if (elem.phrases) {
-        for (const [i, sentence] of transcript.entries()) {
-          for (const phrase of sentence.phrases) {
-            for (const item of phrase.original) {
-              allWords.push({
-                ...item,
-                word: item.word,
-                punctuated_word: item.punctuatedWord,
-                start: item.start,
-                end: item.end,
-                probability: item.confidence || item.probability,
-                language: "original",
-                sentenceIndex: i,
-              });
-            }
-            for (const item of phrase.translated) {
-              allWords.push({
-                ...item,
-                word: item.word,
-                punctuated_word: item.punctuatedWord,
-                start: item.start,
-                end: item.end,
-                probability: item.confidence || item.probability,
-                language: "translated",
-                sentenceIndex: i,
-              });
-            }
-          }
-        }
-      } else if (elem.words) {
-        transcript.forEach((sentence: any, i: number) => {
-          (sentence.words || sentence).forEach((word: any) => {
-            allWords.push({
-              ...word,
-              word: word.word,
-              punctuated_word: word.punctuatedWord || word.word,
-              start: word.start,
-              end: word.end,
-              probability: word.confidence || word.probability,
-              sentenceIndex: i,
-            });
-          });
-        });
-      }
-    }
-
-    return allWords;
-  } catch (error) {
-    console.error("Error extracting word timings:", error);
-    return [];
-  }
-}
-
-type SubphraseTiming = {
-  start: number;
-  end: number;
-  startOriginal: number;
-  endOriginal: number;
-  textOriginal: string;
-  textTranslated: string;
-};
-
 function App() {
   // Add dark mode state and effect at the start of the component
   useEffect(() => {
@@ -383,12 +206,19 @@ function App() {
   const [audioFile, setAudioFile] = useState<File | null>(null);
   const [audioUrl, setAudioUrl] = useState<string>("");
   const [audioKey, setAudioKey] = useState<string>("");
+  // Original audio named by the transcript, for the original audio panel
+  const [originalAudio, setOriginalAudio] = useState<AudioSources | null>(null);
+  const [resolverSettings, setResolverSettings] =
+    useState<ResolverSettings>(loadResolverSettings);
   const [isLoadingAudio, setIsLoadingAudio] = useState(false);
   const [showMp3Warning, setShowMp3Warning] = useState(false);
-  const [timings, setTimings] = useState<WordTiming[]>([]);
-  const [subphraseTimings, setSubphraseTimings] = useState<SubphraseTiming[]>(
-    []
-  );
+  // Timings as loaded or edited, before the offset/drift correction
+  const [rawTimings, setRawTimings] = useState<WordTiming[]>([]);
+  const [rawSubphraseTimings, setRawSubphraseTimings] = useState<
+    SubphraseTiming[]
+  >([]);
+  const [timingCorrection, setTimingCorrection] =
+    useState<TimingCorrection>(IDENTITY_CORRECTION);
   const [currentWordTimings, setCurrentWordTimings] = useState<WordTiming[]>(
     []
   );
@@ -397,7 +227,7 @@ function App() {
   >([]);
   const [isPlaying, setIsPlaying] = useState(false);
   const [error, setError] = useState<string>("");
-  const [currentTime, setCurrentTime] = useState(0);
+  const [clock] = useState(createPlaybackClock);
   const [duration, setDuration] = useState(0);
   const [maxJsonHeight, setMaxJsonHeight] = useState(0);
   const [isDragging, setIsDragging] = useState(false);
@@ -407,16 +237,98 @@ function App() {
   const [jsonInputText, setJsonInputText] = useState<string>("");
   const [jsonUrl, setJsonUrl] = useState<string>("");
   const [isLoadingJson, setIsLoadingJson] = useState(false);
+  const [loadProgress, setLoadProgress] = useState<LoadProgress | null>(null);
   const [persistWords, setPersistWords] = useState<boolean>(true);
   const persistWordsRef = useRef<boolean>(persistWords);
+  // JSON document as loaded, kept so edited timings can be exported in its
+  // shape
+  const [sourceDocument, setSourceDocument] = useState<SourceDocument | null>(
+    null
+  );
+  const [formatDetection, setFormatDetection] =
+    useState<FormatDetection | null>(null);
+  const [transcriptFormat, setTranscriptFormat] =
+    useState<TranscriptFormat | null>(null);
+  const [loadedFormatLabel, setLoadedFormatLabel] = useState<string>("");
+  const [validationIssues, setValidationIssues] = useState<ValidationIssue[]>(
+    []
+  );
+  const [isEditing, setIsEditing] = useState(false);
+  const [selectedTimingIndex, setSelectedTimingIndex] = useState<number | null>(
+    null
+  );
+  const [nudgeEdge, setNudgeEdge] = useState<TimingEdge>("start");
+  const [timingsPast, setTimingsPast] = useState<WordTiming[][]>([]);
+  const [timingsFuture, setTimingsFuture] = useState<WordTiming[][]>([]);
+  const [alignments, setAlignments] = useState<SentenceAlignment[]>([]);
+  const [reportedStatistics, setReportedStatistics] = useState<
+    Partial<Statistics> | undefined
+  >();
+  const [speakerNames, setSpeakerNames] = useState<Record<string, string>>({});
+  // IndexedDB session the current transcript and audio are saved under
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [sessionNotice, setSessionNotice] = useState("");
+  // Which language's words the transcript shows
+  const [displayLanguage, setDisplayLanguage] = useState<SearchLanguage>("all");
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [speakerFilter, setSpeakerFilter] = useState<SpeakerFilter>({
+    speaker: null,
+    mode: "highlight",
+  });
+  const [shortcutBindings, setShortcutBindings] =
+    useState<ShortcutBindings>(loadBindings);
+  const [showShortcutHelp, setShowShortcutHelp] = useState(false);
+  const [loop, setLoop] = useState<LoopState>(DEFAULT_LOOP);
+  const [decodedAudio, setDecodedAudio] = useState<DecodedAudio | null>(null);
+  const [audioDecodeError, setAudioDecodeError] = useState<string>("");
+
+  // Everything below plays and displays the corrected timings
+  const timings = useMemo(
+    () => correctTimings(rawTimings, timingCorrection),
+    [rawTimings, timingCorrection]
+  );
+  const subphraseTimings = useMemo(
+    () => correctSubphraseTimings(rawSubphraseTimings, timingCorrection),
+    [rawSubphraseTimings, timingCorrection]
+  );
 
   const audioRef = useRef<HTMLAudioElement>(null);
   const audioUrlRef = useRef<string>("");
   const jsonDisplayRef = useRef<HTMLDivElement>(null);
-  const intervalTreeRef = useRef<IntervalTree<WordTiming> | null>(null);
-  const subphrasesIntervalTreeRef =
-    useRef<IntervalTree<SubphraseTiming> | null>(null);
+  const lookupsRef = useRef<TranscriptLookups | null>(null);
+  // Lookups the worker built for the timings it read, used instead of
+  // rebuilding them here while those timings are unedited
+  const loadedLookupsRef = useRef<{
+    timings: WordTiming[];
+    packed: PackedLookups;
+  } | null>(null);
+  const subphraseIndexRef = useRef<TimeIndex<SubphraseTiming> | null>(null);
+  // Timings as last loaded, to tell whether any have been edited since
+  const loadedTimingsRef = useRef<WordTiming[]>([]);
+  // Text of the caption file loaded, saved as is until its timings change
+  const captionTextRef = useRef<string>("");
+  // Transcript last written to the session, reused while neither the
+  // document nor the timings change
+  const savedTranscriptRef = useRef<{
+    document: SourceDocument | null;
+    timings: WordTiming[];
+    text: string;
+  } | null>(null);
   const rafRef = useRef<number>();
+  // Where playback started by playSpan should pause
+  const stopAtRef = useRef<number | null>(null);
+  // Saved playhead to seek to once the restored audio has loaded
+  const pendingSeekRef = useRef<number | null>(null);
+  // Stops the transcript download or parse in progress
+  const cancelLoadRef = useRef<(() => void) | null>(null);
+  // Stops re-deriving the subphrases for an edit that has been superseded
+  const cancelSpanUpdateRef = useRef<(() => void) | null>(null);
+  // Bumped by every audio load so a slow download can't replace newer audio
+  const audioRequestRef = useRef(0);
+  // Loop from a shared link, applied once its transcript has loaded
+  const pendingLoopRef = useRef<LoopState | null>(null);
+  // Audio read back from a session, which needn't be stored again
+  const restoredAudioRef = useRef<File | null>(null);
   const initialTime = useRef<number>(0);
   const dragStartY = useRef<number>(0);
   const dragAreaHeight = useRef<number>(300); // Virtual drag area height in pixels
@@ -432,48 +344,118 @@ function App() {
   }, [currentWordTimings, maxJsonHeight]);
 
   useEffect(() => {
-    // Build interval tree when timings change
-    console.log("Building interval tree with timings:", timings.length);
-    intervalTreeRef.current = new IntervalTree();
-    timings.forEach((timing) => {
-      //console.log("Adding timing to tree:", timing);
-      intervalTreeRef.current?.insert(timing);
-    });
+    // Rebuild the lookups when timings change, unless the worker already
+    // built them for these timings
+    const loaded = loadedLookupsRef.current;
+    lookupsRef.current =
+      loaded?.timings === timings
+        ? unpackLookups(timings, loaded.packed)
+        : buildLookups(timings);
   }, [timings]);
 
   useEffect(() => {
-    subphrasesIntervalTreeRef.current = new IntervalTree();
-    for (const subphrase of subphraseTimings) {
-      //console.log("Adding subphrase to tree:", subphrase);
-      subphrasesIntervalTreeRef.current.insert(subphrase);
-    }
+    subphraseIndexRef.current = new TimeIndex(subphraseTimings);
   }, [subphraseTimings]);
 
+  // Words and subphrase under the playhead; these re-render the app when
+  // playback moves on to the next one, not on every frame
+  const activeWords = usePlaybackSelector(
+    clock,
+    (time) =>
+      lookupsRef.current?.words
+        .findOverlapping(time)
+        .filter((timing) => time >= timing.start && time <= timing.end) ??
+      NO_WORDS,
+    sameItems
+  );
+  const activeSubphrase = usePlaybackSelector(
+    clock,
+    (time) => subphraseIndexRef.current?.findOverlapping(time)[0]
+  );
+
+  useEffect(() => {
+    // Decode a mono copy of the audio for the waveform and spectrogram.
+    // The player's source is read, so audio that needed request headers
+    // comes from the copy already downloaded rather than the remote URL
+    const source = audioFile || (audioUrl && audioUrlRef.current);
+    setDecodedAudio(null);
+    setAudioDecodeError("");
+    if (!source) return;
+    let cancelled = false;
+    decodeAudio(source)
+      .then((decoded) => {
+        if (!cancelled) setDecodedAudio(decoded);
+      })
+      .catch((error) => {
+        console.error("Error decoding audio:", error);
+        if (!cancelled) {
+          setAudioDecodeError("Unable to decode audio for the waveform");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [audioFile, audioUrl]);
+
+  const loadAudioFile = (file: File) => {
+    audioRequestRef.current++;
+    setAudioFile(file);
+    setAudioUrl(""); // Clear URL when file is uploaded
+    setAudioKey("");
+    setSessionId((id) => id ?? createSessionId());
+    if (audioUrlRef.current) URL.revokeObjectURL(audioUrlRef.current);
+    audioUrlRef.current = URL.createObjectURL(file);
+    if (audioRef.current) {
+      audioRef.current.src = audioUrlRef.current;
+      audioRef.current.load();
+    }
+
+    // Check if the file is an MP3 and show warning
+    if (
+      file.type === "audio/mp3" ||
+      file.type === "audio/mpeg" ||
+      file.name.toLowerCase().endsWith(".mp3")
+    ) {
+      setShowMp3Warning(true);
+    } else {
+      setShowMp3Warning(false);
+    }
+  };
+
+  // `src` differs from `url` when the audio was downloaded ahead of playback
+  const loadAudioUrl = (url: string, key: string, src = url) => {
+    audioRequestRef.current++;
+    setAudioFile(null);
+    setSessionId((id) => id ?? createSessionId());
+    if (audioUrlRef.current) URL.revokeObjectURL(audioUrlRef.current);
+    audioUrlRef.current = src;
+    if (audioRef.current) {
+      audioRef.current.src = src;
+      audioRef.current.load();
+    }
+    setAudioUrl(url);
+    setAudioKey(key);
+  };
+
+  const clearAudio = () => {
+    audioRequestRef.current++;
+    setAudioFile(null);
+    setAudioUrl("");
+    setAudioKey("");
+    if (audioUrlRef.current) URL.revokeObjectURL(audioUrlRef.current);
+    audioUrlRef.current = "";
+    if (audioRef.current) {
+      audioRef.current.removeAttribute("src");
+      audioRef.current.load();
+    }
+  };
+
   const handleAudioUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
       if (file.type.startsWith("audio/")) {
-        setAudioFile(file);
-        setAudioUrl(""); // Clear URL when file is uploaded
-        setAudioKey("");
-        if (audioUrlRef.current) URL.revokeObjectURL(audioUrlRef.current);
-        audioUrlRef.current = URL.createObjectURL(file);
-        if (audioRef.current) {
-          audioRef.current.src = audioUrlRef.current;
-          audioRef.current.load();
-        }
-
-        // Check if the file is an MP3 and show warning
-        if (
-          file.type === "audio/mp3" ||
-          file.type === "audio/mpeg" ||
-          file.name.toLowerCase().endsWith(".mp3")
-        ) {
-          setShowMp3Warning(true);
-        } else {
-          setShowMp3Warning(false);
-        }
-
+        loadAudioFile(file);
+        setSessionNotice("");
         setError("");
       } else {
         setError("Please upload a valid audio file");
@@ -481,15 +463,44 @@ function App() {
     }
   };
 
-  const constructUrlFromKey = (key: string): string => {
-    return `http://localhost:9000/jobdata/${key}`;
+  const activeProfile = findProfile(
+    resolverSettings.profiles,
+    resolverSettings.activeId
+  );
+
+  const handleResolverChange = (next: ResolverSettings) => {
+    setResolverSettings(next);
+    saveResolverSettings(next);
+  };
+
+  /**
+   * Loads the first resolved URL of a storage key that serves audio. The
+   * player can't send request headers, so with a profile that needs them
+   * the audio is downloaded first. Throws when none loads.
+   */
+  const openKeyedAudio = async (
+    sources: { url: string; key: string }[],
+    profile: AudioResolverProfile
+  ) => {
+    const request = ++audioRequestRef.current;
+    const { index, blob } = await findPlayableAudio(
+      sources.map((source) => source.url),
+      profile.headers
+    );
+    // Only the newest load gets an object URL, so none is left unrevoked
+    if (request !== audioRequestRef.current) return;
+    const { url, key } = sources[index];
+    loadAudioUrl(url, key, blob && URL.createObjectURL(blob));
   };
 
   const handleAudioUrl = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     const formData = new FormData(event.currentTarget);
-    const input = formData.get("audioUrl") as string;
+    await loadAudioInput(formData.get("audioUrl") as string);
+  };
 
+  // Loads audio from a URL, a storage key or a `"key": "..."` snippet
+  const loadAudioInput = async (input: string) => {
     if (!input) {
       setError("Please enter a valid URL or key");
       return;
@@ -497,6 +508,7 @@ function App() {
 
     // Try to extract key from JSON-like string
     let processedInput = input.trim();
+    let bucket: string | undefined;
     if (processedInput.includes('"key":')) {
       try {
         // Convert to valid JSON if it's not already
@@ -509,6 +521,7 @@ function App() {
         const parsed = JSON.parse(processedInput);
         if (parsed.key) {
           processedInput = parsed.key;
+          bucket = parsed.bucket;
         }
       } catch (error) {
         console.log("Failed to parse key JSON, trying regex:", error);
@@ -520,39 +533,26 @@ function App() {
     }
 
     // Determine if input is a URL or a key
-    const url =
+    const isUrl =
       processedInput.startsWith("http://") ||
-      processedInput.startsWith("https://")
-        ? processedInput
-        : constructUrlFromKey(processedInput);
+      processedInput.startsWith("https://");
 
     setIsLoadingAudio(true);
     try {
-      // Test if the URL is valid and accessible
-      const response = await fetch(url, { method: "HEAD" });
-      if (!response.ok) {
-        throw new Error("URL is not accessible");
-      }
-      const contentType = response.headers.get("content-type");
-      if (!contentType?.startsWith("audio/")) {
-        throw new Error("URL does not point to an audio file");
-      }
+      const url = isUrl
+        ? processedInput
+        : resolveAudioUrl(activeProfile, { key: processedInput, bucket });
+      if (!isUrl && hasHeaders(activeProfile)) {
+        // Downloading checks the audio as well
+        await openKeyedAudio([{ url, key: processedInput }], activeProfile);
+      } else {
+        // Test if the URL is valid and accessible
+        await checkAudioUrl(url);
 
-      // Clear existing file and set new URL
-      setAudioFile(null);
-      if (audioUrlRef.current) URL.revokeObjectURL(audioUrlRef.current);
-      audioUrlRef.current = url;
-      if (audioRef.current) {
-        audioRef.current.src = url;
-        audioRef.current.load();
+        // Clear existing file and set new URL
+        loadAudioUrl(url, isUrl ? "" : processedInput);
       }
-      setAudioUrl(url);
-      setAudioKey(
-        processedInput.startsWith("http://") ||
-          processedInput.startsWith("https://")
-          ? ""
-          : processedInput
-      );
+      setSessionNotice("");
       setError("");
     } catch {
       setError(
@@ -563,52 +563,200 @@ function App() {
     }
   };
 
-  const handleJsonInput = (jsonValue: string) => {
+  const resetTimings = (
+    nextTimings: WordTiming[],
+    nextSubphraseTimings: SubphraseTiming[]
+  ) => {
+    cancelSpanUpdateRef.current?.();
+    loadedTimingsRef.current = nextTimings;
+    captionTextRef.current = "";
+    setRawTimings(nextTimings);
+    setRawSubphraseTimings(nextSubphraseTimings);
+    setTimingCorrection(IDENTITY_CORRECTION);
+    setSelectedTimingIndex(null);
+    setTimingsPast([]);
+    setTimingsFuture([]);
+    setAlignments([]);
+    setReportedStatistics(undefined);
+    setSpeakerNames({});
+    setSpeakerFilter({ speaker: null, mode: "highlight" });
+  };
+
+  // Reads the loaded JSON with one format adapter; returns false if it
+  // produced no words
+  const applyReading = (format: TranscriptFormat, reading: FormatReading) => {
+    const { result } = reading;
+    loadedLookupsRef.current = {
+      timings: result.timings,
+      packed: reading.lookups,
+    };
+    setTranscriptFormat(format);
+    setLoadedFormatLabel(format.label);
+    resetTimings(result.timings, result.subphraseTimings);
+    setAlignments(result.alignments ?? []);
+    setReportedStatistics(result.statistics);
+    setValidationIssues(result.issues);
+    if (reading.failed) {
+      setError(`The JSON data could not be read as ${format.label}`);
+    } else if (result.timings.length === 0) {
+      setError(`No valid word timings found when reading as ${format.label}`);
+    } else {
+      setError("");
+    }
+  };
+
+  const cancelTranscriptLoad = () => {
+    cancelLoadRef.current?.();
+    cancelLoadRef.current = null;
+    setLoadProgress(null);
+  };
+
+  // Runs one transcript job at a time in a worker; starting another cancels
+  // the one in progress. Resolves to null when cancelled.
+  const runTranscriptTask = async <R extends TranscriptWorkerRequest>(
+    request: R
+  ) => {
+    cancelTranscriptLoad();
+    const task = runTranscriptWorker(request, setLoadProgress);
+    cancelLoadRef.current = task.cancel;
     try {
-      if (!jsonValue.trim()) {
-        setError("Please enter JSON data");
-        return;
+      return await task.promise;
+    } finally {
+      if (cancelLoadRef.current === task.cancel) {
+        cancelLoadRef.current = null;
+        setLoadProgress(null);
       }
+    }
+  };
 
-      let parsedData;
-      try {
-        parsedData = JSON.parse(jsonValue);
-      } catch (error) {
-        console.error("JSON parse error:", error);
-        setError("Invalid JSON format");
-        return;
-      }
+  const handleFormatOverride = async (formatId: string) => {
+    const format = getTranscriptFormat(formatId);
+    if (!format || !sourceDocument) return;
+    try {
+      const reading = await runTranscriptTask({
+        type: "read",
+        text: sourceDocument.text(),
+        formatId,
+      });
+      if (reading) applyReading(format, reading);
+    } catch (error) {
+      console.error(`Error reading JSON as ${format.label}:`, error);
+      setError(`The JSON data could not be read as ${format.label}`);
+    }
+  };
 
-      // Try to extract audio key first
-      const key = extractAudioKey(jsonValue);
-      if (key) {
-        setAudioKey(key);
-        const url = constructUrlFromKey(key);
-        setAudioUrl(url);
-        if (audioRef.current) {
-          audioRef.current.src = url;
-          audioRef.current.load();
-        }
-      }
+  /**
+   * Parses and reads a transcript off the main thread, then shows it. A new
+   * transcript starts a new session; `restore` reopens a saved one.
+   */
+  const handleJsonInput = async (
+    jsonValue: string,
+    restore?: { sessionId: string; formatId?: string }
+  ) => {
+    if (!jsonValue.trim()) {
+      setError("Please enter JSON data");
+      return;
+    }
 
-      // Extract word timings
-      const extractedTimings = extractWordTimings(jsonValue);
-      const extractedSubphrases = extractSubphraseTimings(jsonValue);
-      if (extractedSubphrases.length > 0) {
-        console.log("Setting subphrase timings:", extractedSubphrases);
-        setSubphraseTimings(extractedSubphrases);
-      }
-      if (extractedTimings.length > 0) {
-        console.log("Setting timings:", extractedTimings);
-        setTimings(extractedTimings);
-        setError("");
-      } else {
-        console.error("No word timings found in JSON:", parsedData);
-        setError("No valid word timings found in the JSON data");
-      }
+    const profile = activeProfile;
+    let loaded;
+    try {
+      loaded = await runTranscriptTask({
+        type: "load",
+        text: jsonValue,
+        formatId: restore?.formatId,
+        audioPaths: profile.audioPaths,
+        originalAudioPaths: profile.originalAudioPaths,
+      });
     } catch (error) {
       console.error("Error processing JSON:", error);
       setError("Error processing the JSON data");
+      return;
+    }
+    if (!loaded) return;
+
+    if (loaded.kind === "error") {
+      console.error("Error loading transcript:", loaded.message);
+      setValidationIssues([]);
+      setError(loaded.message);
+      return;
+    }
+
+    if (loaded.kind === "captions") {
+      loadedLookupsRef.current = {
+        timings: loaded.timings,
+        packed: loaded.lookups,
+      };
+      resetTimings(loaded.timings, []);
+      captionTextRef.current = jsonValue;
+      setSessionId(restore?.sessionId ?? createSessionId());
+      setValidationIssues([]);
+      setSourceDocument(null);
+      setOriginalAudio(null);
+      setFormatDetection(null);
+      setTranscriptFormat(null);
+      setLoadedFormatLabel(loaded.label);
+      setError("");
+      return;
+    }
+
+    // Try to extract audio keys first; a restored session brings its own
+    // dub, but not the original
+    const dubLocations = restore ? [] : loaded.audioLocations;
+    const resolve = (locations: AudioLocation[]) =>
+      locations.map((location) => ({
+        url: resolveAudioUrl(profile, location),
+        key: location.key,
+      }));
+    try {
+      const originalUrls = resolve(loaded.originalAudioLocations).map(
+        (source) => source.url
+      );
+      setOriginalAudio(
+        originalUrls.length > 0
+          ? { urls: originalUrls, headers: profile.headers }
+          : null
+      );
+      if (dubLocations.length > 0) {
+        const keys = dubLocations.map((location) => location.key).join(", ");
+        openKeyedAudio(resolve(dubLocations), profile).catch((error) => {
+          console.error("Error loading transcript audio:", error);
+          setError(`Unable to load the audio for key ${keys}`);
+        });
+      }
+    } catch (error) {
+      console.error("Error resolving audio key:", error);
+      setOriginalAudio(null);
+      setError(`Check the base URL of the "${profile.name}" profile`);
+    }
+
+    // Keep the data even if no adapter matches so a format can be
+    // picked manually
+    const detected = loaded.detectedId
+      ? getTranscriptFormat(loaded.detectedId)
+      : undefined;
+    setSessionId(restore?.sessionId ?? createSessionId());
+    setSourceDocument(documentFromText(jsonValue));
+    setFormatDetection({
+      format: detected,
+      candidates: loaded.candidateIds.flatMap(
+        (id) => getTranscriptFormat(id) ?? []
+      ),
+      isAmbiguous: loaded.isAmbiguous,
+    });
+    const format =
+      loaded.reading && getTranscriptFormat(loaded.reading.formatId);
+    if (format && loaded.reading) {
+      applyReading(format, loaded.reading);
+    } else {
+      console.error("No transcript format matched the JSON");
+      resetTimings([], []);
+      setValidationIssues([]);
+      setTranscriptFormat(null);
+      setLoadedFormatLabel("");
+      setError(
+        "Unrecognized transcript format. Pick the format manually below."
+      );
     }
   };
 
@@ -625,30 +773,45 @@ function App() {
   const handleJsonUrl = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     const formData = new FormData(event.currentTarget);
-    const input = formData.get("jsonUrl") as string;
+    await loadJsonUrl(formData.get("jsonUrl") as string);
+  };
 
+  const loadJsonUrl = async (input: string) => {
     if (!input) {
       setError("Please enter a valid URL for JSON");
       return;
     }
 
+    cancelTranscriptLoad();
+    const controller = new AbortController();
+    const cancel = () => controller.abort();
+    cancelLoadRef.current = cancel;
+    setLoadProgress({ stage: "downloading" });
     setIsLoadingJson(true);
+    let jsonData: string;
     try {
       // Fetch JSON data from URL
-      const response = await fetch(input);
+      const response = await fetch(input, { signal: controller.signal });
       if (!response.ok) {
         throw new Error("URL is not accessible");
       }
-      const jsonData = await response.text();
-
-      // Process the fetched JSON data
-      handleJsonInput(jsonData);
-      setJsonUrl(input);
+      jsonData = await readResponseText(response, setLoadProgress);
     } catch (error) {
-      setError("Unable to load JSON. Please check if the URL is correct.");
+      if (!controller.signal.aborted) {
+        setError("Unable to load JSON. Please check if the URL is correct.");
+      }
+      return;
     } finally {
+      if (cancelLoadRef.current === cancel) {
+        cancelLoadRef.current = null;
+        setLoadProgress(null);
+      }
       setIsLoadingJson(false);
     }
+
+    // Process the fetched JSON data
+    await handleJsonInput(jsonData);
+    setJsonUrl(input);
   };
 
   const togglePlayback = () => {
@@ -687,7 +850,7 @@ function App() {
     // Only update if the change is significant enough
     if (Math.abs(newTime - audioRef.current.currentTime) >= 0.001) {
       audioRef.current.currentTime = newTime;
-      setCurrentTime(newTime);
+      clock.setTime(newTime);
     }
   };
 
@@ -710,13 +873,10 @@ function App() {
   */
 
   const updateCurrentWords = (time: number) => {
-    const tree = intervalTreeRef.current;
-    if (!tree) {
-      console.log("No interval tree available");
-      return;
-    }
+    const lookups = lookupsRef.current;
+    if (!lookups) return;
 
-    let validCurrentWordTimings = tree.findOverlapping(time);
+    let validCurrentWordTimings = lookups.words.findOverlapping(time);
     if (!persistWordsRef.current) {
       validCurrentWordTimings = validCurrentWordTimings.filter(
         (w) => time <= w.end
@@ -724,13 +884,17 @@ function App() {
     }
 
     const validCurrentSubphraseTimings =
-      subphrasesIntervalTreeRef.current?.findOverlapping(time) || [];
+      subphraseIndexRef.current?.findOverlapping(time) || [];
     if (
       validCurrentSubphraseTimings.length > 0 ||
       validCurrentWordTimings.filter((w) => w.language === "original").length >
         0
     ) {
-      setCurrentSubphraseTimings(validCurrentSubphraseTimings);
+      setCurrentSubphraseTimings((previous) =>
+        sameItems(previous, validCurrentSubphraseTimings)
+          ? previous
+          : validCurrentSubphraseTimings
+      );
     }
     /*
     console.log(
@@ -746,25 +910,23 @@ function App() {
 
       // If we have a valid sentence index, find all words from that sentence
       if (currentSentenceIndex !== undefined) {
-        const sentenceWords = timings.filter(
-          (timing) =>
-            timing.sentenceIndex === currentSentenceIndex &&
-            (timing.language ? timing.language === "original" : true)
-        );
-        //console.log("Words in current sentence:", sentenceWords.length);
-        setCurrentSentenceWords(sentenceWords);
-      }
-      if (subphraseTimings.length > 0) {
-        // special case for my needs
-        setCurrentWordTimings(
-          validCurrentWordTimings.filter((t) => t.language === "original")
+        setCurrentSentenceWords(
+          lookups.sentenceWords.get(currentSentenceIndex) ?? []
         );
-      } else {
-        setCurrentWordTimings(validCurrentWordTimings);
       }
+      const wordTimings = wordsToShow(
+        validCurrentWordTimings,
+        lookups,
+        subphraseTimings.length > 0
+      );
+      // Called every frame; unchanged lists keep their state so nothing
+      // re-renders until the playhead reaches another word
+      setCurrentWordTimings((previous) =>
+        sameItems(previous, wordTimings) ? previous : wordTimings
+      );
     } else if (!persistWordsRef.current) {
-      setCurrentSentenceWords([]);
-      setCurrentWordTimings([]);
+      setCurrentSentenceWords(NO_WORDS);
+      setCurrentWordTimings(NO_WORDS);
     }
   };
 
@@ -772,7 +934,7 @@ function App() {
     if (audioRef.current) {
       const newTime = Math.max(0, audioRef.current.currentTime - ms / 1000);
       audioRef.current.currentTime = newTime;
-      setCurrentTime(newTime);
+      clock.setTime(newTime);
       updateCurrentWords(newTime);
     }
   };
@@ -781,32 +943,87 @@ function App() {
     if (audioRef.current) {
       const newTime = audioRef.current.currentTime + ms / 1000;
       audioRef.current.currentTime = newTime;
-      setCurrentTime(newTime);
+      clock.setTime(newTime);
       updateCurrentWords(newTime);
     }
   };
 
+  // Seeks to the start of the previous or next item in the index
+  const jumpToStart = <T extends { start: number; end: number }>(
+    index: TimeIndex<T> | null | undefined,
+    direction: "back" | "forward"
+  ) => {
+    if (!audioRef.current || !index) return;
+    const time = audioRef.current.currentTime;
+    const target =
+      direction === "back"
+        ? previousStart(index, time)
+        : nextStart(index, time);
+    if (target !== undefined) seekTo(target);
+  };
+
   const jumpToSentence = (direction: "back" | "forward") => {
-    if (!audioRef.current || currentWordTimings.length === 0) return;
+    jumpToStart(lookupsRef.current?.sentences, direction);
+  };
 
-    const currentSentenceIndex = currentWordTimings[0].sentenceIndex;
-    if (currentSentenceIndex === undefined) return;
+  const jumpToWord = (direction: "back" | "forward") => {
+    jumpToStart(lookupsRef.current?.words, direction);
+  };
 
-    const targetSentenceIndex =
-      direction === "back"
-        ? currentSentenceIndex - 1
-        : currentSentenceIndex + 1;
+  const jumpToSubphrase = (direction: "back" | "forward") => {
+    jumpToStart(subphraseIndexRef.current, direction);
+  };
 
-    // Find the first word of the target sentence
-    const targetWord = timings.find(
-      (timing) => timing.sentenceIndex === targetSentenceIndex
-    );
+  // Latest handlers for the keyboard listener, which only re-binds when the
+  // bindings change
+  const shortcutActionsRef = useRef<Record<ShortcutAction, () => void>>();
+  useEffect(() => {
+    shortcutActionsRef.current = {
+      togglePlayback,
+      back10ms: () => stepBy(-10),
+      forward10ms: () => stepBy(10),
+      back100ms: () => stepBy(-100),
+      forward100ms: () => stepBy(100),
+      back10s: () => jumpBack(10 * 1000),
+      forward10s: () => jumpForward(10 * 1000),
+      back1m: () => jumpBack(60 * 1000),
+      forward1m: () => jumpForward(60 * 1000),
+      back10m: () => jumpBack(10 * 60 * 1000),
+      forward10m: () => jumpForward(10 * 60 * 1000),
+      previousSentence: () => jumpToSentence("back"),
+      nextSentence: () => jumpToSentence("forward"),
+      previousWord: () => jumpToWord("back"),
+      nextWord: () => jumpToWord("forward"),
+      previousSubphrase: () => jumpToSubphrase("back"),
+      nextSubphrase: () => jumpToSubphrase("forward"),
+      showHelp: () => setShowShortcutHelp(true),
+    };
+  });
 
-    if (targetWord) {
-      audioRef.current.currentTime = targetWord.start;
-      setCurrentTime(targetWord.start);
-      updateCurrentWords(targetWord.start);
-    }
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || isTypingTarget(event.target)) return;
+      const combo = comboFromEvent(event);
+      // Focused buttons and links keep their own activation keys
+      if (
+        (combo === "Space" || combo === "Enter") &&
+        event.target instanceof HTMLElement &&
+        event.target.closest("button, a")
+      ) {
+        return;
+      }
+      const action = findAction(shortcutBindings, combo);
+      if (!action) return;
+      event.preventDefault();
+      shortcutActionsRef.current?.[action]();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [shortcutBindings]);
+
+  const handleShortcutBindingsChange = (bindings: ShortcutBindings) => {
+    setShortcutBindings(bindings);
+    saveBindings(bindings);
   };
 
   useEffect(() => {
@@ -818,6 +1035,10 @@ function App() {
 
       // Get precise current time without rounding
       const currentTime = audio.currentTime;
+      if (stopAtRef.current !== null && currentTime >= stopAtRef.current) {
+        audio.pause();
+        return;
+      }
       /*
       console.log(
         "Current time:",
@@ -825,7 +1046,7 @@ function App() {
         "Looking for words at this time"
       );
       */
-      setCurrentTime(currentTime);
+      clock.setTime(currentTime);
       updateCurrentWords(currentTime);
 
       // Schedule next update
@@ -835,6 +1056,10 @@ function App() {
     const loadedMetadataHandler = () => {
       console.log("Audio metadata loaded, duration:", audio.duration);
       setDuration(audio.duration);
+      if (pendingSeekRef.current !== null) {
+        audio.currentTime = Math.min(pendingSeekRef.current, audio.duration);
+        pendingSeekRef.current = null;
+      }
     };
 
     const playHandler = () => {
@@ -850,7 +1075,7 @@ function App() {
         // Update words when time changes while paused (e.g., seeking)
         const currentTime = audio.currentTime;
         console.log("Time updated while paused:", currentTime);
-        setCurrentTime(currentTime);
+        clock.setTime(currentTime);
         updateCurrentWords(currentTime);
       }
     };
@@ -858,13 +1083,14 @@ function App() {
     const pauseHandler = () => {
       console.log("Audio paused");
       setIsPlaying(false);
+      stopAtRef.current = null;
       // Cancel animation frame loop when paused
       if (rafRef.current) {
         cancelAnimationFrame(rafRef.current);
       }
       // Update one last time when pausing
       const currentTime = audio.currentTime;
-      setCurrentTime(currentTime);
+      clock.setTime(currentTime);
       updateCurrentWords(currentTime);
     };
 
@@ -883,7 +1109,7 @@ function App() {
       audio.removeEventListener("pause", pauseHandler);
       audio.removeEventListener("timeupdate", timeUpdateHandler);
     };
-  }, [timings, isPlaying]);
+  }, [clock, timings, isPlaying]);
 
   const handleDownload = async (e: React.MouseEvent<HTMLAnchorElement>) => {
     e.preventDefault();
@@ -908,12 +1134,559 @@ function App() {
     }
   };
 
-  const handleWordClick = (timing: WordTiming) => {
+  const seekTo = (time: number) => {
     if (audioRef.current) {
-      audioRef.current.currentTime = timing.start;
-      setCurrentTime(timing.start);
-      updateCurrentWords(timing.start);
+      // A jump elsewhere ends a span started by playSpan
+      stopAtRef.current = null;
+      audioRef.current.currentTime = time;
+      clock.setTime(time);
+      updateCurrentWords(time);
+    }
+  };
+
+  // Plays one stretch of the audio, given in uncorrected transcript times
+  const playSpan = (start: number, end: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    seekTo(correctTime(start, timingCorrection));
+    stopAtRef.current = correctTime(end, timingCorrection);
+    audio.play();
+  };
+
+  const handleWordClick = (timing: WordTiming) => {
+    if (isEditing) {
+      const index = timings.indexOf(timing);
+      setSelectedTimingIndex(index === -1 ? null : index);
+    }
+    seekTo(timing.start);
+  };
+
+  // Replaces the timings and, for phrase documents, re-derives the subphrases
+  // from the edited source so both views stay in step. That takes reading
+  // the whole document again, so it happens in the worker
+  const applyTimings = (nextTimings: WordTiming[]) => {
+    setRawTimings(nextTimings);
+    cancelSpanUpdateRef.current?.();
+    if (
+      (rawSubphraseTimings.length === 0 && alignments.length === 0) ||
+      !sourceDocument ||
+      !transcriptFormat
+    ) {
+      return;
+    }
+    // The document holds the times as loaded, so only the words edited
+    // since need writing into it
+    const loaded = loadedTimingsRef.current;
+    const task = runTranscriptWorker(
+      {
+        type: "edit",
+        text: sourceDocument.text(),
+        formatId: transcriptFormat.id,
+        edits: nextTimings.filter((timing, i) => timing !== loaded[i]),
+      },
+      () => {}
+    );
+    cancelSpanUpdateRef.current = task.cancel;
+    task.promise
+      .then((spans) => {
+        if (!spans) return;
+        cancelSpanUpdateRef.current = null;
+        setRawSubphraseTimings(spans.subphraseTimings);
+        setAlignments(spans.alignments);
+      })
+      .catch((error) => {
+        setError(
+          `Could not update the subphrases${
+            error instanceof Error ? `: ${error.message}` : ""
+          }`
+        );
+      });
+  };
+
+  // Edits are made on the corrected times, so take the correction back out
+  const commitTimingEdits = (edits: TimingEdit[]) => {
+    if (edits.length === 0) return;
+    const nextTimings = [...rawTimings];
+    for (const { index, start, end } of edits) {
+      const correction = isCorrectedTiming(nextTimings[index])
+        ? timingCorrection
+        : IDENTITY_CORRECTION;
+      nextTimings[index] = {
+        ...nextTimings[index],
+        start: uncorrectTime(start, correction),
+        end: uncorrectTime(end, correction),
+      };
+    }
+    setTimingsPast([...timingsPast, rawTimings]);
+    setTimingsFuture([]);
+    applyTimings(nextTimings);
+  };
+
+  const commitTimingEdit = (index: number, start: number, end: number) =>
+    commitTimingEdits([{ index, start, end }]);
+
+  const undoTimingEdit = () => {
+    const previous = timingsPast.at(-1);
+    if (!previous) return;
+    setTimingsPast(timingsPast.slice(0, -1));
+    setTimingsFuture([rawTimings, ...timingsFuture]);
+    applyTimings(previous);
+  };
+
+  const redoTimingEdit = () => {
+    const following = timingsFuture.at(0);
+    if (!following) return;
+    setTimingsFuture(timingsFuture.slice(1));
+    setTimingsPast([...timingsPast, rawTimings]);
+    applyTimings(following);
+  };
+
+  // Name exported files after whatever was loaded
+  const exportBaseName =
+    (jsonUrl.split("/").pop() || audioFile?.name || "")
+      .replace(/\?.*$/, "")
+      .replace(/\.[^.]*$/, "") || "timings";
+
+  const handleExportJson = () => {
+    if (!sourceDocument) return;
+    downloadJson(
+      applyTimingEdits(
+        sourceDocument.read(),
+        timings,
+        transcriptFormat?.writeTiming
+      ),
+      `${exportBaseName}-edited.json`
+    );
+  };
+
+  // Subphrase edits go into the loaded document itself, so every export
+  // carries them; the timings are re-derived from it straight away
+  const handleAlignmentEdit = (sentenceIndex: number, edit: PhraseEdit) => {
+    if (!transcriptFormat || !sourceDocument) return;
+    cancelSpanUpdateRef.current?.();
+    try {
+      const nextData = editSentenceTimings(
+        sourceDocument.read(),
+        sentenceIndex,
+        edit
+      );
+      const normalized = transcriptFormat.normalize(
+        applyTimingEdits(nextData, rawTimings, transcriptFormat.writeTiming)
+      );
+      setSourceDocument(documentFromData(nextData));
+      setRawSubphraseTimings(normalized.subphraseTimings);
+      setAlignments(normalized.alignments ?? []);
+    } catch (error) {
+      setError(
+        `Could not edit the subphrases${
+          error instanceof Error ? `: ${error.message}` : ""
+        }`
+      );
+    }
+  };
+
+  // Only `SentenceTiming[]` documents keep their subphrases per phrase
+  const isPhraseDocument = transcriptFormat?.id === "sentence-timings";
+
+  const handleExportSentenceTimings = () => {
+    if (!sourceDocument) return;
+    downloadJson(
+      toSentenceTimings(
+        applyTimingEdits(
+          sourceDocument.read(),
+          timings,
+          transcriptFormat?.writeTiming
+        )
+      ),
+      `${exportBaseName}-sentence-timings.json`
+    );
+  };
+
+  // Bakes the correction into the timings as one undoable edit
+  const applyTimingCorrection = () => {
+    setTimingsPast([...timingsPast, rawTimings]);
+    setTimingsFuture([]);
+    applyTimings(timings);
+    setTimingCorrection(IDENTITY_CORRECTION);
+  };
+
+  const selectedTiming =
+    selectedTimingIndex !== null ? timings[selectedTimingIndex] : undefined;
+  const focusedWord = (isEditing && selectedTiming) || currentWordTimings[0];
+
+  // While a word is being edited the 10ms/100ms jumps nudge one of its
+  // edges instead of the playhead
+  const stepBy = (ms: number) => {
+    if (!isEditing || !selectedTiming || selectedTimingIndex === null) {
+      if (ms < 0) jumpBack(-ms);
+      else jumpForward(ms);
+      return;
+    }
+    const { prev, next } = findNeighbours(timings, selectedTimingIndex);
+    const { start, end } = nudgeWordTiming(
+      selectedTiming,
+      nudgeEdge,
+      ms / 1000,
+      neighbourBounds(selectedTiming, prev, next)
+    );
+    commitTimingEdit(selectedTimingIndex, start, end);
+  };
+
+  const stepTitle = (ms: number) => {
+    const amount = `${Math.abs(ms)} milliseconds`;
+    if (isEditing && selectedTiming) {
+      return `Nudge the word's ${nudgeEdge} ${
+        ms < 0 ? "back" : "ahead"
+      } ${amount}`;
     }
+    return ms < 0 ? `Jump back ${amount}` : `Skip ahead ${amount}`;
+  };
+
+  const loopFingerprint = useMemo(
+    () => (timings.length > 0 ? transcriptFingerprint(timings) : ""),
+    [timings]
+  );
+
+  useEffect(() => {
+    if (loopFingerprint && pendingLoopRef.current) {
+      setLoop(pendingLoopRef.current);
+      pendingLoopRef.current = null;
+      return;
+    }
+    // Bring back the loop last used with this transcript
+    setLoop(loopFingerprint ? loadLoop(loopFingerprint) : DEFAULT_LOOP);
+  }, [loopFingerprint]);
+
+  const handleLoopChange = (next: LoopState) => {
+    setLoop(next);
+    if (loopFingerprint) saveLoop(loopFingerprint, next);
+  };
+
+  const openSession = async (id: string) => {
+    try {
+      const loaded = await loadSession(id);
+      if (!loaded) return;
+      const { session, audio } = loaded;
+      setJsonUrl(session.jsonUrl);
+      if (session.transcript) {
+        await handleJsonInput(session.transcript, {
+          sessionId: id,
+          formatId: session.formatId,
+        });
+      }
+      const profile = findProfile(
+        resolverSettings.profiles,
+        session.settings.resolverProfileId ?? resolverSettings.activeId
+      );
+      handleResolverChange({ ...resolverSettings, activeId: profile.id });
+      restoredAudioRef.current = audio;
+      if (audio) {
+        loadAudioFile(audio);
+      } else if (session.audio?.kind === "url") {
+        if (session.audio.key) {
+          const { url, key } = session.audio;
+          openKeyedAudio([{ url, key }], profile).catch((error) => {
+            console.error("Error loading session audio:", error);
+            setError(`Unable to load the audio for key ${key}`);
+          });
+        } else {
+          loadAudioUrl(session.audio.url, "");
+        }
+      } else {
+        clearAudio();
+      }
+      setSessionNotice(
+        session.audio?.kind === "file" && !audio
+          ? `"${session.audio.name}" was too large to keep in browser storage. Upload it again to keep working.`
+          : ""
+      );
+      // Loading a transcript resets these, so they're restored last
+      setPersistWords(session.settings.persistWords);
+      persistWordsRef.current = session.settings.persistWords;
+      setTimingCorrection(session.settings.timingCorrection);
+      setSpeakerNames(session.settings.speakerNames);
+      setSessionId(id);
+      pendingSeekRef.current = session.position;
+    } catch (error) {
+      console.error("Error opening session:", error);
+      setError("Unable to open the saved session");
+    }
+  };
+
+  // Loads what a shared link points at, then seeks once the audio is in
+  const openDeepLink = async (link: DeepLink) => {
+    pendingSeekRef.current = link.time ?? null;
+    pendingLoopRef.current = link.loop
+      ? {
+          ...DEFAULT_LOOP,
+          region: { ...link.loop, label: "shared link" },
+          enabled: true,
+        }
+      : null;
+    if (link.json) {
+      setJsonUrl(link.json);
+      await loadJsonUrl(link.json);
+    }
+    if (link.audio) await loadAudioInput(link.audio);
+    if (link.language) setDisplayLanguage(link.language);
+    // Loading a transcript resets these, so they're applied last
+    if (link.persistWords !== undefined) {
+      setPersistWords(link.persistWords);
+      persistWordsRef.current = link.persistWords;
+    }
+    if (link.speaker) {
+      setSpeakerFilter({
+        speaker: link.speaker,
+        mode: link.speakerMode ?? "highlight",
+      });
+    }
+  };
+
+  const handleCopyLink = async () => {
+    const link = buildDeepLink(
+      `${window.location.origin}${window.location.pathname}`,
+      {
+        json: jsonUrl || undefined,
+        // Keys are shorter and survive storage host changes
+        audio: audioFile ? undefined : audioKey || audioUrl || undefined,
+        time: clock.getTime(),
+        loop: loop.enabled && loop.region ? loop.region : undefined,
+        language: displayLanguage,
+        persistWords,
+        speaker: speakerFilter.speaker ?? undefined,
+        speakerMode: speakerFilter.mode,
+      }
+    );
+    try {
+      await navigator.clipboard.writeText(link);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (error) {
+      console.error("Error copying link:", error);
+      setError("Unable to copy the link to the clipboard");
+    }
+  };
+
+  // Opens a shared link if the page has one, else the most recent session
+  const openSessionRef = useRef(openSession);
+  const openDeepLinkRef = useRef(openDeepLink);
+  useEffect(() => {
+    openSessionRef.current = openSession;
+    openDeepLinkRef.current = openDeepLink;
+  });
+  useEffect(() => {
+    const link = parseDeepLink(window.location.search, window.location.hash);
+    if (hasDeepLinkSource(link)) {
+      // Drop the parameters so a reload comes back to the saved session
+      window.history.replaceState(null, "", window.location.pathname);
+      openDeepLinkRef.current(link);
+      return;
+    }
+    listSessions()
+      .then((sessions) => {
+        if (sessions[0]) openSessionRef.current(sessions[0].id);
+      })
+      .catch((error) => console.error("Error listing sessions:", error));
+  }, []);
+
+  // Saves the session a moment after anything in it changes
+  useEffect(() => {
+    if (!sessionId) return;
+    const timeout = setTimeout(() => {
+      // Until a timing is edited the document is stored as the text it was
+      // loaded from, so a transcript that was only opened isn't serialized
+      // on the main thread; the last result is reused while neither the
+      // document nor the timings change
+      const saved = savedTranscriptRef.current;
+      const transcript =
+        saved?.document === sourceDocument && saved?.timings === rawTimings
+          ? saved.text
+          : sourceDocument
+          ? rawTimings === loadedTimingsRef.current
+            ? sourceDocument.text()
+            : JSON.stringify(
+                applyTimingEdits(
+                  sourceDocument.read(),
+                  rawTimings,
+                  transcriptFormat?.writeTiming
+                )
+              )
+          : rawTimings.length > 0
+          ? // Captions have no document to write edits into
+            rawTimings === loadedTimingsRef.current && captionTextRef.current
+            ? captionTextRef.current
+            : JSON.stringify(toWordList(rawTimings))
+          : "";
+      savedTranscriptRef.current = {
+        document: sourceDocument,
+        timings: rawTimings,
+        text: transcript,
+      };
+      const name =
+        exportBaseName !== "timings"
+          ? exportBaseName
+          : rawTimings
+              .slice(0, 6)
+              .map((timing) => timing.word)
+              .join(" ") || "Untitled";
+      saveSession({
+        id: sessionId,
+        name,
+        updatedAt: Date.now(),
+        transcript,
+        formatId: sourceDocument ? transcriptFormat?.id : undefined,
+        jsonUrl,
+        audio: audioFile
+          ? {
+              kind: "file",
+              name: audioFile.name,
+              type: audioFile.type,
+              size: audioFile.size,
+            }
+          : audioUrl
+          ? { kind: "url", url: audioUrl, key: audioKey }
+          : null,
+        position: pendingSeekRef.current ?? audioRef.current?.currentTime ?? 0,
+        settings: {
+          persistWords,
+          timingCorrection,
+          speakerNames,
+          resolverProfileId: resolverSettings.activeId,
+        },
+      }).catch((error) => console.error("Error saving session:", error));
+    }, SESSION_SAVE_DELAY);
+    return () => clearTimeout(timeout);
+  }, [
+    sessionId,
+    sourceDocument,
+    rawTimings,
+    transcriptFormat,
+    exportBaseName,
+    jsonUrl,
+    audioFile,
+    audioUrl,
+    audioKey,
+    persistWords,
+    timingCorrection,
+    speakerNames,
+    resolverSettings.activeId,
+  ]);
+
+  // Uploaded audio is stored once per session, apart from the record
+  useEffect(() => {
+    if (!sessionId) return;
+    if (!audioFile) {
+      deleteSessionAudio(sessionId).catch((error) =>
+        console.error("Error removing session audio:", error)
+      );
+      return;
+    }
+    if (audioFile === restoredAudioRef.current) return;
+    saveSessionAudio(sessionId, audioFile)
+      .then((stored) =>
+        setSessionNotice(
+          stored
+            ? ""
+            : `"${audioFile.name}" is too large to keep in browser storage. You'll need to upload it again after reloading.`
+        )
+      )
+      .catch((error) => console.error("Error saving session audio:", error));
+  }, [sessionId, audioFile]);
+
+  // The playhead is saved whenever playback settles somewhere
+  useEffect(() => {
+    if (!sessionId || isPlaying) return;
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    const scheduleSave = () => {
+      clearTimeout(timeout);
+      if (pendingSeekRef.current !== null) return;
+      timeout = setTimeout(() => {
+        saveSessionPosition(sessionId, clock.getTime()).catch((error) =>
+          console.error("Error saving playback position:", error)
+        );
+      }, SESSION_SAVE_DELAY);
+    };
+    scheduleSave();
+    const unsubscribe = clock.subscribe(scheduleSave);
+    return () => {
+      unsubscribe();
+      clearTimeout(timeout);
+    };
+  }, [clock, sessionId, isPlaying]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+    const handlePageHide = () => {
+      if (pendingSeekRef.current !== null || !audioRef.current) return;
+      saveSessionPosition(sessionId, audioRef.current.currentTime).catch(
+        (error) => console.error("Error saving playback position:", error)
+      );
+    };
+    window.addEventListener("pagehide", handlePageHide);
+    return () => window.removeEventListener("pagehide", handlePageHide);
+  }, [sessionId]);
+
+  const activeLoopBounds = loop.enabled ? loopBounds(loop, duration) : null;
+
+  const currentSentenceRange =
+    currentSentenceWords.length > 0
+      ? {
+          start: Math.min(...currentSentenceWords.map((t) => t.start)),
+          end: Math.max(...currentSentenceWords.map((t) => t.end)),
+        }
+      : undefined;
+
+  const speakers = useMemo(() => collectSpeakers(timings), [timings]);
+  const hasLanguages = timings.some((timing) => timing.language);
+  const visibleTimings = useMemo(
+    () =>
+      displayLanguage === "all"
+        ? timings
+        : timings.filter(
+            (timing) => (timing.language ?? "translated") === displayLanguage
+          ),
+    [timings, displayLanguage]
+  );
+  const lowSpeakerConfidenceCount = useMemo(
+    () => timings.filter(hasLowSpeakerConfidence).length,
+    [timings]
+  );
+  const focusedSpeakerLines = useMemo(
+    () =>
+      speakerFilter.speaker !== null && speakerFilter.mode === "play"
+        ? speakerLines(timings, speakerFilter.speaker)
+        : [],
+    [timings, speakerFilter]
+  );
+
+  useEffect(() => {
+    // Skip over other speakers' lines while playing only one speaker
+    const audio = audioRef.current;
+    if (!audio || !isPlaying || focusedSpeakerLines.length === 0) return;
+    const skipToLine = () => {
+      const time = clock.getTime();
+      const isInLine = focusedSpeakerLines.some(
+        (line) => time >= line.start - EPSILON && time <= line.end + EPSILON
+      );
+      if (isInLine) return;
+      const next = focusedSpeakerLines.find((line) => line.start > time);
+      if (next) {
+        audio.currentTime = next.start;
+      } else {
+        audio.pause();
+      }
+    };
+    skipToLine();
+    return clock.subscribe(skipToLine);
+  }, [clock, isPlaying, focusedSpeakerLines]);
+
+  const speakerTitle = (timing: WordTiming) => {
+    const key = speakerKey(timing);
+    if (key === undefined) return undefined;
+    const name = speakerNames[key] || defaultSpeakerName(key);
+    return timing.speakerConfidence !== undefined
+      ? `${name} (confidence ${timing.speakerConfidence.toFixed(2)})`
+      : name;
   };
 
   return (
@@ -931,7 +1704,24 @@ function App() {
             </div>
           )}
 
+          {validationIssues.length > 0 && (
+            <div className="mb-6">
+              <ValidationReport issues={validationIssues} />
+            </div>
+          )}
+
           <div className="space-y-8">
+            {/* Recent Sessions */}
+            <RecentSessions currentSessionId={sessionId} onOpen={openSession} />
+            {sessionNotice && (
+              <div className="w-full text-sm p-4 bg-orange-100 border-l-4 border-orange-500 text-orange-700 rounded">
+                <div className="flex items-center gap-2">
+                  <AlertCircle className="w-5 h-5" />
+                  <p>{sessionNotice}</p>
+                </div>
+              </div>
+            )}
+
             {/* Audio Upload */}
             <div className="border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg p-6 text-center">
               <input
@@ -963,7 +1753,8 @@ function App() {
                   <p>
                     <strong>Warning:</strong> MP3 files may have inaccurate
                     playback timing in browsers, affecting word highlighting
-                    precision. For best results, consider using WAV format.
+                    precision. For best results, consider using WAV format, or
+                    compensate the decoder delay under "Offset &amp; drift".
                   </p>
                 </div>
               </div>
@@ -973,7 +1764,7 @@ function App() {
             <div className="border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg p-6 text-center">
               <input
                 type="file"
-                accept="application/json"
+                accept="application/json,.json,.srt,.vtt,.ttml,.dfxp,.xml"
                 onChange={(e) => handleJsonFileUpload(e, handleJsonInput)}
                 className="hidden"
                 id="json-upload"
@@ -984,7 +1775,7 @@ function App() {
               >
                 <Upload className="w-12 h-12 text-gray-400 dark:text-gray-500 mb-2" />
                 <span className="text-sm text-gray-500 dark:text-gray-400">
-                  Upload transcript JSON file
+                  Upload transcript JSON or captions (SRT, WebVTT, TTML)
                 </span>
                 {timings.length > 0 && (
                   <span className="mt-2 text-sm text-green-600 dark:text-green-400">
@@ -1044,8 +1835,83 @@ function App() {
               )}
             </div>
 
+            {/* Transcript Loading */}
+            {loadProgress && (
+              <div className="flex items-center gap-3 text-sm text-gray-700 dark:text-gray-300">
+                <span className="w-36">
+                  {LOAD_STAGE_LABELS[loadProgress.stage]}
+                  {loadProgress.fraction !== undefined &&
+                    ` ${Math.round(loadProgress.fraction * 100)}%`}
+                </span>
+                <div className="flex-1 h-2 bg-gray-200 dark:bg-gray-700 rounded overflow-hidden">
+                  <div
+                    className={`h-full bg-indigo-500 transition-all ${
+                      loadProgress.fraction === undefined ? "animate-pulse" : ""
+                    }`}
+                    style={{
+                      width: `${(loadProgress.fraction ?? 1) * 100}%`,
+                    }}
+                  />
+                </div>
+                <button
+                  onClick={cancelTranscriptLoad}
+                  className="px-2 py-1 bg-gray-100 dark:bg-gray-700 hover:bg-indigo-100 dark:hover:bg-indigo-900/50 rounded transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            )}
+
+            {/* Transcript Format */}
+            {(formatDetection || loadedFormatLabel) && (
+              <div className="space-y-2 text-sm text-gray-700 dark:text-gray-300">
+                <div className="flex items-center gap-2">
+                  <label htmlFor="transcriptFormat">Format:</label>
+                  {formatDetection ? (
+                    <select
+                      id="transcriptFormat"
+                      value={transcriptFormat?.id ?? ""}
+                      onChange={(e) => handleFormatOverride(e.target.value)}
+                      className="p-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                    >
+                      {!transcriptFormat && (
+                        <option value="" disabled>
+                          Choose a format...
+                        </option>
+                      )}
+                      {TRANSCRIPT_FORMATS.map((format) => (
+                        <option key={format.id} value={format.id}>
+                          {format.label}
+                          {formatDetection.candidates.includes(format)
+                            ? " (matches)"
+                            : ""}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span>{loadedFormatLabel}</span>
+                  )}
+                  {formatDetection?.format && (
+                    <span className="text-gray-500 dark:text-gray-400">
+                      detected {formatDetection.format.label}
+                    </span>
+                  )}
+                </div>
+                {formatDetection?.isAmbiguous && (
+                  <div className="text-orange-600 dark:text-orange-400">
+                    Several formats match this JSON equally well. Check the
+                    words below and pick another format if they look wrong.
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Audio URL Input */}
             <div className="space-y-2">
+              <AudioResolverSettings
+                settings={resolverSettings}
+                onChange={handleResolverChange}
+              />
               <form onSubmit={handleAudioUrl} className="flex gap-2">
                 <input
                   type="text"
@@ -1102,13 +1968,93 @@ function App() {
               </label>
             </div>
 
+            {/* Display Language */}
+            {hasLanguages && (
+              <div className="flex items-center space-x-2">
+                <label
+                  htmlFor="displayLanguage"
+                  className="text-gray-700 dark:text-gray-300"
+                >
+                  Show words
+                </label>
+                <select
+                  id="displayLanguage"
+                  value={displayLanguage}
+                  onChange={(e) =>
+                    setDisplayLanguage(e.target.value as SearchLanguage)
+                  }
+                  className="p-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                >
+                  <option value="all">Both languages</option>
+                  <option value="original">Original</option>
+                  <option value="translated">Translated</option>
+                </select>
+              </div>
+            )}
+
+            {/* Edit Mode Checkbox */}
+            {timings.length > 0 && (
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="editMode"
+                  checked={isEditing}
+                  onChange={(e) => {
+                    setIsEditing(e.target.checked);
+                    if (!e.target.checked) setSelectedTimingIndex(null);
+                  }}
+                  className="w-4 h-4 text-indigo-600 bg-gray-100 border-gray-300 rounded focus:ring-indigo-500 dark:bg-gray-700 dark:border-gray-600"
+                />
+                <label
+                  htmlFor="editMode"
+                  className="text-gray-700 dark:text-gray-300"
+                >
+                  Edit word timings (click a word to select it)
+                </label>
+              </div>
+            )}
+
+            {/* Keyboard Shortcuts */}
+            <button
+              onClick={() => setShowShortcutHelp(true)}
+              className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors"
+            >
+              <Keyboard className="w-4 h-4" />
+              Keyboard shortcuts
+              {shortcutBindings.showHelp && (
+                <kbd className="px-1.5 py-0.5 font-mono text-xs rounded bg-gray-100 dark:bg-gray-700">
+                  {shortcutBindings.showHelp}
+                </kbd>
+              )}
+            </button>
+            {showShortcutHelp && (
+              <ShortcutHelp
+                bindings={shortcutBindings}
+                onChange={handleShortcutBindingsChange}
+                onClose={() => setShowShortcutHelp(false)}
+              />
+            )}
+
+            {/* Speakers */}
+            {speakers.length > 0 && (
+              <SpeakerLegend
+                speakers={speakers}
+                speakerNames={speakerNames}
+                onRename={(speaker, name) =>
+                  setSpeakerNames({ ...speakerNames, [speaker]: name })
+                }
+                filter={speakerFilter}
+                onFilterChange={setSpeakerFilter}
+                lowConfidenceCount={lowSpeakerConfidenceCount}
+              />
+            )}
+
             {/* Audio Player */}
             {(audioFile || audioUrl) && (
               <div className="flex flex-col items-center gap-4">
                 <audio ref={audioRef} src={audioUrlRef.current} />
                 <div className="flex gap-6 items-center">
                   <div className="flex gap-4">
-                    {/*
                     <div className="relative">
                       <button
                         onClick={() => jumpToSentence("back")}
@@ -1121,7 +2067,6 @@ function App() {
                         ←Sent
                       </span>
                     </div>
-                    */}
                     <div className="relative">
                       <button
                         onClick={() => jumpBack(10 * 60 * 1000)}
@@ -1160,9 +2105,9 @@ function App() {
                     </div>
                     <div className="relative">
                       <button
-                        onClick={() => jumpBack(100)}
+                        onClick={() => stepBy(-100)}
                         className="bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 text-white rounded-full p-2 transition-colors"
-                        title="Jump back 100 milliseconds"
+                        title={stepTitle(-100)}
                       >
                         <RotateCcw className="w-3 h-3" />
                       </button>
@@ -1173,9 +2118,9 @@ function App() {
                   </div>
                   <div className="relative">
                     <button
-                      onClick={() => jumpBack(10)}
+                      onClick={() => stepBy(-10)}
                       className="bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 text-white rounded-full p-3 transition-colors"
-                      title="Jump back 10 milliseconds"
+                      title={stepTitle(-10)}
                     >
                       <RotateCcw className="w-5 h-5" />
                     </button>
@@ -1195,9 +2140,9 @@ function App() {
                   </button>
                   <div className="relative">
                     <button
-                      onClick={() => jumpForward(10)}
+                      onClick={() => stepBy(10)}
                       className="bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 text-white rounded-full p-3 transition-colors"
-                      title="Skip ahead 10 milliseconds"
+                      title={stepTitle(10)}
                     >
                       <RotateCcw className="w-5 h-5 scale-x-[-1]" />
                     </button>
@@ -1208,9 +2153,9 @@ function App() {
                   <div className="flex gap-4">
                     <div className="relative">
                       <button
-                        onClick={() => jumpForward(100)}
+                        onClick={() => stepBy(100)}
                         className="bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 text-white rounded-full p-2 transition-colors"
-                        title="Skip ahead 100 milliseconds"
+                        title={stepTitle(100)}
                       >
                         <RotateCcw className="w-3 h-3 scale-x-[-1]" />
                       </button>
@@ -1254,7 +2199,6 @@ function App() {
                         10m
                       </span>
                     </div>
-                    {/*
                     <div className="relative">
                       <button
                         onClick={() => jumpToSentence("forward")}
@@ -1267,7 +2211,6 @@ function App() {
                         Sent→
                       </span>
                     </div>
-                    */}
                   </div>
                 </div>
                 <div
@@ -1282,30 +2225,75 @@ function App() {
                   onMouseMove={handleMouseMove}
                   onMouseUp={handleMouseUp}
                 >
-                  {formatTime(currentTime)} {/* / {formatTime(duration)} */}
-                  <br />
-                  {currentTime.toFixed(4)}
+                  <PlaybackTime clock={clock} />
+                  {activeLoopBounds && (
+                    <>
+                      <br />
+                      <span className="text-indigo-600 dark:text-indigo-400">
+                        Loop {formatTime(activeLoopBounds.start)} –{" "}
+                        {formatTime(activeLoopBounds.end)}
+                      </span>
+                    </>
+                  )}
+                </div>
+                <button
+                  onClick={handleCopyLink}
+                  disabled={!jsonUrl && !audioUrl}
+                  className="text-sm text-indigo-600 hover:text-indigo-700 dark:text-indigo-400 dark:hover:text-indigo-300 flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                  title={
+                    jsonUrl || audioUrl
+                      ? "Copy a link that opens this transcript and audio here"
+                      : "Only transcripts and audio loaded from a URL can be linked"
+                  }
+                >
+                  <Link2 className="w-4 h-4" />
+                  {linkCopied ? "Link copied" : "Copy link at current time"}
+                </button>
+                <LoopControls
+                  audioRef={audioRef}
+                  loop={loop}
+                  onLoopChange={handleLoopChange}
+                  clock={clock}
+                  duration={duration}
+                  currentWord={focusedWord}
+                  currentSubphrase={currentSubphraseTimings[0]}
+                  currentSentence={currentSentenceRange}
+                />
+                <div className="w-full">
+                  <Timeline
+                    audio={decodedAudio}
+                    audioError={audioDecodeError}
+                    duration={duration}
+                    clock={clock}
+                    isPlaying={isPlaying}
+                    timings={timings}
+                    subphraseTimings={subphraseTimings}
+                    onSeek={seekTo}
+                    onWordClick={handleWordClick}
+                  />
                 </div>
                 <div className="flex flex-wrap-reverse gap-2 justify-center max-w-2xl">
                   {[...currentSentenceWords].reverse().map((timing, index) => (
                     <button
                       key={`${timing.start}-${index}`}
                       onClick={() => handleWordClick(timing)}
-                      style={{ direction: "rtl" }}
+                      title={speakerTitle(timing)}
+                      style={{
+                        direction: "rtl",
+                        ...speakerStyle(timing, speakers, speakerFilter),
+                      }}
                       className={`px-2 py-1 text-xl rounded transition-colors
                         ${
-                          (currentTime >= timing.start &&
-                            currentTime <= timing.end) ||
-                          (currentSubphraseTimings.length > 0 &&
-                            currentTime >=
-                              currentSubphraseTimings[0].start - EPSILON &&
-                            currentTime <=
-                              currentSubphraseTimings[0].end + EPSILON &&
+                          isEditing && timing === selectedTiming
+                            ? "ring-2 ring-yellow-400"
+                            : ""
+                        }
+                        ${
+                          activeWords.includes(timing) ||
+                          (activeSubphrase &&
                             timing.start >=
-                              currentSubphraseTimings[0].startOriginal -
-                                EPSILON &&
-                            timing.end <=
-                              currentSubphraseTimings[0].endOriginal + EPSILON)
+                              activeSubphrase.startOriginal - EPSILON &&
+                            timing.end <= activeSubphrase.endOriginal + EPSILON)
                             ? "bg-indigo-600 dark:bg-indigo-500 text-white"
                             : "bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-gray-100 hover:bg-indigo-100 dark:hover:bg-indigo-900/50"
                         }`}
@@ -1317,6 +2305,140 @@ function App() {
               </div>
             )}
 
+            {/* Original Audio */}
+            {(audioFile || audioUrl) && (
+              <OriginalAudioPanel
+                dubAudioRef={audioRef}
+                transcriptAudio={originalAudio}
+                subphraseTimings={subphraseTimings}
+                clock={clock}
+                onSeek={seekTo}
+              />
+            )}
+
+            {/* Timing Correction */}
+            {timings.length > 0 && (
+              <TimingCorrectionPanel
+                correction={timingCorrection}
+                onCorrectionChange={setTimingCorrection}
+                currentWord={
+                  focusedWord && isCorrectedTiming(focusedWord)
+                    ? rawTimings[timings.indexOf(focusedWord)]
+                    : undefined
+                }
+                clock={clock}
+                canExport={!!sourceDocument}
+                onApply={applyTimingCorrection}
+                onExport={handleExportJson}
+              />
+            )}
+
+            {/* Timing Editor */}
+            {isEditing && (
+              <div className="bg-gray-50 dark:bg-gray-700/50 rounded-lg p-6 space-y-4">
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={undoTimingEdit}
+                    disabled={timingsPast.length === 0}
+                    className="p-2 bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-gray-100 hover:bg-indigo-100 dark:hover:bg-indigo-900/50 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Undo"
+                  >
+                    <Undo2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={redoTimingEdit}
+                    disabled={timingsFuture.length === 0}
+                    className="p-2 bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-gray-100 hover:bg-indigo-100 dark:hover:bg-indigo-900/50 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Redo"
+                  >
+                    <Redo2 className="w-4 h-4" />
+                  </button>
+                  <span className="text-sm text-gray-500 dark:text-gray-400">
+                    {timingsPast.length} edit
+                    {timingsPast.length === 1 ? "" : "s"}
+                  </span>
+                  <button
+                    onClick={handleExportJson}
+                    disabled={!sourceDocument}
+                    className="ml-auto px-4 py-2 bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 text-white rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <FileDown className="w-4 h-4" />
+                    Export JSON
+                  </button>
+                </div>
+                {selectedTiming && selectedTimingIndex !== null ? (
+                  <WordTimingEditor
+                    timing={selectedTiming}
+                    {...findNeighbours(timings, selectedTimingIndex)}
+                    clock={clock}
+                    nudgeEdge={nudgeEdge}
+                    onNudgeEdgeChange={setNudgeEdge}
+                    onChange={(start, end) =>
+                      commitTimingEdit(selectedTimingIndex, start, end)
+                    }
+                    onSeek={seekTo}
+                  />
+                ) : (
+                  <div className="text-sm text-gray-500 dark:text-gray-400">
+                    Select a word to edit its timing.
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Dubbing Statistics */}
+            {(alignments.length > 0 || reportedStatistics) && (
+              <StatisticsPanel
+                alignments={alignments}
+                reportedStatistics={reportedStatistics}
+                timings={timings}
+                onSeek={seekTo}
+              />
+            )}
+
+            {/* Alignment */}
+            {alignments.length > 0 && (
+              <AlignmentView
+                alignments={alignments}
+                onPlaySpan={playSpan}
+                onEdit={isPhraseDocument ? handleAlignmentEdit : undefined}
+                onExport={
+                  isPhraseDocument ? handleExportSentenceTimings : undefined
+                }
+              />
+            )}
+
+            {/* Silence Check */}
+            {timings.length > 0 && (
+              <SilenceCheckPanel
+                audio={decodedAudio}
+                timings={timings}
+                subphraseTimings={subphraseTimings}
+                onSeek={seekTo}
+                onApply={commitTimingEdits}
+              />
+            )}
+
+            {/* Timing Checks */}
+            {timings.length > 0 && (
+              <TimingCheckPanel
+                timings={timings}
+                subphraseTimings={subphraseTimings}
+                duration={duration}
+                baseFilename={exportBaseName}
+                onSeek={seekTo}
+              />
+            )}
+
+            {/* Subtitle Export */}
+            {timings.length > 0 && (
+              <SubtitleExportMenu
+                timings={timings}
+                subphraseTimings={subphraseTimings}
+                baseFilename={exportBaseName}
+              />
+            )}
+
             {/* Words Display */}
             <div className="min-h-[140px] bg-gray-50 dark:bg-gray-700/50 rounded-lg p-6 flex items-center justify-center">
               <p className="text-2xl text-gray-900 dark:text-gray-100 text-center transition-all duration-300">
@@ -1324,7 +2446,13 @@ function App() {
                   ? currentWordTimings.map((timing, index) => (
                       <React.Fragment key={index}>
                         {index > 0 && " "}
-                        <span style={getProbabilityStyle(timing.probability)}>
+                        <span
+                          title={speakerTitle(timing)}
+                          style={{
+                            ...getProbabilityStyle(timing.probability),
+                            ...speakerStyle(timing, speakers, speakerFilter),
+                          }}
+                        >
                           {timing.punctuated_word || timing.word}
                         </span>
                       </React.Fragment>
@@ -1342,6 +2470,26 @@ function App() {
               </p>
             </div>
 
+            {/* Search */}
+            {timings.length > 0 && (
+              <TranscriptSearch timings={timings} onSeek={seekTo} />
+            )}
+
+            {/* Full Transcript */}
+            {timings.length > 0 && (
+              <TranscriptView
+                timings={visibleTimings}
+                clock={clock}
+                activeWords={activeWords}
+                activeSubphrase={activeSubphrase}
+                selectedTiming={isEditing ? selectedTiming : undefined}
+                onWordClick={handleWordClick}
+                getWordStyle={(timing) =>
+                  speakerStyle(timing, speakers, speakerFilter)
+                }
+              />
+            )}
+
             {/* Current Word JSON Display */}
             <div
               className="bg-gray-900 dark:bg-black rounded-lg p-4 overflow-auto transition-all duration-300"
@@ -0,0 +1,285 @@
+import type {
+  PhraseIndexedSubphrase,
+  SentenceAlignment,
+  SentenceTiming,
+  SubphraseIndexedPhraseTiming,
+} from "./types";
+import { isRecord, unwrapLegacyRoot, wordTexts } from "./formats/shared";
+
+export type AlignmentEditKind = "create" | "split" | "merge" | "delete";
+
+// Picked in the alignment view, numbered like SentenceAlignment
+export type AlignmentSelection = {
+  originalWords: number[];
+  translatedWords: number[];
+  subphrases: number[];
+};
+
+// An edit narrowed down to one phrase, with positions inside that phrase
+export type PhraseEdit = {
+  kind: AlignmentEditKind;
+  // Position among the sentence's phrases
+  phrase: number;
+  originalWords: number[];
+  translatedWords: number[];
+  subphrases: number[];
+};
+
+export const ALIGNMENT_EDIT_LABELS: Record<AlignmentEditKind, string> = {
+  create: "New subphrase",
+  split: "Split off",
+  merge: "Merge",
+  delete: "Delete",
+};
+
+// Last phrase starting at or before `position`
+function phraseAt(starts: number[], position: number) {
+  let phrase = 0;
+  while (phrase + 1 < starts.length && starts[phrase + 1] <= position) {
+    phrase++;
+  }
+  return phrase;
+}
+
+/**
+ * Works out which phrase and subphrases an edit applies to. Returns why it
+ * can't be made instead when the selection doesn't fit the edit.
+ */
+export function resolveAlignmentEdit(
+  alignment: SentenceAlignment,
+  kind: AlignmentEditKind,
+  selection: AlignmentSelection
+): PhraseEdit | string {
+  const { phrases, subphrases } = alignment;
+  if (!phrases || phrases.length === 0) {
+    return "Only sentence timings with phrases can be edited";
+  }
+  const wordCount =
+    selection.originalWords.length + selection.translatedWords.length;
+
+  const containing = subphrases.flatMap((subphrase, index) =>
+    selection.originalWords.some((i) =>
+      subphrase.originalWordIndices.includes(i)
+    ) ||
+    selection.translatedWords.some((i) =>
+      subphrase.translatedWordIndices.includes(i)
+    )
+      ? [index]
+      : []
+  );
+  let targets: number[] = [];
+  if (kind === "create") {
+    if (wordCount === 0) return "Select the words for the new subphrase";
+  } else if (kind === "split") {
+    // The one subphrase holding every selected word
+    const holder = containing.find(
+      (index) =>
+        selection.originalWords.every((i) =>
+          subphrases[index].originalWordIndices.includes(i)
+        ) &&
+        selection.translatedWords.every((i) =>
+          subphrases[index].translatedWordIndices.includes(i)
+        )
+    );
+    if (wordCount === 0 || holder === undefined) {
+      return "Select words of one subphrase to split off";
+    }
+    const { originalWordIndices, translatedWordIndices } = subphrases[holder];
+    if (
+      wordCount ===
+      originalWordIndices.length + translatedWordIndices.length
+    ) {
+      return "Leave some words in the subphrase";
+    }
+    targets = [holder];
+  } else {
+    targets = [...new Set([...selection.subphrases, ...containing])].sort(
+      (a, b) => a - b
+    );
+    if (kind === "merge" && targets.length < 2) {
+      return "Select words or links of at least two subphrases";
+    }
+    if (kind === "delete" && targets.length === 0) {
+      return "Select words or links of the subphrases to delete";
+    }
+  }
+
+  const originalStarts = phrases.map((p) => p.originalWords);
+  const translatedStarts = phrases.map((p) => p.translatedWords);
+  const subphraseStarts = phrases.map((p) => p.subphrases);
+  const touched = new Set([
+    ...selection.originalWords.map((i) => phraseAt(originalStarts, i)),
+    ...selection.translatedWords.map((i) => phraseAt(translatedStarts, i)),
+    ...targets.map((i) => phraseAt(subphraseStarts, i)),
+  ]);
+  if (touched.size > 1) return "Select within a single phrase";
+  const [phrase = 0] = touched;
+
+  const offsets = phrases[phrase];
+  return {
+    kind,
+    phrase,
+    originalWords: selection.originalWords
+      .map((i) => i - offsets.originalWords)
+      .sort((a, b) => a - b),
+    translatedWords: selection.translatedWords
+      .map((i) => i - offsets.translatedWords)
+      .sort((a, b) => a - b),
+    subphrases: targets.map((i) => i - offsets.subphrases),
+  };
+}
+
+// Sorted, de-duplicated word positions, keeping any -1 markers at the end
+function normalizeIndices(indices: number[]) {
+  const aligned = [...new Set(indices.filter((i) => i >= 0))];
+  return [...aligned.sort((a, b) => a - b), ...indices.filter((i) => i === -1)];
+}
+
+function buildSubphrase(
+  phrase: SubphraseIndexedPhraseTiming,
+  originalWordIndices: number[],
+  translatedWordIndices: number[]
+): PhraseIndexedSubphrase {
+  const text = (words: string[], indices: number[]) =>
+    indices
+      .filter((i) => i >= 0 && i < words.length)
+      .map((i) => words[i])
+      .join(" ");
+  const original = normalizeIndices(originalWordIndices);
+  const translated = normalizeIndices(translatedWordIndices);
+  return {
+    original: text(wordTexts(phrase.original), original),
+    translated: text(wordTexts(phrase.translated), translated),
+    originalWordIndices: original,
+    translatedWordIndices: translated,
+  };
+}
+
+// Takes the edit's words out of a subphrase; null when nothing is left
+function withoutWords(
+  phrase: SubphraseIndexedPhraseTiming,
+  subphrase: PhraseIndexedSubphrase,
+  edit: PhraseEdit
+): PhraseIndexedSubphrase | null {
+  const original = subphrase.originalWordIndices.filter(
+    (i) => !edit.originalWords.includes(i)
+  );
+  const translated = subphrase.translatedWordIndices.filter(
+    (i) => !edit.translatedWords.includes(i)
+  );
+  if (
+    original.length === subphrase.originalWordIndices.length &&
+    translated.length === subphrase.translatedWordIndices.length
+  ) {
+    return subphrase;
+  }
+  return original.some((i) => i >= 0) || translated.some((i) => i >= 0)
+    ? { ...subphrase, ...buildSubphrase(phrase, original, translated) }
+    : null;
+}
+
+// Where a subphrase sorts, by its first translated word, else original
+function firstWord(subphrase: PhraseIndexedSubphrase) {
+  const aligned = subphrase.translatedWordIndices.filter((i) => i >= 0);
+  return aligned.length > 0
+    ? Math.min(...aligned)
+    : Math.min(...subphrase.originalWordIndices.filter((i) => i >= 0));
+}
+
+/**
+ * Returns the phrase with the edit made to its subphrases. Subphrases whose
+ * words change get their text rebuilt from the words; the rest are kept as
+ * they are, including any extra fields.
+ */
+export function applyPhraseEdit(
+  phrase: SubphraseIndexedPhraseTiming,
+  edit: PhraseEdit
+): SubphraseIndexedPhraseTiming {
+  const subphrases: PhraseIndexedSubphrase[] = phrase.subphrases;
+  let next: PhraseIndexedSubphrase[];
+  switch (edit.kind) {
+    case "create": {
+      // A word belongs to one subphrase, so the new one takes it over
+      const created = buildSubphrase(
+        phrase,
+        edit.originalWords,
+        edit.translatedWords
+      );
+      next = subphrases.flatMap((s) => withoutWords(phrase, s, edit) ?? []);
+      const position = next.findIndex(
+        (subphrase) => firstWord(subphrase) > firstWord(created)
+      );
+      next.splice(position === -1 ? next.length : position, 0, created);
+      break;
+    }
+    case "split": {
+      const [target] = edit.subphrases;
+      const rest = withoutWords(phrase, subphrases[target], edit);
+      const part = buildSubphrase(
+        phrase,
+        edit.originalWords,
+        edit.translatedWords
+      );
+      next = [
+        ...subphrases.slice(0, target),
+        ...(rest ? [rest] : []),
+        part,
+        ...subphrases.slice(target + 1),
+      ];
+      break;
+    }
+    case "merge": {
+      const [first, ...others] = edit.subphrases;
+      const merged = edit.subphrases.map((i) => subphrases[i]);
+      const joined = {
+        ...subphrases[first],
+        ...buildSubphrase(
+          phrase,
+          merged.flatMap((s) => s.originalWordIndices),
+          merged.flatMap((s) => s.translatedWordIndices)
+        ),
+      };
+      next = subphrases.flatMap((subphrase, index) =>
+        index === first ? [joined] : others.includes(index) ? [] : [subphrase]
+      );
+      break;
+    }
+    case "delete":
+      next = subphrases.filter((_, index) => !edit.subphrases.includes(index));
+      break;
+  }
+  return { ...phrase, subphrases: next };
+}
+
+/**
+ * Makes the edit in a copy of a loaded `SentenceTiming[]` document, which
+ * may sit under one of the legacy wrapper keys.
+ */
+export function editSentenceTimings<T>(
+  data: T,
+  sentenceIndex: number,
+  edit: PhraseEdit
+): T {
+  const result = structuredClone(data);
+  const { value } = unwrapLegacyRoot(result);
+  const sentence = Array.isArray(value) ? value[sentenceIndex] : undefined;
+  // Numbered like the alignment, which skips phrases that aren't objects
+  const phrases =
+    isRecord(sentence) && Array.isArray(sentence.phrases)
+      ? sentence.phrases.filter(isRecord)
+      : [];
+  const phrase = phrases[edit.phrase];
+  if (!phrase || !Array.isArray(phrase.subphrases)) {
+    throw new Error(`Sentence ${sentenceIndex + 1} has no such phrase`);
+  }
+  phrase.subphrases = applyPhraseEdit(
+    phrase as SubphraseIndexedPhraseTiming,
+    edit
+  ).subphrases;
+  return result;
+}
+
+// The bare `SentenceTiming[]` array, without any legacy wrapper
+export function toSentenceTimings(data: unknown): SentenceTiming[] {
+  return unwrapLegacyRoot(data).value as SentenceTiming[];
+}
@@ -0,0 +1,88 @@
+import type { SentenceAlignment, SubphraseAlignment } from "./types";
+
+export type AlignmentAnalysis = {
+  // Subphrases whose order differs between the two languages
+  crossing: Set<number>;
+  // Subphrases left out of the subphrase timings for a missing word time
+  untimed: Set<number>;
+  // Words no subphrase covers
+  unalignedOriginal: Set<number>;
+  unalignedTranslated: Set<number>;
+  // Subphrases that listed -1 entries
+  withUnalignedEntries: Set<number>;
+  hasProblems: boolean;
+};
+
+export function isUntimed(subphrase: SubphraseAlignment) {
+  return (
+    subphrase.start === undefined ||
+    subphrase.end === undefined ||
+    subphrase.startOriginal === undefined ||
+    subphrase.endOriginal === undefined
+  );
+}
+
+function uncovered(wordCount: number, covered: number[][]) {
+  const words = new Set<number>();
+  for (let i = 0; i < wordCount; i++) words.add(i);
+  for (const indices of covered) {
+    for (const index of indices) words.delete(index);
+  }
+  return words;
+}
+
+export function analyzeAlignment(
+  alignment: SentenceAlignment
+): AlignmentAnalysis {
+  const { subphrases } = alignment;
+  const crossing = new Set<number>();
+  const untimed = new Set<number>();
+  const withUnalignedEntries = new Set<number>();
+
+  // Two subphrases cross when their first words come in opposite orders
+  const firsts = subphrases.map((subphrase) => ({
+    original: Math.min(...subphrase.originalWordIndices),
+    translated: Math.min(...subphrase.translatedWordIndices),
+  }));
+  for (let a = 0; a < subphrases.length; a++) {
+    if (isUntimed(subphrases[a])) untimed.add(a);
+    if (
+      subphrases[a].unalignedOriginal > 0 ||
+      subphrases[a].unalignedTranslated > 0
+    ) {
+      withUnalignedEntries.add(a);
+    }
+    for (let b = a + 1; b < subphrases.length; b++) {
+      const originalOrder = firsts[b].original - firsts[a].original;
+      const translatedOrder = firsts[b].translated - firsts[a].translated;
+      // Infinity - Infinity is NaN for subphrases with no words on a side
+      if (originalOrder * translatedOrder < 0) {
+        crossing.add(a);
+        crossing.add(b);
+      }
+    }
+  }
+
+  const unalignedOriginal = uncovered(
+    alignment.originalWords.length,
+    subphrases.map((subphrase) => subphrase.originalWordIndices)
+  );
+  const unalignedTranslated = uncovered(
+    alignment.translatedWords.length,
+    subphrases.map((subphrase) => subphrase.translatedWordIndices)
+  );
+
+  return {
+    crossing,
+    untimed,
+    unalignedOriginal,
+    unalignedTranslated,
+    withUnalignedEntries,
+    hasProblems:
+      crossing.size > 0 ||
+      untimed.size > 0 ||
+      unalignedOriginal.size > 0 ||
+      unalignedTranslated.size > 0 ||
+      withUnalignedEntries.size > 0,
+  };
+}
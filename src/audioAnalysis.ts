@@ -0,0 +1,160 @@
+// Analysis runs on a mono mix at this rate, which is plenty for speech
+// and keeps hour-long files at a manageable size in memory
+export const ANALYSIS_SAMPLE_RATE = 16000;
+
+// Samples folded into each precomputed min/max peak
+export const PEAK_BUCKET_SIZE = 256;
+
+export type DecodedAudio = {
+  samples: Float32Array;
+  sampleRate: number;
+  duration: number;
+  // Interleaved [min, max] pairs, one pair per PEAK_BUCKET_SIZE samples
+  peaks: Float32Array;
+};
+
+export async function decodeAudio(
+  source: File | Blob | string
+): Promise<DecodedAudio> {
+  const arrayBuffer =
+    typeof source === "string"
+      ? await fetch(source).then((response) => {
+          if (!response.ok) throw new Error("URL is not accessible");
+          return response.arrayBuffer();
+        })
+      : await source.arrayBuffer();
+
+  // decodeAudioData resamples to the context rate but keeps the file's
+  // channels, so they are averaged into one here
+  const context = new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE);
+  const audioBuffer = await context.decodeAudioData(arrayBuffer);
+  const samples = new Float32Array(audioBuffer.length);
+  for (let c = 0; c < audioBuffer.numberOfChannels; c++) {
+    const channel = audioBuffer.getChannelData(c);
+    for (let i = 0; i < channel.length; i++) {
+      samples[i] += channel[i] / audioBuffer.numberOfChannels;
+    }
+  }
+
+  return {
+    samples,
+    sampleRate: audioBuffer.sampleRate,
+    duration: audioBuffer.duration,
+    peaks: buildPeaks(samples, PEAK_BUCKET_SIZE),
+  };
+}
+
+function buildPeaks(samples: Float32Array, bucketSize: number): Float32Array {
+  const numBuckets = Math.ceil(samples.length / bucketSize);
+  const peaks = new Float32Array(numBuckets * 2);
+  for (let b = 0; b < numBuckets; b++) {
+    let min = 0;
+    let max = 0;
+    const end = Math.min(samples.length, (b + 1) * bucketSize);
+    for (let i = b * bucketSize; i < end; i++) {
+      if (samples[i] < min) min = samples[i];
+      if (samples[i] > max) max = samples[i];
+    }
+    peaks[b * 2] = min;
+    peaks[b * 2 + 1] = max;
+  }
+  return peaks;
+}
+
+/**
+ * Returns the [min, max] sample value between two times, using the
+ * precomputed peaks when the span covers whole buckets.
+ */
+export function getPeak(
+  audio: DecodedAudio,
+  startTime: number,
+  endTime: number
+): [number, number] {
+  const startSample = Math.max(0, Math.floor(startTime * audio.sampleRate));
+  const endSample = Math.min(
+    audio.samples.length,
+    Math.ceil(endTime * audio.sampleRate)
+  );
+  let min = 0;
+  let max = 0;
+  if (endSample - startSample > PEAK_BUCKET_SIZE * 2) {
+    const startBucket = Math.floor(startSample / PEAK_BUCKET_SIZE);
+    const endBucket = Math.ceil(endSample / PEAK_BUCKET_SIZE);
+    for (let b = startBucket; b < endBucket; b++) {
+      if (audio.peaks[b * 2] < min) min = audio.peaks[b * 2];
+      if (audio.peaks[b * 2 + 1] > max) max = audio.peaks[b * 2 + 1];
+    }
+  } else {
+    for (let i = startSample; i < endSample; i++) {
+      if (audio.samples[i] < min) min = audio.samples[i];
+      if (audio.samples[i] > max) max = audio.samples[i];
+    }
+  }
+  return [min, max];
+}
+
+// In-place iterative radix-2 FFT; `real.length` must be a power of two
+function fft(real: Float32Array, imag: Float32Array) {
+  const n = real.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const wReal = Math.cos(angle);
+    const wImag = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let curReal = 1;
+      let curImag = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tReal = real[b] * curReal - imag[b] * curImag;
+        const tImag = real[b] * curImag + imag[b] * curReal;
+        real[b] = real[a] - tReal;
+        imag[b] = imag[a] - tImag;
+        real[a] += tReal;
+        imag[a] += tImag;
+        const nextReal = curReal * wReal - curImag * wImag;
+        curImag = curReal * wImag + curImag * wReal;
+        curReal = nextReal;
+      }
+    }
+  }
+}
+
+/**
+ * Magnitude spectrum in decibels of a Hann-windowed frame centred on `time`.
+ * Returns `fftSize / 2` bins from 0 Hz up to the Nyquist frequency.
+ */
+export function getSpectrum(
+  audio: DecodedAudio,
+  time: number,
+  fftSize = 512
+): Float32Array {
+  const real = new Float32Array(fftSize);
+  const imag = new Float32Array(fftSize);
+  const center = Math.floor(time * audio.sampleRate);
+  for (let i = 0; i < fftSize; i++) {
+    const sampleIndex = center - fftSize / 2 + i;
+    const sample =
+      sampleIndex >= 0 && sampleIndex < audio.samples.length
+        ? audio.samples[sampleIndex]
+        : 0;
+    const hann = 0.5 * (1 - Math.cos((2 * Math.PI * i) / (fftSize - 1)));
+    real[i] = sample * hann;
+  }
+  fft(real, imag);
+  const magnitudes = new Float32Array(fftSize / 2);
+  for (let i = 0; i < fftSize / 2; i++) {
+    const magnitude = Math.hypot(real[i], imag[i]) / fftSize;
+    magnitudes[i] = 20 * Math.log10(magnitude + 1e-10);
+  }
+  return magnitudes;
+}
@@ -0,0 +1,63 @@
+// URLs to try in order for one track, with the headers to send
+export type AudioSources = {
+  urls: string[];
+  headers: Record<string, string>;
+};
+
+// Where audio was found and, when it had to be downloaded first, its data
+export type PlayableAudio = {
+  index: number;
+  blob?: Blob;
+};
+
+// Checks that `url` answers with audio without downloading it
+export async function checkAudioUrl(url: string) {
+  const response = await fetch(url, { method: "HEAD" });
+  if (!response.ok) {
+    throw new Error("URL is not accessible");
+  }
+  const contentType = response.headers.get("content-type");
+  if (!contentType?.startsWith("audio/")) {
+    throw new Error("URL does not point to an audio file");
+  }
+}
+
+// Downloads the whole file, for servers that want headers the player can't
+// send
+export async function downloadAudio(
+  url: string,
+  headers: Record<string, string>
+): Promise<Blob> {
+  const response = await fetch(url, { headers });
+  if (!response.ok) {
+    throw new Error("URL is not accessible");
+  }
+  const blob = await response.blob();
+  if (!blob.type.startsWith("audio/")) {
+    throw new Error("URL does not point to an audio file");
+  }
+  return blob;
+}
+
+/**
+ * Picks the first of `urls` that serves audio. With headers each is
+ * downloaded in turn; without, all but the last are checked and the last
+ * is left to the player. Throws the last failure when none does.
+ */
+export async function findPlayableAudio(
+  urls: string[],
+  headers: Record<string, string>
+): Promise<PlayableAudio> {
+  const download = Object.keys(headers).length > 0;
+  let failure: unknown = new Error("No audio to load");
+  for (const [index, url] of urls.entries()) {
+    try {
+      if (download) return { index, blob: await downloadAudio(url, headers) };
+      if (index < urls.length - 1) await checkAudioUrl(url);
+      return { index };
+    } catch (error) {
+      failure = error;
+    }
+  }
+  throw failure;
+}
@@ -0,0 +1,76 @@
+// Where a transcript says its audio is stored
+export type AudioLocation = {
+  key: string;
+  bucket?: string;
+};
+
+// Dotted JSON paths of audio locations in a dubbing job's JSON
+export const DEFAULT_AUDIO_PATHS = ["dubAudioFileLocation"];
+export const DEFAULT_ORIGINAL_AUDIO_PATHS = ["originalAudioFileLocation"];
+
+function valueAt(data: unknown, path: string): unknown {
+  return path
+    .split(".")
+    .filter(Boolean)
+    .reduce<unknown>(
+      (value, part) =>
+        value !== null && typeof value === "object"
+          ? (value as Record<string, unknown>)[part]
+          : undefined,
+      data
+    );
+}
+
+// An audio location given either as a `{ key, bucket? }` object or as the
+// bare key
+function readLocation(value: unknown): AudioLocation | null {
+  if (typeof value === "string" && value) return { key: value };
+  if (value === null || typeof value !== "object") return null;
+  const { key, bucket } = value as Record<string, unknown>;
+  if (typeof key !== "string" || !key) return null;
+  return typeof bucket === "string" && bucket ? { key, bucket } : { key };
+}
+
+/**
+ * Every audio location held by one of `paths`, in the order of the paths
+ * and without repeats, so later ones can stand in when earlier ones fail.
+ */
+export function findAudioLocations(
+  data: unknown,
+  paths: string[] = DEFAULT_AUDIO_PATHS
+): AudioLocation[] {
+  const locations: AudioLocation[] = [];
+  for (const path of paths) {
+    const location = readLocation(valueAt(data, path));
+    if (
+      location &&
+      !locations.some(
+        (found) =>
+          found.key === location.key && found.bucket === location.bucket
+      )
+    ) {
+      locations.push(location);
+    }
+  }
+  return locations;
+}
+
+// The first of `paths` that holds an audio location
+export function findAudioLocation(
+  data: unknown,
+  paths: string[] = DEFAULT_AUDIO_PATHS
+): AudioLocation | null {
+  return findAudioLocations(data, paths)[0] ?? null;
+}
+
+// Storage key of the dubbed audio, as recorded in a dubbing job's JSON
+export function extractAudioKey(
+  jsonInput: string,
+  paths: string[] = DEFAULT_AUDIO_PATHS
+): string {
+  try {
+    return findAudioLocation(JSON.parse(jsonInput), paths)?.key ?? "";
+  } catch {
+    return "";
+  }
+}
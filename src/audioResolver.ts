@@ -0,0 +1,111 @@
+import {
+  DEFAULT_AUDIO_PATHS,
+  DEFAULT_ORIGINAL_AUDIO_PATHS,
+  type AudioLocation,
+} from "./audioKey";
+
+// "path": base/bucket/key as MinIO serves it; "virtual-host": the bucket
+// goes in front of the base URL's host as on S3
+export type AudioAddressing = "path" | "virtual-host";
+
+// How storage keys found in transcripts become audio URLs
+export type AudioResolverProfile = {
+  id: string;
+  name: string;
+  // May hold {bucket} and {key} placeholders; the key is appended when
+  // there is no {key}
+  baseUrl: string;
+  // Used when the transcript names no bucket; empty for a static server
+  bucket: string;
+  // Whether a bucket named in the transcript wins over `bucket`
+  useDocumentBucket: boolean;
+  addressing: AudioAddressing;
+  // Sent with every request; audio is then fetched whole before playback
+  headers: Record<string, string>;
+  // Dotted JSON paths of dub audio locations, tried in order until one
+  // loads
+  audioPaths: string[];
+  // The same for the original audio, played alongside the dub
+  originalAudioPaths: string[];
+};
+
+export const DEFAULT_PROFILE: AudioResolverProfile = {
+  id: "local-minio",
+  name: "Local MinIO",
+  baseUrl: "http://localhost:9000",
+  bucket: "jobdata",
+  useDocumentBucket: false,
+  addressing: "path",
+  headers: {},
+  audioPaths: DEFAULT_AUDIO_PATHS,
+  originalAudioPaths: DEFAULT_ORIGINAL_AUDIO_PATHS,
+};
+
+export function createProfileId() {
+  return `profile-${Date.now().toString(36)}`;
+}
+
+// Keeps slashes between key segments but escapes everything else
+function encodeKey(key: string) {
+  return key.split("/").map(encodeURIComponent).join("/");
+}
+
+/**
+ * Builds the URL of an audio location. Throws when the base URL can't be
+ * read, e.g. a virtual-host profile without a scheme.
+ */
+export function resolveAudioUrl(
+  profile: AudioResolverProfile,
+  location: AudioLocation
+): string {
+  const bucket =
+    (profile.useDocumentBucket && location.bucket) || profile.bucket;
+  const key = encodeKey(location.key.replace(/^\/+/, ""));
+  const template = profile.baseUrl.trim();
+  const filled = template
+    .replace(/\{bucket\}/g, encodeURIComponent(bucket))
+    .replace(/\{key\}/g, key);
+  if (template.includes("{key}")) return filled;
+
+  const base = filled.replace(/\/+$/, "");
+  if (template.includes("{bucket}") || !bucket) return `${base}/${key}`;
+  if (profile.addressing === "path") {
+    return `${base}/${encodeURIComponent(bucket)}/${key}`;
+  }
+  const url = new URL(base);
+  url.hostname = `${bucket}.${url.hostname}`;
+  return `${url.origin}${url.pathname.replace(/\/+$/, "")}/${key}`;
+}
+
+// Reads "Name: value" lines, skipping blank and malformed ones
+export function parseHeaders(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of text.split("\n")) {
+    const colon = line.indexOf(":");
+    const name = line.slice(0, colon).trim();
+    if (colon > 0 && name) headers[name] = line.slice(colon + 1).trim();
+  }
+  return headers;
+}
+
+export function formatHeaders(headers: Record<string, string>): string {
+  return Object.entries(headers)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join("\n");
+}
+
+export function hasHeaders(profile: AudioResolverProfile) {
+  return Object.keys(profile.headers).length > 0;
+}
+
+// The profile with `id`, else the first one
+export function findProfile(
+  profiles: AudioResolverProfile[],
+  id: string | undefined
+): AudioResolverProfile {
+  return (
+    profiles.find((profile) => profile.id === id) ??
+    profiles[0] ??
+    DEFAULT_PROFILE
+  );
+}
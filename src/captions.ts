@@ -0,0 +1,365 @@
+import type { WordTiming } from "./types";
+
+export type CaptionFormat = "srt" | "vtt" | "ttml";
+
+type Cue = {
+  start: number;
+  end: number;
+  text: string;
+};
+
+// Timed run of text inside a cue, e.g. between two inline timestamps
+type Segment = {
+  start: number;
+  end: number;
+  text: string;
+};
+
+const CUE_TIMING_PATTERN =
+  /^\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+const INLINE_TIMESTAMP_PATTERN = /<((?:\d+:)?\d{1,2}:\d{2}\.\d{1,3})>/g;
+
+export function detectCaptionFormat(text: string): CaptionFormat | null {
+  const trimmed = text.replace(/^\uFEFF/, "").trimStart();
+  if (trimmed.startsWith("WEBVTT")) return "vtt";
+  if (/^(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<(\w+:)?tt[\s>]/.test(trimmed)) {
+    return "ttml";
+  }
+  if (/^\d+\s*\r?\n\s*(\d+:)?\d{1,2}:\d{2}[.,]\d{1,3}\s*-->/.test(trimmed)) {
+    return "srt";
+  }
+  return null;
+}
+
+// Parses SRT/WebVTT clock times: [hh:]mm:ss(.|,)mmm
+function parseClockTime(value: string): number {
+  const [clock, fraction = "0"] = value.split(/[.,]/);
+  const parts = clock.split(":").map(Number);
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+  return seconds + Number(fraction.padEnd(3, "0")) / 1000;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) =>
+      String.fromCodePoint(parseInt(hex, 16))
+    )
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lrm;|&rlm;/g, "")
+    .replace(/&amp;/g, "&");
+}
+
+function stripTags(text: string): string {
+  return decodeEntities(text.replace(/<[^>]*>/g, ""));
+}
+
+function parseTextCues(text: string): Cue[] {
+  const cues: Cue[] = [];
+  const blocks = text
+    .replace(/^\uFEFF/, "")
+    .replace(/\r\n?/g, "\n")
+    .split(/\n\s*\n/);
+  for (const block of blocks) {
+    const lines = block.split("\n");
+    const timingLineIndex = lines.findIndex((line) =>
+      CUE_TIMING_PATTERN.test(line)
+    );
+    // Skips the WEBVTT header and NOTE/STYLE/REGION blocks
+    if (timingLineIndex === -1) continue;
+    const match = lines[timingLineIndex].match(CUE_TIMING_PATTERN)!;
+    cues.push({
+      start: parseClockTime(match[1]),
+      end: parseClockTime(match[2]),
+      text: lines
+        .slice(timingLineIndex + 1)
+        .join(" ")
+        .trim(),
+    });
+  }
+  return cues;
+}
+
+/**
+ * Splits a WebVTT cue on inline `<00:00:01.000>` timestamps. Each timestamp
+ * marks where the following text starts being spoken.
+ */
+function splitInlineTimestamps(cue: Cue): Segment[] {
+  const segments: Segment[] = [];
+  let segmentStart = cue.start;
+  let lastIndex = 0;
+  for (const match of cue.text.matchAll(INLINE_TIMESTAMP_PATTERN)) {
+    const time = parseClockTime(match[1]);
+    segments.push({
+      start: segmentStart,
+      end: time,
+      text: cue.text.slice(lastIndex, match.index),
+    });
+    segmentStart = time;
+    lastIndex = match.index! + match[0].length;
+  }
+  segments.push({
+    start: segmentStart,
+    end: cue.end,
+    text: cue.text.slice(lastIndex),
+  });
+  return segments;
+}
+
+function segmentsToWords(
+  segments: Segment[],
+  sentenceIndex: number
+): WordTiming[] {
+  const words: WordTiming[] = [];
+  for (const segment of segments) {
+    for (const token of stripTags(segment.text).split(/\s+/)) {
+      if (!token) continue;
+      words.push({
+        word: token.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, "") || token,
+        punctuated_word: token,
+        start: segment.start,
+        end: Math.max(segment.start, segment.end),
+        sentenceIndex,
+      });
+    }
+  }
+  return words;
+}
+
+function parseTtmlAttribute(attributes: string, name: string) {
+  const match = attributes.match(
+    new RegExp(`(?:^|\\s)(?:\\w+:)?${name}\\s*=\\s*"([^"]*)"`)
+  );
+  return match?.[1];
+}
+
+type TtmlTimeBase = { frameRate: number; tickRate: number };
+
+// TTML allows clock times (hh:mm:ss[.fff] or hh:mm:ss:frames) and offsets
+// with a unit suffix (h, m, s, ms, f, t)
+function parseTtmlTime(
+  value: string | undefined,
+  timeBase: TtmlTimeBase
+): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  const clock = trimmed.match(/^(\d+):(\d{2}):(\d{2})(?:([.:])(\d+))?$/);
+  if (clock) {
+    const [, h, m, s, separator, fraction] = clock;
+    const base = Number(h) * 3600 + Number(m) * 60 + Number(s);
+    if (!fraction) return base;
+    return separator === "."
+      ? base + Number(`0.${fraction}`)
+      : base + Number(fraction) / timeBase.frameRate;
+  }
+  const offset = trimmed.match(/^(\d+(?:\.\d+)?)(h|m|s|ms|f|t)$/);
+  if (offset) {
+    const amount = Number(offset[1]);
+    switch (offset[2]) {
+      case "h":
+        return amount * 3600;
+      case "m":
+        return amount * 60;
+      case "s":
+        return amount;
+      case "ms":
+        return amount / 1000;
+      case "f":
+        return amount / timeBase.frameRate;
+      case "t":
+        return amount / timeBase.tickRate;
+    }
+  }
+  return undefined;
+}
+
+function parseTtmlSpan(
+  attributes: string,
+  timeBase: TtmlTimeBase
+): { begin?: number; end?: number } {
+  const begin = parseTtmlTime(
+    parseTtmlAttribute(attributes, "begin"),
+    timeBase
+  );
+  let end = parseTtmlTime(parseTtmlAttribute(attributes, "end"), timeBase);
+  const dur = parseTtmlTime(parseTtmlAttribute(attributes, "dur"), timeBase);
+  if (end === undefined && begin !== undefined && dur !== undefined) {
+    end = begin + dur;
+  }
+  return { begin, end };
+}
+
+type TtmlTiming = { begin: number; end: number };
+
+// Timing of an element inside a timed parent, or null when it sets none
+function resolveTtmlTiming(
+  attributes: string,
+  timeBase: TtmlTimeBase,
+  parent: TtmlTiming
+): TtmlTiming | null {
+  const span = parseTtmlSpan(attributes, timeBase);
+  if (span.begin === undefined) return null;
+  // Child times are relative to the parent by the spec, but many tools
+  // write absolute times; fall back to those when the relative reading
+  // would land outside the parent
+  const isAbsolute =
+    parent.begin + span.begin > parent.end + 0.001 &&
+    span.begin >= parent.begin &&
+    span.begin <= parent.end;
+  const offset = isAbsolute ? 0 : parent.begin;
+  return {
+    begin: span.begin + offset,
+    end: span.end !== undefined ? span.end + offset : parent.end,
+  };
+}
+
+/**
+ * Splits a paragraph's content into timed runs. Spans may nest, e.g. a
+ * styling span inside a timed word or timed words inside a styling span;
+ * text takes the timing of its innermost timed span, and text outside any
+ * fills the gap around its timed neighbours.
+ */
+function parseTtmlParagraph(
+  body: string,
+  paragraph: TtmlTiming,
+  timeBase: TtmlTimeBase
+): Segment[] {
+  const runs: { timing: TtmlTiming | null; text: string }[] = [];
+  const addText = (timing: TtmlTiming | null, text: string) => {
+    const last = runs.at(-1);
+    if (last && last.timing === timing) last.text += text;
+    else runs.push({ timing, text });
+  };
+
+  // Innermost first at the end; untimed spans repeat their parent's timing
+  const stack: (TtmlTiming | null)[] = [];
+  const tokenPattern = /<(\/)?(?:[\w-]+:)?([\w-]+)\b([^>]*?)(\/)?>|[^<]+/g;
+  for (const [token, closing, name, attributes, selfClosing] of body.matchAll(
+    tokenPattern
+  )) {
+    const timing = stack.at(-1) ?? null;
+    if (!name) {
+      addText(timing, token);
+    } else if (name === "br") {
+      addText(timing, " ");
+    } else if (name === "span" && closing) {
+      stack.pop();
+    } else if (name === "span" && !selfClosing) {
+      stack.push(
+        resolveTtmlTiming(attributes, timeBase, timing ?? paragraph) ?? timing
+      );
+    }
+  }
+
+  if (runs.every((run) => !run.timing)) {
+    return [
+      {
+        start: paragraph.begin,
+        end: paragraph.end,
+        text: runs.map((run) => run.text).join(""),
+      },
+    ];
+  }
+  const segments: Segment[] = [];
+  runs.forEach((run, i) => {
+    if (run.timing) {
+      segments.push({
+        start: run.timing.begin,
+        end: run.timing.end,
+        text: run.text,
+      });
+    } else if (stripTags(run.text).trim()) {
+      const next = runs.slice(i + 1).find((later) => later.timing);
+      segments.push({
+        start: segments.at(-1)?.end ?? paragraph.begin,
+        end: next?.timing?.begin ?? paragraph.end,
+        text: run.text,
+      });
+    }
+  });
+  return segments;
+}
+
+function parseTtml(text: string): Segment[][] {
+  const ttAttributes = text.match(/<(?:\w+:)?tt\b([^>]*)>/)?.[1] ?? "";
+  const frameRate = Number(parseTtmlAttribute(ttAttributes, "frameRate")) || 30;
+  const frameRateMultiplier = parseTtmlAttribute(
+    ttAttributes,
+    "frameRateMultiplier"
+  )
+    ?.split(/\s+/)
+    .map(Number);
+  const timeBase: TtmlTimeBase = {
+    frameRate:
+      frameRateMultiplier?.length === 2 && frameRateMultiplier[1]
+        ? (frameRate * frameRateMultiplier[0]) / frameRateMultiplier[1]
+        : frameRate,
+    tickRate: Number(parseTtmlAttribute(ttAttributes, "tickRate")) || 1,
+  };
+
+  const cues: Segment[][] = [];
+  // The begin of a <body> or <div> offsets everything inside it, adding up
+  // when they nest
+  const offsets = [0];
+  const pattern =
+    /<(\/)?(?:\w+:)?(body|div)\b([^>]*?)(\/)?>|<(?:\w+:)?p\b([^>]*)>([\s\S]*?)<\/(?:\w+:)?p>/g;
+  for (const match of text.matchAll(pattern)) {
+    const [
+      ,
+      closing,
+      container,
+      containerAttributes,
+      selfClosing,
+      pAttributes,
+      body,
+    ] = match;
+    const offset = offsets.at(-1) ?? 0;
+    if (container) {
+      if (closing) {
+        if (offsets.length > 1) offsets.pop();
+      } else if (!selfClosing) {
+        const begin = parseTtmlTime(
+          parseTtmlAttribute(containerAttributes, "begin"),
+          timeBase
+        );
+        offsets.push(offset + (begin ?? 0));
+      }
+      continue;
+    }
+    const p = parseTtmlSpan(pAttributes, timeBase);
+    if (p.begin === undefined || p.end === undefined) continue;
+    cues.push(
+      parseTtmlParagraph(
+        body,
+        { begin: offset + p.begin, end: offset + p.end },
+        timeBase
+      )
+    );
+  }
+  return cues;
+}
+
+/**
+ * Converts SRT, WebVTT or TTML captions into word timings. Each cue becomes
+ * one sentence; without inline word timestamps every word in a cue carries
+ * the cue's start and end. Returns null when the text is not a caption file.
+ */
+export function extractCaptionTimings(text: string): WordTiming[] | null {
+  const format = detectCaptionFormat(text);
+  if (!format) return null;
+
+  const cueSegments =
+    format === "ttml"
+      ? parseTtml(text)
+      : parseTextCues(text).map((cue) =>
+          format === "vtt" ? splitInlineTimestamps(cue) : [cue]
+        );
+
+  return cueSegments.flatMap((segments, sentenceIndex) =>
+    segmentsToWords(segments, sentenceIndex)
+  );
+}
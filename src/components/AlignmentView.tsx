@@ -0,0 +1,499 @@
+import { useLayoutEffect, useMemo, useRef, useState } from "react";
+import {
+  ChevronLeft,
+  ChevronRight,
+  FileDown,
+  GitCompareArrows,
+} from "lucide-react";
+import type { SentenceAlignment } from "../types";
+import { analyzeAlignment, type AlignmentAnalysis } from "../alignmentView";
+import {
+  ALIGNMENT_EDIT_LABELS,
+  resolveAlignmentEdit,
+  type AlignmentEditKind,
+  type AlignmentSelection,
+  type PhraseEdit,
+} from "../alignmentEditor";
+import { formatTime } from "../time";
+
+type AlignmentViewProps = {
+  alignments: SentenceAlignment[];
+  // Plays the dub between two uncorrected times
+  onPlaySpan: (start: number, end: number) => void;
+  // Given for documents whose subphrases can be edited
+  onEdit?: (sentenceIndex: number, edit: PhraseEdit) => void;
+  onExport?: () => void;
+};
+
+type SelectionTarget = keyof AlignmentSelection;
+
+const EMPTY_SELECTION: AlignmentSelection = {
+  originalWords: [],
+  translatedWords: [],
+  subphrases: [],
+};
+
+const SENTENCES_PER_PAGE = 10;
+// Vertical space between the two word rows, where the ribbons run
+const RIBBON_HEIGHT = 40;
+
+function subphraseColor(index: number, alpha = 1) {
+  // Golden angle steps keep neighbouring subphrases apart
+  return `hsla(${(index * 137.5) % 360}, 70%, 50%, ${alpha})`;
+}
+
+type Ribbon = { index: number; path: string };
+
+type SentenceRowProps = {
+  alignment: SentenceAlignment;
+  analysis: AlignmentAnalysis;
+  onPlaySpan: (start: number, end: number) => void;
+  // In edit mode clicks select instead of playing
+  selection?: AlignmentSelection;
+  onToggle?: (target: SelectionTarget, index: number) => void;
+};
+
+function SentenceRow({
+  alignment,
+  analysis,
+  onPlaySpan,
+  selection,
+  onToggle,
+}: SentenceRowProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [ribbons, setRibbons] = useState<Ribbon[]>([]);
+  const [width, setWidth] = useState(0);
+  const { subphrases } = alignment;
+
+  // First subphrase covering each word, which decides its colour
+  const owners = useMemo(() => {
+    const original = new Map<number, number>();
+    const translated = new Map<number, number>();
+    subphrases.forEach((subphrase, index) => {
+      for (const i of subphrase.originalWordIndices) {
+        if (!original.has(i)) original.set(i, index);
+      }
+      for (const i of subphrase.translatedWordIndices) {
+        if (!translated.has(i)) translated.set(i, index);
+      }
+    });
+    return { original, translated };
+  }, [subphrases]);
+
+  // Ribbons join each subphrase's words, so they follow the laid out chips
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const measure = () => {
+      const chips = (side: string) =>
+        Array.from(
+          container.querySelectorAll<HTMLElement>(`[data-side="${side}"]`)
+        );
+      const originalChips = chips("original");
+      const translatedChips = chips("translated");
+      const extent = (elements: HTMLElement[], indices: number[]) => {
+        const hits = indices.map((i) => elements[i]).filter(Boolean);
+        if (hits.length === 0) return null;
+        return {
+          left: Math.min(...hits.map((el) => el.offsetLeft)),
+          right: Math.max(...hits.map((el) => el.offsetLeft + el.offsetWidth)),
+        };
+      };
+      const top = originalChips.length
+        ? Math.max(...originalChips.map((el) => el.offsetTop + el.offsetHeight))
+        : 0;
+      const bottom = top + RIBBON_HEIGHT;
+      const middle = (top + bottom) / 2;
+
+      const next: Ribbon[] = [];
+      subphrases.forEach((subphrase, index) => {
+        const from = extent(originalChips, subphrase.originalWordIndices);
+        const to = extent(translatedChips, subphrase.translatedWordIndices);
+        if (!from || !to) return;
+        next.push({
+          index,
+          path:
+            `M ${from.left} ${top} C ${from.left} ${middle}, ${to.left} ${middle}, ${to.left} ${bottom} ` +
+            `L ${to.right} ${bottom} C ${to.right} ${middle}, ${from.right} ${middle}, ${from.right} ${top} Z`,
+        });
+      });
+      setRibbons(next);
+      setWidth(container.scrollWidth);
+    };
+
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [subphrases]);
+
+  const playSubphrase = (index: number | undefined) => {
+    if (index === undefined) return;
+    const { start, end } = subphrases[index];
+    if (start !== undefined && end !== undefined) onPlaySpan(start, end);
+  };
+
+  const renderChip = (
+    side: "original" | "translated",
+    word: string,
+    wordIndex: number
+  ) => {
+    const owner = owners[side].get(wordIndex);
+    const target = side === "original" ? "originalWords" : "translatedWords";
+    const unaligned = (
+      side === "original"
+        ? analysis.unalignedOriginal
+        : analysis.unalignedTranslated
+    ).has(wordIndex);
+    const playable = owner !== undefined && !analysis.untimed.has(owner);
+    const selected = selection?.[target].includes(wordIndex);
+    return (
+      <button
+        key={wordIndex}
+        data-side={side}
+        onClick={() =>
+          onToggle ? onToggle(target, wordIndex) : playSubphrase(owner)
+        }
+        disabled={!onToggle && !playable}
+        title={
+          unaligned
+            ? "Not in any subphrase"
+            : playable
+            ? `Play subphrase ${owner! + 1}`
+            : "Subphrase has no timing"
+        }
+        className={`shrink-0 px-1.5 py-0.5 rounded border-2 whitespace-nowrap disabled:cursor-default ${
+          selected
+            ? "bg-indigo-200 dark:bg-indigo-800 ring-2 ring-indigo-500"
+            : unaligned
+            ? "border-dashed border-orange-500 text-orange-700 dark:text-orange-300"
+            : "bg-white dark:bg-gray-800"
+        }`}
+        style={
+          owner !== undefined
+            ? { borderColor: subphraseColor(owner) }
+            : undefined
+        }
+      >
+        {word}
+      </button>
+    );
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <div ref={containerRef} className="relative inline-block min-w-full">
+        <div className="flex gap-1">
+          {alignment.originalWords.map((word, i) =>
+            renderChip("original", word, i)
+          )}
+        </div>
+        <div style={{ height: RIBBON_HEIGHT }} />
+        <div className="flex gap-1">
+          {alignment.translatedWords.map((word, i) =>
+            renderChip("translated", word, i)
+          )}
+        </div>
+        <svg
+          className="absolute inset-0 pointer-events-none"
+          width={width}
+          height="100%"
+        >
+          {ribbons.map(({ index, path }) => {
+            const subphrase = subphrases[index];
+            const untimed = analysis.untimed.has(index);
+            const crossing = analysis.crossing.has(index);
+            const selected = selection?.subphrases.includes(index);
+            return (
+              <path
+                key={index}
+                d={path}
+                onClick={() =>
+                  onToggle
+                    ? onToggle("subphrases", index)
+                    : playSubphrase(index)
+                }
+                className={`pointer-events-auto ${
+                  untimed && !onToggle ? "" : "cursor-pointer hover:opacity-80"
+                }`}
+                fill={untimed ? "transparent" : subphraseColor(index, 0.25)}
+                stroke={
+                  selected
+                    ? "#4f46e5"
+                    : crossing
+                    ? "#dc2626"
+                    : untimed
+                    ? "#9ca3af"
+                    : subphraseColor(index)
+                }
+                strokeWidth={selected ? 3 : crossing ? 2 : 1}
+                strokeDasharray={untimed ? "4 3" : undefined}
+              >
+                <title>
+                  {`“${subphrase.textOriginal}” → “${subphrase.textTranslated}”`}
+                  {subphrase.start !== undefined && subphrase.end !== undefined
+                    ? ` ${formatTime(subphrase.start)}–${formatTime(
+                        subphrase.end
+                      )}`
+                    : " (no timing)"}
+                </title>
+              </path>
+            );
+          })}
+        </svg>
+      </div>
+    </div>
+  );
+}
+
+function AlignmentView({
+  alignments,
+  onPlaySpan,
+  onEdit,
+  onExport,
+}: AlignmentViewProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [problemsOnly, setProblemsOnly] = useState(false);
+  const [page, setPage] = useState(0);
+  const [isEditing, setIsEditing] = useState(false);
+  // Selections stay inside one sentence
+  const [selected, setSelected] = useState<{
+    sentenceIndex: number;
+    selection: AlignmentSelection;
+  } | null>(null);
+
+  const toggle = (
+    sentenceIndex: number,
+    target: SelectionTarget,
+    index: number
+  ) => {
+    const current =
+      selected?.sentenceIndex === sentenceIndex
+        ? selected.selection
+        : EMPTY_SELECTION;
+    const list = current[target];
+    setSelected({
+      sentenceIndex,
+      selection: {
+        ...current,
+        [target]: list.includes(index)
+          ? list.filter((i) => i !== index)
+          : [...list, index],
+      },
+    });
+  };
+
+  const makeEdit = (alignment: SentenceAlignment, edit: PhraseEdit) => {
+    onEdit?.(alignment.sentenceIndex, edit);
+    setSelected(null);
+  };
+
+  const analyzed = useMemo(
+    () =>
+      alignments.map((alignment) => ({
+        alignment,
+        analysis: analyzeAlignment(alignment),
+      })),
+    [alignments]
+  );
+  const problemCount = analyzed.filter((a) => a.analysis.hasProblems).length;
+  const shown = problemsOnly
+    ? analyzed.filter((a) => a.analysis.hasProblems)
+    : analyzed;
+  const pageCount = Math.max(1, Math.ceil(shown.length / SENTENCES_PER_PAGE));
+  const currentPage = Math.min(page, pageCount - 1);
+
+  const buttonClass =
+    "px-2 py-1 bg-gray-100 dark:bg-gray-700 hover:bg-indigo-100 dark:hover:bg-indigo-900/50 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="space-y-2">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 text-white rounded-lg transition-colors flex items-center gap-2"
+      >
+        <GitCompareArrows className="w-4 h-4" />
+        Subphrase alignment
+      </button>
+      {isOpen && (
+        <div className="p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg text-sm text-gray-700 dark:text-gray-300 space-y-3">
+          <div className="flex flex-wrap items-center gap-3 text-xs">
+            <span className="flex items-center gap-1">
+              <span className="inline-block w-4 h-3 border-2 border-red-600" />
+              Crossing
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="inline-block w-4 h-3 border-2 border-dashed border-gray-400" />
+              Dropped, missing timing
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="inline-block w-4 h-3 rounded border-2 border-dashed border-orange-500" />
+              Word in no subphrase
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="px-1 rounded bg-orange-100 dark:bg-orange-900/50 text-orange-700 dark:text-orange-300">
+                -1
+              </span>
+              Unaligned entries
+            </span>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={problemsOnly}
+                onChange={(e) => {
+                  setProblemsOnly(e.target.checked);
+                  setPage(0);
+                }}
+              />
+              Only sentences with problems ({problemCount})
+            </label>
+            {onEdit && (
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={isEditing}
+                  onChange={(e) => {
+                    setIsEditing(e.target.checked);
+                    setSelected(null);
+                  }}
+                />
+                Edit subphrases
+              </label>
+            )}
+            {onExport && (
+              <button
+                onClick={onExport}
+                className={`${buttonClass} flex items-center gap-1`}
+              >
+                <FileDown className="w-4 h-4" />
+                Export sentence timings
+              </button>
+            )}
+            <div className="flex items-center gap-2 ml-auto">
+              <button
+                onClick={() => setPage(currentPage - 1)}
+                disabled={currentPage === 0}
+                className={buttonClass}
+                aria-label="Previous page"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <span>
+                Page {currentPage + 1} of {pageCount}
+              </span>
+              <button
+                onClick={() => setPage(currentPage + 1)}
+                disabled={currentPage >= pageCount - 1}
+                className={buttonClass}
+                aria-label="Next page"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+          {isEditing && (
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+              Click words and links to select them, then pick what to do with
+              them. Word times and the subphrase timings follow each edit.
+            </div>
+          )}
+          {shown.length === 0 ? (
+            <div className="text-green-600 dark:text-green-400">
+              Every subphrase lines up.
+            </div>
+          ) : (
+            <ul className="space-y-4">
+              {shown
+                .slice(
+                  currentPage * SENTENCES_PER_PAGE,
+                  (currentPage + 1) * SENTENCES_PER_PAGE
+                )
+                .map(({ alignment, analysis }) => {
+                  const selection =
+                    selected?.sentenceIndex === alignment.sentenceIndex
+                      ? selected.selection
+                      : undefined;
+                  return (
+                    <li key={alignment.sentenceIndex} className="space-y-1">
+                      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                        <span className="font-medium">
+                          Sentence {alignment.sentenceIndex + 1}
+                        </span>
+                        {alignment.subphrases.map((subphrase, index) =>
+                          analysis.withUnalignedEntries.has(index) ? (
+                            <span
+                              key={index}
+                              className="px-1 rounded bg-orange-100 dark:bg-orange-900/50 text-orange-700 dark:text-orange-300"
+                              title={`${subphrase.unalignedOriginal} original and ${subphrase.unalignedTranslated} translated entries were -1`}
+                            >
+                              Subphrase {index + 1}: -1 ×
+                              {subphrase.unalignedOriginal +
+                                subphrase.unalignedTranslated}
+                            </span>
+                          ) : null
+                        )}
+                      </div>
+                      <SentenceRow
+                        alignment={alignment}
+                        analysis={analysis}
+                        onPlaySpan={onPlaySpan}
+                        selection={selection}
+                        onToggle={
+                          isEditing
+                            ? (target, index) =>
+                                toggle(alignment.sentenceIndex, target, index)
+                            : undefined
+                        }
+                      />
+                      {isEditing && selection && (
+                        <div className="flex flex-wrap items-center gap-2">
+                          {(
+                            Object.keys(
+                              ALIGNMENT_EDIT_LABELS
+                            ) as AlignmentEditKind[]
+                          ).map((kind) => {
+                            const edit = resolveAlignmentEdit(
+                              alignment,
+                              kind,
+                              selection
+                            );
+                            return (
+                              <button
+                                key={kind}
+                                onClick={() =>
+                                  typeof edit !== "string" &&
+                                  makeEdit(alignment, edit)
+                                }
+                                disabled={typeof edit === "string"}
+                                title={
+                                  typeof edit === "string" ? edit : undefined
+                                }
+                                className={buttonClass}
+                              >
+                                {ALIGNMENT_EDIT_LABELS[kind]}
+                              </button>
+                            );
+                          })}
+                          <button
+                            onClick={() => setSelected(null)}
+                            className={buttonClass}
+                          >
+                            Clear selection
+                          </button>
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default AlignmentView;
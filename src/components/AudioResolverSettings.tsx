@@ -0,0 +1,305 @@
+import { useState } from "react";
+import { Plus, Server, Trash2 } from "lucide-react";
+import {
+  createProfileId,
+  findProfile,
+  formatHeaders,
+  hasHeaders,
+  parseHeaders,
+  resolveAudioUrl,
+  type AudioResolverProfile,
+} from "../audioResolver";
+import type { ResolverSettings } from "../resolverSettings";
+
+type AudioResolverSettingsProps = {
+  settings: ResolverSettings;
+  onChange: (settings: ResolverSettings) => void;
+};
+
+type TestResult = { ok: boolean; message: string };
+
+function AudioResolverSettings({
+  settings,
+  onChange,
+}: AudioResolverSettingsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [testKey, setTestKey] = useState("");
+  const [testResult, setTestResult] = useState<TestResult | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+
+  const { profiles, activeId } = settings;
+  const profile = findProfile(profiles, activeId);
+
+  const updateProfile = (changes: Partial<AudioResolverProfile>) => {
+    onChange({
+      profiles: profiles.map((p) =>
+        p.id === profile.id ? { ...p, ...changes } : p
+      ),
+      activeId,
+    });
+    setTestResult(null);
+  };
+
+  const selectProfile = (id: string) => {
+    onChange({ profiles, activeId: id });
+    setTestResult(null);
+  };
+
+  const addProfile = () => {
+    const added = {
+      ...profile,
+      id: createProfileId(),
+      name: `${profile.name} copy`,
+    };
+    onChange({ profiles: [...profiles, added], activeId: added.id });
+  };
+
+  const deleteProfile = () => {
+    const rest = profiles.filter((p) => p.id !== profile.id);
+    onChange({ profiles: rest, activeId: rest[0].id });
+  };
+
+  // Asks the server for the headers of one key, as loading audio would
+  const testProfile = async () => {
+    setIsTesting(true);
+    try {
+      const url = resolveAudioUrl(profile, { key: testKey.trim() });
+      const response = await fetch(url, {
+        method: "HEAD",
+        headers: profile.headers,
+      });
+      const contentType = response.headers.get("content-type") || "no type";
+      setTestResult({
+        ok: response.ok && contentType.startsWith("audio/"),
+        message: `${url}: ${response.status} ${response.statusText} (${contentType})`,
+      });
+    } catch (error) {
+      setTestResult({
+        ok: false,
+        message: `${
+          error instanceof Error ? error.message : String(error)
+        }. Check the URL, and that the server allows this page's origin (CORS).`,
+      });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  let preview = "";
+  try {
+    preview = resolveAudioUrl(profile, {
+      key: testKey.trim() || "path/to/audio.mp3",
+      bucket: "bucket-from-transcript",
+    });
+  } catch {
+    preview = "The base URL isn't a valid URL";
+  }
+
+  const buttonClass =
+    "px-2 py-1 bg-gray-100 dark:bg-gray-700 hover:bg-indigo-100 dark:hover:bg-indigo-900/50 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1";
+  const inputClass =
+    "w-full p-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100";
+
+  return (
+    <div className="space-y-2">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 text-white rounded-lg transition-colors flex items-center gap-2"
+      >
+        <Server className="w-4 h-4" />
+        Audio sources: {profile.name}
+      </button>
+      {isOpen && (
+        <div className="p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg text-sm text-gray-700 dark:text-gray-300 space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={profile.id}
+              onChange={(e) => selectProfile(e.target.value)}
+              className="p-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+              aria-label="Active profile"
+            >
+              {profiles.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                </option>
+              ))}
+            </select>
+            <button onClick={addProfile} className={buttonClass}>
+              <Plus className="w-4 h-4" />
+              Duplicate
+            </button>
+            <button
+              onClick={deleteProfile}
+              disabled={profiles.length === 1}
+              className={buttonClass}
+              title={
+                profiles.length === 1
+                  ? "At least one profile is needed"
+                  : "Delete this profile"
+              }
+            >
+              <Trash2 className="w-4 h-4" />
+              Delete
+            </button>
+          </div>
+
+          <div className="grid gap-3 sm:grid-cols-2">
+            <label className="space-y-1">
+              <span className="block">Name</span>
+              <input
+                value={profile.name}
+                onChange={(e) => updateProfile({ name: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="block">Base URL</span>
+              <input
+                value={profile.baseUrl}
+                onChange={(e) => updateProfile({ baseUrl: e.target.value })}
+                placeholder="http://localhost:9000 or https://{bucket}.example.com/{key}"
+                className={inputClass}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="block">Bucket</span>
+              <input
+                value={profile.bucket}
+                onChange={(e) => updateProfile({ bucket: e.target.value })}
+                placeholder="Empty for a static file server"
+                className={inputClass}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="block">Addressing</span>
+              <select
+                value={profile.addressing}
+                onChange={(e) =>
+                  updateProfile({
+                    addressing: e.target
+                      .value as AudioResolverProfile["addressing"],
+                  })
+                }
+                className={inputClass}
+              >
+                <option value="path">Path (host/bucket/key, MinIO)</option>
+                <option value="virtual-host">
+                  Virtual host (bucket.host/key, S3)
+                </option>
+              </select>
+            </label>
+          </div>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={profile.useDocumentBucket}
+              onChange={(e) =>
+                updateProfile({ useDocumentBucket: e.target.checked })
+              }
+              className="w-4 h-4 text-indigo-600 bg-gray-100 border-gray-300 rounded focus:ring-indigo-500 dark:bg-gray-700 dark:border-gray-600"
+            />
+            Use the bucket named in the transcript when there is one
+          </label>
+
+          {/* Text areas are read on blur so half-typed lines aren't dropped */}
+          <div className="grid gap-3 sm:grid-cols-2">
+            <label className="space-y-1">
+              <span className="block">Request headers, one per line</span>
+              <textarea
+                key={`headers-${profile.id}`}
+                defaultValue={formatHeaders(profile.headers)}
+                onBlur={(e) =>
+                  updateProfile({ headers: parseHeaders(e.target.value) })
+                }
+                placeholder="Authorization: Bearer ..."
+                rows={3}
+                className={`${inputClass} font-mono`}
+              />
+              <span className="block text-xs text-orange-600 dark:text-orange-400">
+                Kept unencrypted in this browser's storage, so prefer
+                short-lived tokens.
+              </span>
+            </label>
+            <label className="space-y-1">
+              <span className="block">
+                JSON paths of dub audio, tried in order
+              </span>
+              <textarea
+                key={`paths-${profile.id}`}
+                defaultValue={profile.audioPaths.join("\n")}
+                onBlur={(e) =>
+                  updateProfile({
+                    audioPaths: e.target.value
+                      .split("\n")
+                      .map((path) => path.trim())
+                      .filter(Boolean),
+                  })
+                }
+                placeholder="dubAudioFileLocation"
+                rows={3}
+                className={`${inputClass} font-mono`}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="block">
+                JSON paths of original audio, tried in order
+              </span>
+              <textarea
+                key={`original-paths-${profile.id}`}
+                defaultValue={profile.originalAudioPaths.join("\n")}
+                onBlur={(e) =>
+                  updateProfile({
+                    originalAudioPaths: e.target.value
+                      .split("\n")
+                      .map((path) => path.trim())
+                      .filter(Boolean),
+                  })
+                }
+                placeholder="originalAudioFileLocation"
+                rows={3}
+                className={`${inputClass} font-mono`}
+              />
+            </label>
+          </div>
+          {hasHeaders(profile) && (
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+              With headers set, audio is downloaded in full before it plays.
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              value={testKey}
+              onChange={(e) => setTestKey(e.target.value)}
+              placeholder="Key to test, e.g. jobs/42/dub.wav"
+              className={`${inputClass} sm:w-72`}
+            />
+            <button
+              onClick={testProfile}
+              disabled={!testKey.trim() || isTesting}
+              className={buttonClass}
+            >
+              {isTesting ? "Testing..." : "Test"}
+            </button>
+          </div>
+          <div className="text-xs text-gray-500 dark:text-gray-400 break-all">
+            Resolves to {preview}
+          </div>
+          {testResult && (
+            <div
+              className={`break-all ${
+                testResult.ok
+                  ? "text-green-600 dark:text-green-400"
+                  : "text-orange-600 dark:text-orange-400"
+              }`}
+            >
+              {testResult.message}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default AudioResolverSettings;
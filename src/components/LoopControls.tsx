@@ -0,0 +1,256 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Repeat, X } from "lucide-react";
+import type { SubphraseTiming, WordTiming } from "../types";
+import {
+  PLAYBACK_RATES,
+  loopBounds,
+  type LoopRegion,
+  type LoopState,
+} from "../loop";
+import { formatTime } from "../time";
+import type { PlaybackClock } from "../playbackClock";
+
+type LoopControlsProps = {
+  audioRef: React.RefObject<HTMLAudioElement>;
+  loop: LoopState;
+  onLoopChange: (loop: LoopState) => void;
+  clock: PlaybackClock;
+  duration: number;
+  currentWord: WordTiming | undefined;
+  currentSubphrase: SubphraseTiming | undefined;
+  currentSentence: { start: number; end: number } | undefined;
+};
+
+// Past the loop end by more than this, playback was moved there on purpose
+const WRAP_WINDOW = 0.5;
+
+function LoopControls({
+  audioRef,
+  loop,
+  onLoopChange,
+  clock,
+  duration,
+  currentWord,
+  currentSubphrase,
+  currentSentence,
+}: LoopControlsProps) {
+  const [playbackRate, setPlaybackRate] = useState(1);
+  // Loop point set with "In" while waiting for "Out"
+  const [pendingIn, setPendingIn] = useState<number | null>(null);
+  const rafRef = useRef<number>();
+
+  const bounds = loop.enabled ? loopBounds(loop, duration) : null;
+  const loopStart = bounds?.start;
+  const loopEnd = bounds?.end;
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.playbackRate = playbackRate;
+    // Survives the audio source being swapped
+    audio.defaultPlaybackRate = playbackRate;
+    audio.preservesPitch = true;
+  }, [audioRef, playbackRate]);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || loopStart === undefined || loopEnd === undefined) return;
+
+    const tick = () => {
+      if (
+        audio.currentTime >= loopEnd &&
+        audio.currentTime < loopEnd + WRAP_WINDOW
+      ) {
+        audio.currentTime = loopStart;
+      }
+      rafRef.current = requestAnimationFrame(tick);
+    };
+    const start = () => {
+      if (rafRef.current) cancelAnimationFrame(rafRef.current);
+      rafRef.current = requestAnimationFrame(tick);
+    };
+    const stop = () => {
+      if (rafRef.current) cancelAnimationFrame(rafRef.current);
+    };
+    // A loop running to the end of the file stops the audio first
+    const handleEnded = () => {
+      if (loopEnd >= audio.duration - WRAP_WINDOW) {
+        audio.currentTime = loopStart;
+        audio.play();
+      }
+    };
+
+    if (!audio.paused) start();
+    audio.addEventListener("play", start);
+    audio.addEventListener("pause", stop);
+    audio.addEventListener("ended", handleEnded);
+    return () => {
+      stop();
+      audio.removeEventListener("play", start);
+      audio.removeEventListener("pause", stop);
+      audio.removeEventListener("ended", handleEnded);
+    };
+  }, [audioRef, loopStart, loopEnd]);
+
+  const setRegion = (region: LoopRegion) => {
+    setPendingIn(null);
+    onLoopChange({ ...loop, region, enabled: true });
+    if (audioRef.current) {
+      audioRef.current.currentTime = Math.max(0, region.start - loop.preRoll);
+    }
+  };
+
+  const handleSetOut = () => {
+    if (pendingIn === null) return;
+    const currentTime = clock.getTime();
+    const [start, end] =
+      pendingIn <= currentTime
+        ? [pendingIn, currentTime]
+        : [currentTime, pendingIn];
+    if (end - start < 0.01) return;
+    setRegion({ start, end, label: "in/out points" });
+  };
+
+  const buttonClass =
+    "px-2 py-1 bg-gray-100 dark:bg-gray-700 hover:bg-indigo-100 dark:hover:bg-indigo-900/50 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+  const inputClass =
+    "w-16 p-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100";
+
+  return (
+    <div className="w-full p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg text-sm text-gray-700 dark:text-gray-300 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Repeat className="w-4 h-4" />
+        <span className="font-medium mr-1">Loop</span>
+        <button
+          onClick={() =>
+            currentWord &&
+            setRegion({
+              start: currentWord.start,
+              end: currentWord.end,
+              label: `word “${
+                currentWord.punctuated_word || currentWord.word
+              }”`,
+            })
+          }
+          disabled={!currentWord}
+          className={buttonClass}
+        >
+          Word
+        </button>
+        <button
+          onClick={() =>
+            currentSubphrase &&
+            setRegion({
+              start: currentSubphrase.start,
+              end: currentSubphrase.end,
+              label: `subphrase “${currentSubphrase.textTranslated}”`,
+            })
+          }
+          disabled={!currentSubphrase}
+          className={buttonClass}
+        >
+          Subphrase
+        </button>
+        <button
+          onClick={() =>
+            currentSentence &&
+            setRegion({ ...currentSentence, label: "sentence" })
+          }
+          disabled={!currentSentence}
+          className={buttonClass}
+        >
+          Sentence
+        </button>
+        <button
+          onClick={() => setPendingIn(clock.getTime())}
+          className={buttonClass}
+        >
+          In{pendingIn !== null && ` (${formatTime(pendingIn)})`}
+        </button>
+        <button
+          onClick={handleSetOut}
+          disabled={pendingIn === null}
+          className={buttonClass}
+        >
+          Out
+        </button>
+        <label className="flex items-center gap-1 ml-auto">
+          Speed
+          <select
+            value={playbackRate}
+            onChange={(e) => setPlaybackRate(Number(e.target.value))}
+            className="p-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+          >
+            {PLAYBACK_RATES.map((rate) => (
+              <option key={rate} value={rate}>
+                {rate}x
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-1">
+          Pre-roll
+          <input
+            type="number"
+            min={0}
+            step={100}
+            value={Math.round(loop.preRoll * 1000)}
+            onChange={(e) =>
+              onLoopChange({
+                ...loop,
+                preRoll: Math.max(0, Number(e.target.value) || 0) / 1000,
+              })
+            }
+            className={inputClass}
+          />
+          ms
+        </label>
+        <label className="flex items-center gap-1">
+          Post-roll
+          <input
+            type="number"
+            min={0}
+            step={100}
+            value={Math.round(loop.postRoll * 1000)}
+            onChange={(e) =>
+              onLoopChange({
+                ...loop,
+                postRoll: Math.max(0, Number(e.target.value) || 0) / 1000,
+              })
+            }
+            className={inputClass}
+          />
+          ms
+        </label>
+        {loop.region && (
+          <>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={loop.enabled}
+                onChange={(e) =>
+                  onLoopChange({ ...loop, enabled: e.target.checked })
+                }
+                className="w-4 h-4 text-indigo-600 bg-gray-100 border-gray-300 rounded focus:ring-indigo-500 dark:bg-gray-700 dark:border-gray-600"
+              />
+              Looping {loop.region.label}
+            </label>
+            <button
+              onClick={() =>
+                onLoopChange({ ...loop, region: null, enabled: false })
+              }
+              className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+              title="Clear loop"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default LoopControls;
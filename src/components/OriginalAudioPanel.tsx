@@ -0,0 +1,301 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Headphones, Play, Upload } from "lucide-react";
+import type { SubphraseTiming } from "../types";
+import {
+  findSubphraseAt,
+  indexSubphrases,
+  mapTime,
+  type AudioSide,
+} from "../subphraseSync";
+import { usePlaybackSelector, type PlaybackClock } from "../playbackClock";
+import { findPlayableAudio, type AudioSources } from "../audioDownload";
+
+type OriginalAudioPanelProps = {
+  // The dub player; the panel pauses and resumes it when switching tracks
+  dubAudioRef: React.RefObject<HTMLAudioElement>;
+  // Original audio named by the transcript, loaded whenever it changes
+  transcriptAudio: AudioSources | null;
+  subphraseTimings: SubphraseTiming[];
+  clock: PlaybackClock;
+  onSeek: (time: number) => void;
+};
+
+function OriginalAudioPanel({
+  dubAudioRef,
+  transcriptAudio,
+  subphraseTimings,
+  clock,
+  onSeek,
+}: OriginalAudioPanelProps) {
+  const originalRef = useRef<HTMLAudioElement>(null);
+  const objectUrlRef = useRef<string>("");
+  // Bumped by every load so a slow download can't replace newer audio
+  const requestRef = useRef(0);
+  // Original-audio time at which to stop when playing a single subphrase
+  const stopAtRef = useRef<number | null>(null);
+  const rafRef = useRef<number>();
+  const [originalSrc, setOriginalSrc] = useState<string>("");
+  const [originalName, setOriginalName] = useState<string>("");
+  const [activeSide, setActiveSide] = useState<AudioSide>("translated");
+  const [error, setError] = useState<string>("");
+
+  const hasSubphrases = subphraseTimings.length > 0;
+  const subphraseIndex = useMemo(
+    () => indexSubphrases(subphraseTimings),
+    [subphraseTimings]
+  );
+  // While listening to the original, the clock follows it through onSeek,
+  // so this stays the dub subphrase that corresponds to what is heard
+  const currentSubphrase = usePlaybackSelector(clock, (time) =>
+    findSubphraseAt(subphraseIndex, time, "translated")
+  );
+
+  useEffect(() => {
+    return () => {
+      if (objectUrlRef.current) URL.revokeObjectURL(objectUrlRef.current);
+    };
+  }, []);
+
+  // Latest sync inputs for the media event handlers, which are only bound
+  // once per source so a running subphrase loop isn't interrupted
+  const syncRef = useRef({ activeSide, subphraseIndex, onSeek });
+  useEffect(() => {
+    syncRef.current = { activeSide, subphraseIndex, onSeek };
+  });
+
+  useEffect(() => {
+    const original = originalRef.current;
+    if (!original) return;
+
+    const tick = () => {
+      const stopAt = stopAtRef.current;
+      if (stopAt !== null && original.currentTime >= stopAt) {
+        stopAtRef.current = null;
+        original.pause();
+        return;
+      }
+      rafRef.current = requestAnimationFrame(tick);
+    };
+
+    const playHandler = () => {
+      rafRef.current = requestAnimationFrame(tick);
+    };
+
+    const pauseHandler = () => {
+      if (rafRef.current) cancelAnimationFrame(rafRef.current);
+    };
+
+    // Keep the dub position, and with it the highlighted words, in step
+    const timeUpdateHandler = () => {
+      const { activeSide, subphraseIndex, onSeek } = syncRef.current;
+      if (activeSide !== "original") return;
+      onSeek(mapTime(subphraseIndex, original.currentTime, "original"));
+    };
+
+    original.addEventListener("play", playHandler);
+    original.addEventListener("pause", pauseHandler);
+    original.addEventListener("timeupdate", timeUpdateHandler);
+    return () => {
+      if (rafRef.current) cancelAnimationFrame(rafRef.current);
+      original.removeEventListener("play", playHandler);
+      original.removeEventListener("pause", pauseHandler);
+      original.removeEventListener("timeupdate", timeUpdateHandler);
+    };
+  }, [originalSrc]);
+
+  useEffect(() => {
+    // Starting the dub from its own controls hands playback back to it
+    const dub = dubAudioRef.current;
+    if (!dub) return;
+    const playHandler = () => {
+      originalRef.current?.pause();
+      stopAtRef.current = null;
+      setActiveSide("translated");
+    };
+    dub.addEventListener("play", playHandler);
+    return () => dub.removeEventListener("play", playHandler);
+  }, [dubAudioRef]);
+
+  const loadOriginal = (src: string, name: string) => {
+    if (objectUrlRef.current && objectUrlRef.current !== src) {
+      URL.revokeObjectURL(objectUrlRef.current);
+      objectUrlRef.current = "";
+    }
+    setOriginalSrc(src);
+    setOriginalName(name);
+    setActiveSide("translated");
+    setError("");
+  };
+
+  useEffect(() => {
+    if (!transcriptAudio) return;
+    const request = ++requestRef.current;
+    let cancelled = false;
+    findPlayableAudio(transcriptAudio.urls, transcriptAudio.headers)
+      .then(({ index, blob }) => {
+        // Only the newest load gets an object URL, so none is left unrevoked
+        if (cancelled || request !== requestRef.current) return;
+        const url = transcriptAudio.urls[index];
+        if (objectUrlRef.current) URL.revokeObjectURL(objectUrlRef.current);
+        objectUrlRef.current = blob ? URL.createObjectURL(blob) : "";
+        setOriginalSrc(objectUrlRef.current || url);
+        setOriginalName(url);
+        setActiveSide("translated");
+        setError("");
+      })
+      .catch(() => {
+        if (cancelled || request !== requestRef.current) return;
+        setError("Unable to load the original audio named in the transcript");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [transcriptAudio]);
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    if (!file.type.startsWith("audio/")) {
+      setError("Please upload a valid audio file");
+      return;
+    }
+    requestRef.current++;
+    const url = URL.createObjectURL(file);
+    loadOriginal(url, file.name);
+    objectUrlRef.current = url;
+  };
+
+  const handleUrlSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const formData = new FormData(event.currentTarget);
+    const url = ((formData.get("originalAudioUrl") as string) || "").trim();
+    if (!url) return;
+    requestRef.current++;
+    loadOriginal(url, url);
+  };
+
+  const playOriginalSubphrase = () => {
+    const original = originalRef.current;
+    if (!original || !currentSubphrase) return;
+    dubAudioRef.current?.pause();
+    stopAtRef.current = currentSubphrase.endOriginal;
+    original.currentTime = currentSubphrase.startOriginal;
+    original.play().catch(() => setError("Unable to play the original audio"));
+  };
+
+  const switchTo = (side: AudioSide) => {
+    const dub = dubAudioRef.current;
+    const original = originalRef.current;
+    if (side === activeSide || !dub || !original) return;
+    stopAtRef.current = null;
+
+    const [from, to] = side === "original" ? [dub, original] : [original, dub];
+    const wasPlaying = !from.paused;
+    const target = Math.max(
+      0,
+      mapTime(subphraseIndex, from.currentTime, activeSide)
+    );
+    from.pause();
+    setActiveSide(side);
+
+    if (side === "translated") {
+      onSeek(target);
+    } else {
+      to.currentTime = target;
+    }
+    if (wasPlaying) {
+      to.play().catch(() => setError("Unable to play the selected track"));
+    }
+  };
+
+  const toggleClass = (side: AudioSide) =>
+    `px-3 py-1 rounded transition-colors ${
+      activeSide === side
+        ? "bg-indigo-600 dark:bg-indigo-500 text-white"
+        : "bg-gray-100 dark:bg-gray-700 hover:bg-indigo-100 dark:hover:bg-indigo-900/50"
+    }`;
+
+  return (
+    <div className="p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg text-sm text-gray-700 dark:text-gray-300 space-y-3">
+      <div className="flex items-center gap-2 font-medium">
+        <Headphones className="w-4 h-4" />
+        Original Audio
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-2 px-3 py-1 bg-gray-100 dark:bg-gray-700 hover:bg-indigo-100 dark:hover:bg-indigo-900/50 rounded cursor-pointer transition-colors">
+          <Upload className="w-4 h-4" />
+          Choose file
+          <input
+            type="file"
+            accept="audio/*"
+            onChange={handleFileUpload}
+            className="hidden"
+          />
+        </label>
+        <form onSubmit={handleUrlSubmit} className="flex flex-1 gap-2">
+          <input
+            type="text"
+            name="originalAudioUrl"
+            placeholder="or enter original audio URL"
+            className="flex-1 min-w-0 p-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+          />
+          <button
+            type="submit"
+            className="px-3 py-1 bg-gray-100 dark:bg-gray-700 hover:bg-indigo-100 dark:hover:bg-indigo-900/50 rounded transition-colors"
+          >
+            Load
+          </button>
+        </form>
+      </div>
+      {originalName && (
+        <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+          Loaded: {originalName}
+        </div>
+      )}
+      {error && <div className="text-red-600 dark:text-red-400">{error}</div>}
+      {originalSrc && (
+        <>
+          <audio ref={originalRef} src={originalSrc} preload="auto" />
+          {hasSubphrases ? (
+            <div className="flex flex-wrap items-center gap-3">
+              <div className="flex gap-1">
+                <button
+                  onClick={() => switchTo("translated")}
+                  className={toggleClass("translated")}
+                >
+                  A: Dub
+                </button>
+                <button
+                  onClick={() => switchTo("original")}
+                  className={toggleClass("original")}
+                >
+                  B: Original
+                </button>
+              </div>
+              <button
+                onClick={playOriginalSubphrase}
+                disabled={!currentSubphrase}
+                className="flex items-center gap-2 px-3 py-1 bg-gray-100 dark:bg-gray-700 hover:bg-indigo-100 dark:hover:bg-indigo-900/50 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Play className="w-4 h-4" />
+                Play original of current subphrase
+              </button>
+              {currentSubphrase && (
+                <span className="text-gray-500 dark:text-gray-400 truncate">
+                  “{currentSubphrase.textOriginal}”
+                </span>
+              )}
+            </div>
+          ) : (
+            <div className="text-gray-500 dark:text-gray-400">
+              Load a transcript with subphrase alignments to sync the two
+              tracks.
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default OriginalAudioPanel;
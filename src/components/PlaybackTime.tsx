@@ -0,0 +1,30 @@
+import { formatTime } from "../time";
+import { usePlaybackTime, type PlaybackClock } from "../playbackClock";
+
+type PlaybackTimeProps = {
+  clock: PlaybackClock;
+};
+
+// The only text in the app that changes every frame while playing
+function PlaybackTime({ clock }: PlaybackTimeProps) {
+  const currentTime = usePlaybackTime(clock);
+  const frameTime = clock.getFrameTime();
+
+  return (
+    <>
+      {formatTime(currentTime)} {/* / {formatTime(duration)} */}
+      <br />
+      {currentTime.toFixed(4)}
+      {import.meta.env.DEV && frameTime > 0 && (
+        <>
+          <br />
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            {frameTime.toFixed(1)} ms/frame
+          </span>
+        </>
+      )}
+    </>
+  );
+}
+
+export default PlaybackTime;
@@ -0,0 +1,151 @@
+import { useEffect, useState } from "react";
+import { FolderOpen, History, Trash2 } from "lucide-react";
+import {
+  deleteSession,
+  estimateStorage,
+  listSessions,
+  type SessionSummary,
+} from "../sessions";
+import { formatTime } from "../time";
+
+type RecentSessionsProps = {
+  currentSessionId: string | null;
+  onOpen: (id: string) => void;
+};
+
+function formatSize(bytes: number) {
+  return bytes >= 1024 * 1024 * 1024
+    ? `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`
+    : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function describeAudio(session: SessionSummary) {
+  const { audio } = session;
+  if (!audio) return "no audio";
+  if (audio.kind === "url") return audio.key || audio.url;
+  return session.hasStoredAudio
+    ? `${audio.name} (${formatSize(audio.size)})`
+    : `${audio.name} (not stored, upload again)`;
+}
+
+function RecentSessions({ currentSessionId, onOpen }: RecentSessionsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [storage, setStorage] = useState<{
+    usage: number;
+    quota: number;
+  } | null>(null);
+  const [loadError, setLoadError] = useState("");
+  // Bumped to read the list again after a delete
+  const [listVersion, setListVersion] = useState(0);
+
+  // The list is read when opened rather than kept in step with every save
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    Promise.all([listSessions(), estimateStorage()])
+      .then(([list, estimate]) => {
+        if (cancelled) return;
+        setSessions(list);
+        setStorage(estimate);
+        setLoadError("");
+      })
+      .catch((error) => {
+        console.error("Error listing sessions:", error);
+        if (!cancelled) {
+          setLoadError("Recent sessions are unavailable in this browser.");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, currentSessionId, listVersion]);
+
+  const handleDelete = (id: string) =>
+    deleteSession(id)
+      .then(() => setListVersion((version) => version + 1))
+      .catch((error) => console.error("Error deleting session:", error));
+
+  const buttonClass =
+    "px-2 py-1 bg-gray-100 dark:bg-gray-700 hover:bg-indigo-100 dark:hover:bg-indigo-900/50 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1";
+
+  return (
+    <div className="space-y-2">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 text-white rounded-lg transition-colors flex items-center gap-2"
+      >
+        <History className="w-4 h-4" />
+        Recent
+      </button>
+      {isOpen && (
+        <div className="p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg text-sm text-gray-700 dark:text-gray-300 space-y-3">
+          {loadError ? (
+            <div className="text-orange-600 dark:text-orange-400">
+              {loadError}
+            </div>
+          ) : sessions.length === 0 ? (
+            <div className="text-gray-500 dark:text-gray-400">
+              Sessions are saved here as you work.
+            </div>
+          ) : (
+            <ul className="space-y-1">
+              {sessions.map((session) => (
+                <li
+                  key={session.id}
+                  className="flex flex-wrap items-center gap-2 px-2 py-1 rounded hover:bg-indigo-50 dark:hover:bg-indigo-900/30"
+                >
+                  <span className="flex-1 min-w-0">
+                    <span className="block truncate font-medium">
+                      {session.name}
+                      {session.id === currentSessionId && (
+                        <span className="ml-2 text-xs text-green-600 dark:text-green-400">
+                          current
+                        </span>
+                      )}
+                    </span>
+                    <span className="block truncate text-xs text-gray-500 dark:text-gray-400">
+                      {new Date(session.updatedAt).toLocaleString()} ·{" "}
+                      {describeAudio(session)} · at{" "}
+                      {formatTime(session.position)}
+                    </span>
+                  </span>
+                  <button
+                    onClick={() => onOpen(session.id)}
+                    disabled={session.id === currentSessionId}
+                    className={buttonClass}
+                  >
+                    <FolderOpen className="w-4 h-4" />
+                    Open
+                  </button>
+                  <button
+                    onClick={() => handleDelete(session.id)}
+                    disabled={session.id === currentSessionId}
+                    className={buttonClass}
+                    title={
+                      session.id === currentSessionId
+                        ? "The open session is saved as you work"
+                        : "Delete this session"
+                    }
+                    aria-label="Delete"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          {storage && (
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+              Using {formatSize(storage.usage)} of {formatSize(storage.quota)}{" "}
+              browser storage. Audio files that don't fit replace the audio of
+              the oldest sessions.
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default RecentSessions;
@@ -0,0 +1,117 @@
+import { useEffect, useState } from "react";
+import { Keyboard, X } from "lucide-react";
+import {
+  DEFAULT_BINDINGS,
+  SHORTCUT_LABELS,
+  comboFromEvent,
+  type ShortcutAction,
+  type ShortcutBindings,
+} from "../shortcuts";
+
+type ShortcutHelpProps = {
+  bindings: ShortcutBindings;
+  onChange: (bindings: ShortcutBindings) => void;
+  onClose: () => void;
+};
+
+function ShortcutHelp({ bindings, onChange, onClose }: ShortcutHelpProps) {
+  // Action waiting for its new key, if any
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+
+  useEffect(() => {
+    // Capture phase, so the app's own shortcut handler never sees these keys
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (recording) {
+        event.preventDefault();
+        event.stopPropagation();
+        if (event.key === "Escape") {
+          setRecording(null);
+          return;
+        }
+        const isClear = event.key === "Backspace" || event.key === "Delete";
+        const combo = isClear ? "" : comboFromEvent(event);
+        // Wait for the actual key after a bare modifier
+        if (!isClear && !combo) return;
+        // A key can only do one thing; take it away from its old action
+        const next = { ...bindings };
+        for (const action of Object.keys(next) as ShortcutAction[]) {
+          if (combo && next[action] === combo) next[action] = "";
+        }
+        next[recording] = combo;
+        onChange(next);
+        setRecording(null);
+      } else if (event.key === "Escape") {
+        event.stopPropagation();
+        onClose();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  }, [recording, bindings, onChange, onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 w-full max-w-lg max-h-full overflow-auto text-sm text-gray-700 dark:text-gray-300"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="flex items-center gap-2 text-lg font-bold text-gray-900 dark:text-white">
+            <Keyboard className="w-5 h-5" />
+            Keyboard Shortcuts
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+            title="Close (Esc)"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="mb-4 text-gray-500 dark:text-gray-400">
+          Click a key to change it, then press the new combination. Backspace
+          clears it, Esc cancels. Shortcuts are ignored while typing in a text
+          field.
+        </p>
+        <table className="w-full">
+          <tbody>
+            {(Object.keys(SHORTCUT_LABELS) as ShortcutAction[]).map(
+              (action) => (
+                <tr key={action}>
+                  <td className="py-1">{SHORTCUT_LABELS[action]}</td>
+                  <td className="py-1 text-right">
+                    <button
+                      onClick={() => setRecording(action)}
+                      className={`min-w-[6rem] px-2 py-1 font-mono text-xs rounded border transition-colors ${
+                        recording === action
+                          ? "border-indigo-500 bg-indigo-100 dark:bg-indigo-900/50"
+                          : "border-gray-300 dark:border-gray-600 bg-gray-100 dark:bg-gray-700 hover:bg-indigo-100 dark:hover:bg-indigo-900/50"
+                      }`}
+                    >
+                      {recording === action
+                        ? "Press a key…"
+                        : bindings[action] || "—"}
+                    </button>
+                  </td>
+                </tr>
+              )
+            )}
+          </tbody>
+        </table>
+        <div className="mt-4 flex justify-end">
+          <button
+            onClick={() => onChange({ ...DEFAULT_BINDINGS })}
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 text-white rounded-lg transition-colors"
+          >
+            Reset to defaults
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ShortcutHelp;
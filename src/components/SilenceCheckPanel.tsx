@@ -0,0 +1,217 @@
+import { useMemo, useState } from "react";
+import { AudioLines } from "lucide-react";
+import type { DecodedAudio } from "../audioAnalysis";
+import type { SubphraseTiming, WordTiming } from "../types";
+import type { TimingEdit } from "../timingEditor";
+import { detectVoiceActivity, findSilentSpans } from "../voiceActivity";
+import { formatTime } from "../time";
+
+type SilenceCheckPanelProps = {
+  audio: DecodedAudio | null;
+  timings: WordTiming[];
+  subphraseTimings: SubphraseTiming[];
+  onSeek: (time: number) => void;
+  onApply: (edits: TimingEdit[]) => void;
+};
+
+const MAX_LISTED_FINDINGS = 500;
+
+function SilenceCheckPanel({
+  audio,
+  timings,
+  subphraseTimings,
+  onSeek,
+  onApply,
+}: SilenceCheckPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  // Higher is more sensitive, i.e. a lower threshold
+  const [sensitivity, setSensitivity] = useState(0.65);
+  const [minVoicedShare, setMinVoicedShare] = useState(0.3);
+  const [maxSnapDistance, setMaxSnapDistance] = useState(1);
+
+  // Only the threshold depends on the sensitivity, but the energy pass is
+  // cheap next to decoding, so it simply reruns
+  const activity = useMemo(
+    () =>
+      isOpen && audio
+        ? detectVoiceActivity(audio, { thresholdPosition: 1 - sensitivity })
+        : null,
+    [isOpen, audio, sensitivity]
+  );
+
+  const findings = useMemo(
+    () =>
+      activity
+        ? findSilentSpans(activity, timings, subphraseTimings, {
+            minVoicedShare,
+            maxSnapDistance,
+          })
+        : [],
+    [activity, timings, subphraseTimings, minVoicedShare, maxSnapDistance]
+  );
+
+  const suggestedEdits = findings.flatMap((finding) =>
+    finding.kind === "word" && finding.suggestion
+      ? [{ index: finding.index, ...finding.suggestion }]
+      : []
+  );
+  const wordCount = findings.filter((f) => f.kind === "word").length;
+
+  const inputClass =
+    "w-20 p-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100";
+  const buttonClass =
+    "px-2 py-1 bg-gray-100 dark:bg-gray-700 hover:bg-indigo-100 dark:hover:bg-indigo-900/50 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="space-y-2">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 text-white rounded-lg transition-colors flex items-center gap-2"
+      >
+        <AudioLines className="w-4 h-4" />
+        Find words in silence
+      </button>
+      {isOpen && (
+        <div className="p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg text-sm text-gray-700 dark:text-gray-300 space-y-3">
+          {!audio ? (
+            <div className="text-gray-500 dark:text-gray-400">
+              Load audio to measure where speech is.
+            </div>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center gap-3">
+                <label className="flex items-center gap-2">
+                  Sensitivity
+                  <input
+                    type="range"
+                    min={0.2}
+                    max={0.95}
+                    step={0.05}
+                    value={sensitivity}
+                    onChange={(e) => setSensitivity(Number(e.target.value))}
+                  />
+                </label>
+                <label className="flex items-center gap-2">
+                  Flag below
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={5}
+                    value={Math.round(minVoicedShare * 100)}
+                    onChange={(e) =>
+                      setMinVoicedShare(
+                        Math.min(
+                          100,
+                          Math.max(0, Number(e.target.value) || 0)
+                        ) / 100
+                      )
+                    }
+                    className={inputClass}
+                  />
+                  % voiced
+                </label>
+                <label className="flex items-center gap-2">
+                  Snap within
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={maxSnapDistance}
+                    onChange={(e) =>
+                      setMaxSnapDistance(
+                        Math.max(0, Number(e.target.value) || 0)
+                      )
+                    }
+                    className={inputClass}
+                  />
+                  s
+                </label>
+                <button
+                  onClick={() => onApply(suggestedEdits)}
+                  disabled={suggestedEdits.length === 0}
+                  className={`${buttonClass} ml-auto`}
+                >
+                  Apply all {suggestedEdits.length} suggestions
+                </button>
+              </div>
+              {activity && (
+                <div className="text-xs text-gray-500 dark:text-gray-400">
+                  Speech threshold {activity.threshold.toFixed(1)} dBFS,{" "}
+                  {activity.regions.length} voiced regions. {wordCount} word
+                  {wordCount === 1 ? "" : "s"} and {findings.length - wordCount}{" "}
+                  subphrase
+                  {findings.length - wordCount === 1 ? "" : "s"} flagged.
+                </div>
+              )}
+              {findings.length === 0 ? (
+                <div className="text-green-600 dark:text-green-400">
+                  Everything falls on speech.
+                </div>
+              ) : (
+                <ul className="max-h-80 overflow-auto space-y-1">
+                  {findings.slice(0, MAX_LISTED_FINDINGS).map((finding) => (
+                    <li
+                      key={`${finding.kind}-${finding.index}`}
+                      className="flex flex-wrap items-center gap-2"
+                    >
+                      <button
+                        onClick={() => onSeek(finding.start)}
+                        className="flex-1 flex items-start gap-2 text-left px-2 py-1 rounded hover:bg-indigo-100 dark:hover:bg-indigo-900/50"
+                      >
+                        <span className="font-mono text-xs mt-0.5 shrink-0">
+                          {formatTime(finding.start)}
+                        </span>
+                        <span>
+                          {finding.kind === "subphrase" && (
+                            <strong>Subphrase </strong>
+                          )}
+                          “{finding.text}”{" "}
+                          <span className="text-gray-500 dark:text-gray-400">
+                            {Math.round(finding.voicedShare * 100)}% voiced
+                          </span>
+                        </span>
+                      </button>
+                      {finding.suggestion && (
+                        <>
+                          <button
+                            onClick={() => onSeek(finding.suggestion!.start)}
+                            className="font-mono text-xs text-indigo-600 dark:text-indigo-400 hover:underline"
+                            title="Listen to the suggested position"
+                          >
+                            → {formatTime(finding.suggestion.start)}–
+                            {formatTime(finding.suggestion.end)}
+                          </button>
+                          <button
+                            onClick={() =>
+                              onApply([
+                                {
+                                  index: finding.index,
+                                  ...finding.suggestion!,
+                                },
+                              ])
+                            }
+                            className={buttonClass}
+                          >
+                            Snap
+                          </button>
+                        </>
+                      )}
+                    </li>
+                  ))}
+                  {findings.length > MAX_LISTED_FINDINGS && (
+                    <li className="px-2 text-gray-500 dark:text-gray-400">
+                      …and {findings.length - MAX_LISTED_FINDINGS} more
+                    </li>
+                  )}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SilenceCheckPanel;
@@ -0,0 +1,91 @@
+import { Users } from "lucide-react";
+import {
+  LOW_SPEAKER_CONFIDENCE,
+  defaultSpeakerName,
+  speakerColor,
+  type SpeakerFilter,
+  type SpeakerFilterMode,
+} from "../speakers";
+
+type SpeakerLegendProps = {
+  speakers: string[];
+  speakerNames: Record<string, string>;
+  onRename: (speaker: string, name: string) => void;
+  filter: SpeakerFilter;
+  onFilterChange: (filter: SpeakerFilter) => void;
+  // Words whose diarization is below LOW_SPEAKER_CONFIDENCE
+  lowConfidenceCount: number;
+};
+
+function SpeakerLegend({
+  speakers,
+  speakerNames,
+  onRename,
+  filter,
+  onFilterChange,
+  lowConfidenceCount,
+}: SpeakerLegendProps) {
+  return (
+    <div className="p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg text-sm text-gray-700 dark:text-gray-300 space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex items-center gap-2 font-medium">
+          <Users className="w-4 h-4" />
+          Speakers
+        </div>
+        <select
+          value={filter.speaker ?? ""}
+          onChange={(e) =>
+            onFilterChange({ ...filter, speaker: e.target.value || null })
+          }
+          className="p-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+        >
+          <option value="">All speakers</option>
+          {speakers.map((speaker) => (
+            <option key={speaker} value={speaker}>
+              Only {speakerNames[speaker] || defaultSpeakerName(speaker)}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filter.mode}
+          onChange={(e) =>
+            onFilterChange({
+              ...filter,
+              mode: e.target.value as SpeakerFilterMode,
+            })
+          }
+          disabled={filter.speaker === null}
+          className="p-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 disabled:opacity-50"
+        >
+          <option value="highlight">Highlight their lines</option>
+          <option value="play">Play only their lines</option>
+        </select>
+      </div>
+      <div className="flex flex-wrap gap-3">
+        {speakers.map((speaker) => (
+          <label key={speaker} className="flex items-center gap-2">
+            <span
+              className="w-3 h-3 rounded-full shrink-0"
+              style={{ backgroundColor: speakerColor(speakers, speaker) }}
+            />
+            <input
+              type="text"
+              value={speakerNames[speaker] ?? ""}
+              placeholder={defaultSpeakerName(speaker)}
+              onChange={(e) => onRename(speaker, e.target.value)}
+              className="w-32 p-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+            />
+          </label>
+        ))}
+      </div>
+      {lowConfidenceCount > 0 && (
+        <div className="text-xs text-orange-600 dark:text-orange-400">
+          {lowConfidenceCount} words have a speaker confidence below{" "}
+          {LOW_SPEAKER_CONFIDENCE} and are underlined.
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SpeakerLegend;
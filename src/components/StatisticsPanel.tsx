@@ -0,0 +1,159 @@
+import { useMemo, useState } from "react";
+import { BarChart3 } from "lucide-react";
+import type { SentenceAlignment, Statistics, WordTiming } from "../types";
+import { STATISTICS_LABELS, computeDubStatistics } from "../dubStatistics";
+import { formatTime } from "../time";
+
+type StatisticsPanelProps = {
+  alignments: SentenceAlignment[];
+  // Values stored in the loaded file, if any
+  reportedStatistics: Partial<Statistics> | undefined;
+  timings: WordTiming[];
+  onSeek: (time: number) => void;
+};
+
+const MAX_LISTED_SENTENCES = 200;
+
+function formatStatistic(key: keyof Statistics, value: number | undefined) {
+  if (value === undefined) return "—";
+  return key.startsWith("fraction")
+    ? `${(value * 100).toFixed(1)}%`
+    : String(value);
+}
+
+function StatisticsPanel({
+  alignments,
+  reportedStatistics,
+  timings,
+  onSeek,
+}: StatisticsPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const report = useMemo(
+    () => (alignments.length > 0 ? computeDubStatistics(alignments) : null),
+    [alignments]
+  );
+
+  // Where each sentence starts in the dub, from the (possibly edited) words
+  const sentenceStarts = useMemo(() => {
+    const starts = new Map<number, number>();
+    for (const timing of timings) {
+      if (
+        timing.sentenceIndex === undefined ||
+        timing.language === "original"
+      ) {
+        continue;
+      }
+      const start = starts.get(timing.sentenceIndex);
+      if (start === undefined || timing.start < start) {
+        starts.set(timing.sentenceIndex, timing.start);
+      }
+    }
+    return starts;
+  }, [timings]);
+
+  const keys = Object.keys(STATISTICS_LABELS) as (keyof Statistics)[];
+
+  return (
+    <div className="space-y-2">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 text-white rounded-lg transition-colors flex items-center gap-2"
+      >
+        <BarChart3 className="w-4 h-4" />
+        Dubbing statistics
+      </button>
+      {isOpen && (
+        <div className="p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg text-sm text-gray-700 dark:text-gray-300 space-y-4">
+          <table className="w-full">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400">
+                <th className="font-medium pb-1">Metric</th>
+                <th className="font-medium pb-1 text-right">Reported</th>
+                <th className="font-medium pb-1 text-right">Recomputed</th>
+              </tr>
+            </thead>
+            <tbody>
+              {keys.map((key) => {
+                const reported = reportedStatistics?.[key];
+                const recomputed = report?.statistics[key];
+                const differs =
+                  typeof reported === "number" &&
+                  recomputed !== undefined &&
+                  Math.abs(reported - recomputed) > 1e-6;
+                return (
+                  <tr key={key}>
+                    <td className="py-0.5">{STATISTICS_LABELS[key]}</td>
+                    <td className="py-0.5 text-right font-mono">
+                      {formatStatistic(
+                        key,
+                        typeof reported === "number" ? reported : undefined
+                      )}
+                    </td>
+                    <td
+                      className={`py-0.5 text-right font-mono ${
+                        differs ? "text-orange-600 dark:text-orange-400" : ""
+                      }`}
+                    >
+                      {formatStatistic(key, recomputed)}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {!report ? (
+            <div className="text-gray-500 dark:text-gray-400">
+              This transcript has no subphrase alignment to recompute from.
+            </div>
+          ) : report.affectedSentences.length === 0 ? (
+            <div className="text-green-600 dark:text-green-400">
+              No sentences with diminished subphrases.
+            </div>
+          ) : (
+            <div className="space-y-1">
+              <div className="font-medium">
+                Affected sentences ({report.affectedSentences.length}), worst
+                first
+              </div>
+              <ul className="max-h-80 overflow-auto space-y-1">
+                {report.affectedSentences
+                  .slice(0, MAX_LISTED_SENTENCES)
+                  .map((sentence) => {
+                    const start = sentenceStarts.get(sentence.sentenceIndex);
+                    return (
+                      <li key={sentence.sentenceIndex}>
+                        <button
+                          onClick={() => start !== undefined && onSeek(start)}
+                          disabled={start === undefined}
+                          className="w-full flex items-start gap-2 text-left px-2 py-1 rounded hover:bg-indigo-100 dark:hover:bg-indigo-900/50 disabled:cursor-default"
+                        >
+                          <span className="font-mono text-xs mt-0.5 shrink-0">
+                            {start !== undefined ? formatTime(start) : "—"}
+                          </span>
+                          <span className="flex-1">
+                            <span className="block">
+                              {sentence.textTranslated}
+                            </span>
+                            <span className="block text-gray-500 dark:text-gray-400">
+                              {sentence.textOriginal}
+                            </span>
+                          </span>
+                          <span className="shrink-0 text-xs text-orange-600 dark:text-orange-400">
+                            {sentence.numDiminishedSubphrases}/
+                            {sentence.numSubphrases} diminished
+                          </span>
+                        </button>
+                      </li>
+                    );
+                  })}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default StatisticsPanel;
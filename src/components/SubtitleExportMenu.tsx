@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { Captions } from "lucide-react";
+import type { SubphraseTiming, WordTiming } from "../types";
+import {
+  DEFAULT_SUBTITLE_OPTIONS,
+  SUBTITLE_MIME_TYPES,
+  formatSubtitles,
+  type SubtitleFormat,
+  type SubtitleOptions,
+} from "../subtitles";
+import { downloadText } from "../download";
+
+type SubtitleExportMenuProps = {
+  timings: WordTiming[];
+  subphraseTimings: SubphraseTiming[];
+  baseFilename: string;
+};
+
+const FORMAT_LABELS: Record<SubtitleFormat, string> = {
+  srt: "SRT",
+  vtt: "WebVTT",
+  ass: "ASS (karaoke)",
+};
+
+const fieldClassName =
+  "p-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100";
+
+function SubtitleExportMenu({
+  timings,
+  subphraseTimings,
+  baseFilename,
+}: SubtitleExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [format, setFormat] = useState<SubtitleFormat>("srt");
+  const [options, setOptions] = useState<SubtitleOptions>(
+    DEFAULT_SUBTITLE_OPTIONS
+  );
+
+  const hasLanguages = timings.some((t) => t.language);
+
+  const handleExport = () => {
+    const text = formatSubtitles(format, timings, subphraseTimings, options);
+    downloadText(
+      text,
+      `${baseFilename}${hasLanguages ? `.${options.language}` : ""}.${format}`,
+      SUBTITLE_MIME_TYPES[format]
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 text-white rounded-lg transition-colors flex items-center gap-2"
+      >
+        <Captions className="w-4 h-4" />
+        Export subtitles
+      </button>
+      {isOpen && (
+        <div className="grid grid-cols-2 gap-3 p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg text-sm text-gray-700 dark:text-gray-300">
+          <label className="flex flex-col gap-1">
+            Format
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as SubtitleFormat)}
+              className={fieldClassName}
+            >
+              {Object.entries(FORMAT_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            Group cues by
+            <select
+              value={options.grouping}
+              onChange={(e) =>
+                setOptions({
+                  ...options,
+                  grouping: e.target.value as SubtitleOptions["grouping"],
+                })
+              }
+              className={fieldClassName}
+            >
+              <option value="sentence">Sentence</option>
+              <option value="subphrase" disabled={!subphraseTimings.length}>
+                Subphrase
+              </option>
+            </select>
+          </label>
+          {hasLanguages && (
+            <label className="flex flex-col gap-1">
+              Text
+              <select
+                value={options.language}
+                onChange={(e) =>
+                  setOptions({
+                    ...options,
+                    language: e.target.value as SubtitleOptions["language"],
+                  })
+                }
+                className={fieldClassName}
+              >
+                <option value="translated">Translated</option>
+                <option value="original">Original</option>
+              </select>
+            </label>
+          )}
+          <label className="flex flex-col gap-1">
+            Max line length (characters)
+            <input
+              type="number"
+              min={10}
+              value={options.maxLineLength}
+              onChange={(e) =>
+                setOptions({
+                  ...options,
+                  maxLineLength: Math.max(10, Number(e.target.value) || 0),
+                })
+              }
+              className={fieldClassName}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Max cue duration (seconds)
+            <input
+              type="number"
+              min={1}
+              step={0.5}
+              value={options.maxCueDuration}
+              onChange={(e) =>
+                setOptions({
+                  ...options,
+                  maxCueDuration: Math.max(1, Number(e.target.value) || 0),
+                })
+              }
+              className={fieldClassName}
+            />
+          </label>
+          <div className="col-span-2">
+            <button
+              onClick={handleExport}
+              className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 text-white rounded-lg transition-colors"
+            >
+              Download {FORMAT_LABELS[format]}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SubtitleExportMenu;
@@ -0,0 +1,479 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { ZoomIn, ZoomOut, Maximize2 } from "lucide-react";
+import type { SubphraseTiming, WordTiming } from "../types";
+import { getPeak, getSpectrum, type DecodedAudio } from "../audioAnalysis";
+import { usePlaybackTime, type PlaybackClock } from "../playbackClock";
+
+type TimelineProps = {
+  audio: DecodedAudio | null;
+  audioError: string;
+  duration: number;
+  clock: PlaybackClock;
+  isPlaying: boolean;
+  timings: WordTiming[];
+  subphraseTimings: SubphraseTiming[];
+  onSeek: (time: number) => void;
+  onWordClick: (timing: WordTiming) => void;
+};
+
+type Lane =
+  | { kind: "waveform"; label: string; height: number }
+  | { kind: "spectrogram"; label: string; height: number }
+  | { kind: "words"; label: string; height: number; words: WordTiming[] }
+  | {
+      kind: "subphrases";
+      label: string;
+      height: number;
+      subphrases: SubphraseTiming[];
+    };
+
+const WAVEFORM_HEIGHT = 80;
+const SPECTROGRAM_HEIGHT = 96;
+const LANE_HEIGHT = 24;
+const MIN_PX_PER_SECOND = 1;
+const MAX_PX_PER_SECOND = 2000;
+// Every n-th pixel column gets its own FFT frame
+const SPECTROGRAM_COLUMN_WIDTH = 2;
+const SPECTROGRAM_MIN_DB = -100;
+const SPECTROGRAM_MAX_DB = -30;
+
+const COLORS = {
+  background: "#111827",
+  laneSeparator: "#374151",
+  waveform: "#818cf8",
+  original: "#6366f1",
+  translated: "#10b981",
+  words: "#6366f1",
+  subphrase: "#f59e0b",
+  text: "#f9fafb",
+};
+
+function wordLabel(timing: WordTiming) {
+  return timing.punctuated_word || timing.word;
+}
+
+// Dark blue -> magenta -> yellow ramp for spectrogram intensities in [0, 1]
+function heatColor(value: number): [number, number, number] {
+  const v = Math.max(0, Math.min(1, value));
+  return [
+    Math.round(255 * Math.min(1, v * 2)),
+    Math.round(255 * Math.max(0, v * 2 - 1)),
+    Math.round(255 * (v < 0.5 ? 0.3 + v : Math.max(0, 1.6 - v * 1.6))),
+  ];
+}
+
+type PlayheadProps = {
+  clock: PlaybackClock;
+  viewStart: number;
+  scrollLeft: number;
+  pxPerSecond: number;
+  width: number;
+  height: number;
+};
+
+// Follows the clock on its own so the lanes aren't re-rendered every frame
+function Playhead({
+  clock,
+  viewStart,
+  scrollLeft,
+  pxPerSecond,
+  width,
+  height,
+}: PlayheadProps) {
+  const x = (usePlaybackTime(clock) - viewStart) * pxPerSecond;
+  if (x < 0 || x > width) return null;
+  return (
+    <div
+      className="absolute top-0 w-px bg-red-500 pointer-events-none"
+      style={{ left: scrollLeft + x, height }}
+    />
+  );
+}
+
+function Timeline({
+  audio,
+  audioError,
+  duration,
+  clock,
+  isPlaying,
+  timings,
+  subphraseTimings,
+  onSeek,
+  onWordClick,
+}: TimelineProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isScrubbing = useRef(false);
+  const [width, setWidth] = useState(0);
+  const [scrollLeft, setScrollLeft] = useState(0);
+  const [pxPerSecond, setPxPerSecond] = useState(100);
+  const [showSpectrogram, setShowSpectrogram] = useState(false);
+
+  const totalDuration = audio?.duration || duration;
+  const viewStart = scrollLeft / pxPerSecond;
+  const viewEnd = viewStart + width / pxPerSecond;
+
+  const lanes = useMemo(() => {
+    const result: Lane[] = [
+      { kind: "waveform", label: "Waveform", height: WAVEFORM_HEIGHT },
+    ];
+    if (showSpectrogram) {
+      result.push({
+        kind: "spectrogram",
+        label: "Spectrogram",
+        height: SPECTROGRAM_HEIGHT,
+      });
+    }
+    const original = timings.filter((t) => t.language === "original");
+    const translated = timings.filter((t) => t.language === "translated");
+    const unlabeled = timings.filter((t) => !t.language);
+    if (original.length > 0) {
+      result.push({
+        kind: "words",
+        label: "Original",
+        height: LANE_HEIGHT,
+        words: original,
+      });
+    }
+    if (translated.length > 0) {
+      result.push({
+        kind: "words",
+        label: "Translated",
+        height: LANE_HEIGHT,
+        words: translated,
+      });
+    }
+    if (unlabeled.length > 0) {
+      result.push({
+        kind: "words",
+        label: "Words",
+        height: LANE_HEIGHT,
+        words: unlabeled,
+      });
+    }
+    if (subphraseTimings.length > 0) {
+      result.push({
+        kind: "subphrases",
+        label: "Subphrases",
+        height: LANE_HEIGHT,
+        subphrases: subphraseTimings,
+      });
+    }
+    return result;
+  }, [timings, subphraseTimings, showSpectrogram]);
+
+  const totalHeight = lanes.reduce((sum, lane) => sum + lane.height, 0);
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(() => setWidth(element.clientWidth));
+    observer.observe(element);
+    setWidth(element.clientWidth);
+    return () => observer.disconnect();
+  }, []);
+
+  // Page along with the playhead while playing
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element || !isPlaying || width === 0) return;
+    const follow = () => {
+      const time = clock.getTime();
+      if (time < viewStart || time > viewEnd) {
+        element.scrollLeft = Math.max(0, time * pxPerSecond - width * 0.1);
+      }
+    };
+    follow();
+    return clock.subscribe(follow);
+  }, [clock, isPlaying, viewStart, viewEnd, pxPerSecond, width]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || width === 0) return;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = totalHeight * dpr;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.fillStyle = COLORS.background;
+    ctx.fillRect(0, 0, width, totalHeight);
+    ctx.font = "11px ui-sans-serif, system-ui, sans-serif";
+    ctx.textBaseline = "middle";
+
+    const xOf = (time: number) => (time - viewStart) * pxPerSecond;
+
+    let top = 0;
+    for (const lane of lanes) {
+      if (lane.kind === "waveform" && audio) {
+        const mid = top + lane.height / 2;
+        ctx.fillStyle = COLORS.waveform;
+        for (let x = 0; x < width; x++) {
+          const [min, max] = getPeak(
+            audio,
+            viewStart + x / pxPerSecond,
+            viewStart + (x + 1) / pxPerSecond
+          );
+          const y1 = mid - (max * lane.height) / 2;
+          const y2 = mid - (min * lane.height) / 2;
+          ctx.fillRect(x, y1, 1, Math.max(1, y2 - y1));
+        }
+      } else if (lane.kind === "spectrogram" && audio) {
+        const columns = Math.ceil(width / SPECTROGRAM_COLUMN_WIDTH);
+        const image = ctx.createImageData(columns, lane.height);
+        for (let c = 0; c < columns; c++) {
+          const time = viewStart + (c * SPECTROGRAM_COLUMN_WIDTH) / pxPerSecond;
+          if (time > audio.duration) break;
+          const spectrum = getSpectrum(audio, time);
+          for (let y = 0; y < lane.height; y++) {
+            // Low frequencies at the bottom
+            const bin = Math.floor(
+              ((lane.height - 1 - y) / lane.height) * spectrum.length
+            );
+            const [r, g, b] = heatColor(
+              (spectrum[bin] - SPECTROGRAM_MIN_DB) /
+                (SPECTROGRAM_MAX_DB - SPECTROGRAM_MIN_DB)
+            );
+            const offset = (y * columns + c) * 4;
+            image.data[offset] = r;
+            image.data[offset + 1] = g;
+            image.data[offset + 2] = b;
+            image.data[offset + 3] = 255;
+          }
+        }
+        // Draw at column resolution, then stretch to the lane width
+        const scratch = document.createElement("canvas");
+        scratch.width = columns;
+        scratch.height = lane.height;
+        scratch.getContext("2d")?.putImageData(image, 0, 0);
+        ctx.imageSmoothingEnabled = false;
+        ctx.drawImage(
+          scratch,
+          0,
+          top,
+          columns * SPECTROGRAM_COLUMN_WIDTH,
+          lane.height
+        );
+      } else if (lane.kind === "words" || lane.kind === "subphrases") {
+        const items =
+          lane.kind === "words"
+            ? lane.words.map((w) => ({
+                start: w.start,
+                end: w.end,
+                label: wordLabel(w),
+                color: w.language ? COLORS[w.language] : COLORS.words,
+              }))
+            : lane.subphrases.map((s) => ({
+                start: s.start,
+                end: s.end,
+                label: s.textTranslated || s.textOriginal,
+                color: COLORS.subphrase,
+              }));
+        for (const item of items) {
+          if (item.end < viewStart || item.start > viewEnd) continue;
+          const x = xOf(item.start);
+          const w = Math.max(1, (item.end - item.start) * pxPerSecond);
+          ctx.fillStyle = item.color;
+          ctx.globalAlpha = 0.8;
+          ctx.fillRect(x, top + 2, w - 1, lane.height - 4);
+          ctx.globalAlpha = 1;
+          if (w > 16) {
+            ctx.save();
+            ctx.beginPath();
+            ctx.rect(x, top, w - 2, lane.height);
+            ctx.clip();
+            ctx.fillStyle = COLORS.text;
+            ctx.fillText(item.label, x + 3, top + lane.height / 2);
+            ctx.restore();
+          }
+        }
+      }
+      top += lane.height;
+      ctx.fillStyle = COLORS.laneSeparator;
+      ctx.fillRect(0, top - 1, width, 1);
+    }
+  }, [audio, lanes, width, totalHeight, viewStart, viewEnd, pxPerSecond]);
+
+  const timeAt = (clientX: number) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    const time = viewStart + (clientX - rect.left) / pxPerSecond;
+    return Math.max(0, Math.min(totalDuration || time, time));
+  };
+
+  const laneAt = (clientY: number) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    let y = clientY - rect.top;
+    for (const lane of lanes) {
+      if (y < lane.height) return lane;
+      y -= lane.height;
+    }
+    return undefined;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const time = timeAt(e.clientX);
+    const lane = laneAt(e.clientY);
+    if (lane?.kind === "words") {
+      const word = lane.words.find((w) => w.start <= time && time <= w.end);
+      if (word) {
+        onWordClick(word);
+        return;
+      }
+    }
+    if (lane?.kind === "subphrases") {
+      const subphrase = lane.subphrases.find(
+        (s) => s.start <= time && time <= s.end
+      );
+      if (subphrase) {
+        onSeek(subphrase.start);
+        return;
+      }
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    isScrubbing.current = true;
+    onSeek(time);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (isScrubbing.current) onSeek(timeAt(e.clientX));
+  };
+
+  const handlePointerUp = () => {
+    isScrubbing.current = false;
+  };
+
+  const zoom = (factor: number, anchorTime = clock.getTime()) => {
+    const next = Math.max(
+      MIN_PX_PER_SECOND,
+      Math.min(MAX_PX_PER_SECOND, pxPerSecond * factor)
+    );
+    setPxPerSecond(next);
+    // Keep the anchor at the same screen position after zooming
+    const anchorX = (anchorTime - viewStart) * pxPerSecond;
+    requestAnimationFrame(() => {
+      if (scrollRef.current) {
+        scrollRef.current.scrollLeft = Math.max(0, anchorTime * next - anchorX);
+      }
+    });
+  };
+
+  const fitToWidth = () => {
+    if (totalDuration > 0 && width > 0) {
+      setPxPerSecond(
+        Math.max(
+          MIN_PX_PER_SECOND,
+          Math.min(MAX_PX_PER_SECOND, width / totalDuration)
+        )
+      );
+      if (scrollRef.current) scrollRef.current.scrollLeft = 0;
+    }
+  };
+
+  const handleWheel = (e: WheelEvent) => {
+    if (!e.ctrlKey && !e.metaKey) return;
+    e.preventDefault();
+    zoom(e.deltaY < 0 ? 1.25 : 0.8, timeAt(e.clientX));
+  };
+  const wheelHandlerRef = useRef(handleWheel);
+  wheelHandlerRef.current = handleWheel;
+
+  // React registers wheel listeners as passive, so zooming needs a native one
+  // to be able to cancel page scrolling
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const listener = (e: WheelEvent) => wheelHandlerRef.current(e);
+    element.addEventListener("wheel", listener, { passive: false });
+    return () => element.removeEventListener("wheel", listener);
+  }, []);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+        <button
+          onClick={() => zoom(0.5)}
+          className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+          title="Zoom out"
+        >
+          <ZoomOut className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => zoom(2)}
+          className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+          title="Zoom in"
+        >
+          <ZoomIn className="w-4 h-4" />
+        </button>
+        <button
+          onClick={fitToWidth}
+          className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+          title="Fit whole file"
+        >
+          <Maximize2 className="w-4 h-4" />
+        </button>
+        <span className="font-mono text-xs text-gray-500 dark:text-gray-400">
+          {Math.round(pxPerSecond)} px/s
+        </span>
+        <label className="ml-auto flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={showSpectrogram}
+            onChange={(e) => setShowSpectrogram(e.target.checked)}
+            className="w-4 h-4 text-indigo-600 bg-gray-100 border-gray-300 rounded focus:ring-indigo-500 dark:bg-gray-700 dark:border-gray-600"
+          />
+          Spectrogram
+        </label>
+      </div>
+      {!audio && (
+        <div className="text-xs text-gray-500 dark:text-gray-400">
+          {audioError || "Decoding audio..."}
+        </div>
+      )}
+      <div className="flex">
+        <div className="flex flex-col text-[10px] text-gray-500 dark:text-gray-400 pr-2">
+          {lanes.map((lane) => (
+            <div
+              key={lane.label}
+              style={{ height: lane.height }}
+              className="flex items-center justify-end"
+            >
+              {lane.label}
+            </div>
+          ))}
+        </div>
+        <div
+          ref={scrollRef}
+          className="relative flex-1 overflow-x-auto overflow-y-hidden rounded"
+          onScroll={(e) => setScrollLeft(e.currentTarget.scrollLeft)}
+        >
+          <div
+            style={{
+              width: Math.max(width, totalDuration * pxPerSecond),
+              height: totalHeight,
+            }}
+          >
+            <canvas
+              ref={canvasRef}
+              className="sticky left-0 block cursor-crosshair"
+              style={{ width, height: totalHeight }}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            />
+          </div>
+          <Playhead
+            clock={clock}
+            viewStart={viewStart}
+            scrollLeft={scrollLeft}
+            pxPerSecond={pxPerSecond}
+            width={width}
+            height={totalHeight}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default Timeline;
@@ -0,0 +1,184 @@
+import { useMemo, useState } from "react";
+import { AlertCircle, AlertTriangle, ClipboardCheck } from "lucide-react";
+import type { SubphraseTiming, WordTiming } from "../types";
+import {
+  TIMING_RULE_LABELS,
+  checkTimings,
+  findingsToCsv,
+  type TimingRule,
+} from "../timingChecks";
+import { downloadJson, downloadText } from "../download";
+import { formatTime } from "../time";
+
+type TimingCheckPanelProps = {
+  timings: WordTiming[];
+  subphraseTimings: SubphraseTiming[];
+  duration: number;
+  baseFilename: string;
+  onSeek: (time: number) => void;
+};
+
+const MAX_LISTED_FINDINGS = 500;
+
+function TimingCheckPanel({
+  timings,
+  subphraseTimings,
+  duration,
+  baseFilename,
+  onSeek,
+}: TimingCheckPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [gapThreshold, setGapThreshold] = useState(2);
+  const [ruleFilter, setRuleFilter] = useState<TimingRule | "all">("all");
+
+  // Re-run as timings are edited so fixes show up straight away
+  const findings = useMemo(
+    () =>
+      isOpen
+        ? checkTimings(timings, subphraseTimings, { duration, gapThreshold })
+        : [],
+    [isOpen, timings, subphraseTimings, duration, gapThreshold]
+  );
+
+  const countsByRule = useMemo(() => {
+    const counts = new Map<TimingRule, number>();
+    for (const finding of findings) {
+      counts.set(finding.rule, (counts.get(finding.rule) ?? 0) + 1);
+    }
+    return counts;
+  }, [findings]);
+
+  const visible =
+    ruleFilter === "all"
+      ? findings
+      : findings.filter((finding) => finding.rule === ruleFilter);
+
+  const handleExportJson = () => {
+    downloadJson(
+      {
+        generatedAt: new Date().toISOString(),
+        source: baseFilename,
+        options: { duration, gapThreshold },
+        summary: Object.fromEntries(countsByRule),
+        findings,
+      },
+      `${baseFilename}-timing-report.json`
+    );
+  };
+
+  const handleExportCsv = () => {
+    downloadText(
+      findingsToCsv(findings),
+      `${baseFilename}-timing-report.csv`,
+      "text/csv"
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 text-white rounded-lg transition-colors flex items-center gap-2"
+      >
+        <ClipboardCheck className="w-4 h-4" />
+        Check timings
+      </button>
+      {isOpen && (
+        <div className="p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg text-sm text-gray-700 dark:text-gray-300 space-y-3">
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-2">
+              Flag gaps longer than
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={gapThreshold}
+                onChange={(e) =>
+                  setGapThreshold(Math.max(0, Number(e.target.value) || 0))
+                }
+                className="w-20 p-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+              />
+              s
+            </label>
+            <select
+              value={ruleFilter}
+              onChange={(e) =>
+                setRuleFilter(e.target.value as TimingRule | "all")
+              }
+              className="p-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+            >
+              <option value="all">All findings ({findings.length})</option>
+              {Object.entries(TIMING_RULE_LABELS).map(([rule, label]) => (
+                <option key={rule} value={rule}>
+                  {label} ({countsByRule.get(rule as TimingRule) ?? 0})
+                </option>
+              ))}
+            </select>
+            <div className="ml-auto flex gap-2">
+              <button
+                onClick={handleExportJson}
+                className="px-2 py-1 bg-gray-100 dark:bg-gray-700 hover:bg-indigo-100 dark:hover:bg-indigo-900/50 rounded transition-colors"
+              >
+                Export JSON
+              </button>
+              <button
+                onClick={handleExportCsv}
+                className="px-2 py-1 bg-gray-100 dark:bg-gray-700 hover:bg-indigo-100 dark:hover:bg-indigo-900/50 rounded transition-colors"
+              >
+                Export CSV
+              </button>
+            </div>
+          </div>
+          {duration === 0 && (
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+              Load audio to also check words against its duration.
+            </div>
+          )}
+          {findings.length === 0 ? (
+            <div className="text-green-600 dark:text-green-400">
+              No timing problems found.
+            </div>
+          ) : (
+            <ul className="max-h-80 overflow-auto space-y-1">
+              {visible.slice(0, MAX_LISTED_FINDINGS).map((finding, i) => (
+                <li key={i}>
+                  <button
+                    onClick={() => onSeek(Math.max(0, finding.start))}
+                    className="w-full flex items-start gap-2 text-left px-2 py-1 rounded hover:bg-indigo-100 dark:hover:bg-indigo-900/50"
+                  >
+                    {finding.severity === "error" ? (
+                      <AlertCircle className="w-4 h-4 mt-0.5 shrink-0 text-red-600 dark:text-red-400" />
+                    ) : (
+                      <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0 text-orange-600 dark:text-orange-400" />
+                    )}
+                    <span className="font-mono text-xs mt-0.5 shrink-0">
+                      {formatTime(finding.start)}
+                    </span>
+                    <span>
+                      <strong>{TIMING_RULE_LABELS[finding.rule]}</strong>
+                      {finding.text && <> “{finding.text}”</>} {finding.message}
+                      {finding.language && (
+                        <span className="text-gray-500 dark:text-gray-400">
+                          {" "}
+                          ({finding.language})
+                        </span>
+                      )}
+                    </span>
+                  </button>
+                </li>
+              ))}
+              {visible.length > MAX_LISTED_FINDINGS && (
+                <li className="px-2 text-gray-500 dark:text-gray-400">
+                  …and {visible.length - MAX_LISTED_FINDINGS} more (export to
+                  see all)
+                </li>
+              )}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TimingCheckPanel;
@@ -0,0 +1,214 @@
+import { useState } from "react";
+import { Crosshair, FileDown, MoveHorizontal } from "lucide-react";
+import type { WordTiming } from "../types";
+import {
+  IDENTITY_CORRECTION,
+  isIdentityCorrection,
+  solveCalibration,
+  type TimingCorrection,
+} from "../timingCorrection";
+import { formatTime } from "../time";
+import type { PlaybackClock } from "../playbackClock";
+
+type TimingCorrectionPanelProps = {
+  correction: TimingCorrection;
+  onCorrectionChange: (correction: TimingCorrection) => void;
+  // Uncorrected timing of the dub word under the playhead or selected for
+  // editing; the correction doesn't apply to original-language words
+  currentWord: WordTiming | undefined;
+  clock: PlaybackClock;
+  canExport: boolean;
+  onApply: () => void;
+  onExport: () => void;
+};
+
+type PendingPoint = {
+  text: string;
+  transcriptTime: number;
+  audioTime?: number;
+};
+
+const POINT_LABELS = ["Start", "End"];
+
+function TimingCorrectionPanel({
+  correction,
+  onCorrectionChange,
+  currentWord,
+  clock,
+  canExport,
+  onApply,
+  onExport,
+}: TimingCorrectionPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [points, setPoints] = useState<(PendingPoint | null)[]>([null, null]);
+
+  const [first, second] = points;
+  const solved =
+    first?.audioTime !== undefined && second?.audioTime !== undefined
+      ? solveCalibration(
+          { transcriptTime: first.transcriptTime, audioTime: first.audioTime },
+          { transcriptTime: second.transcriptTime, audioTime: second.audioTime }
+        )
+      : null;
+
+  const setPoint = (index: number, point: PendingPoint | null) =>
+    setPoints(points.map((p, i) => (i === index ? point : p)));
+
+  // Drift is easier to judge as milliseconds gained per minute
+  const driftPerMinute = Math.round((correction.scale - 1) * 60000);
+
+  const buttonClass =
+    "px-2 py-1 bg-gray-100 dark:bg-gray-700 hover:bg-indigo-100 dark:hover:bg-indigo-900/50 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+  const inputClass =
+    "w-28 p-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100";
+
+  return (
+    <div className="space-y-2">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 text-white rounded-lg transition-colors flex items-center gap-2"
+      >
+        <MoveHorizontal className="w-4 h-4" />
+        Offset & drift
+        {!isIdentityCorrection(correction) && " (active)"}
+      </button>
+      {isOpen && (
+        <div className="p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg text-sm text-gray-700 dark:text-gray-300 space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-2">
+              Offset
+              <input
+                type="number"
+                step={10}
+                value={Math.round(correction.offset * 1000)}
+                onChange={(e) =>
+                  onCorrectionChange({
+                    ...correction,
+                    offset: (Number(e.target.value) || 0) / 1000,
+                  })
+                }
+                className={inputClass}
+              />
+              ms
+            </label>
+            <label className="flex items-center gap-2">
+              Stretch
+              <input
+                type="number"
+                min={0.5}
+                max={2}
+                step={0.0001}
+                value={correction.scale}
+                onChange={(e) => {
+                  const scale = Number(e.target.value);
+                  if (scale > 0) onCorrectionChange({ ...correction, scale });
+                }}
+                className={inputClass}
+              />
+              <span className="text-gray-500 dark:text-gray-400">
+                ({driftPerMinute >= 0 ? "+" : ""}
+                {driftPerMinute} ms/min)
+              </span>
+            </label>
+            <button
+              onClick={() => onCorrectionChange(IDENTITY_CORRECTION)}
+              disabled={isIdentityCorrection(correction)}
+              className={buttonClass}
+            >
+              Reset
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            <div className="font-medium">Two-point calibration</div>
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+              Pick a word near the start and one near the end, then move the
+              playhead to where each is actually heard.
+            </div>
+            {points.map((point, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2">
+                <span className="w-10">{POINT_LABELS[index]}</span>
+                <button
+                  onClick={() =>
+                    currentWord &&
+                    setPoint(index, {
+                      text: currentWord.punctuated_word || currentWord.word,
+                      transcriptTime: currentWord.start,
+                    })
+                  }
+                  disabled={!currentWord}
+                  className={buttonClass}
+                >
+                  Use current word
+                </button>
+                <button
+                  onClick={() =>
+                    point &&
+                    setPoint(index, { ...point, audioTime: clock.getTime() })
+                  }
+                  disabled={!point}
+                  className={`${buttonClass} flex items-center gap-1`}
+                >
+                  <Crosshair className="w-3 h-3" />
+                  It's actually here
+                </button>
+                {point && (
+                  <span className="font-mono text-xs">
+                    “{point.text}” {formatTime(point.transcriptTime)} →{" "}
+                    {point.audioTime !== undefined
+                      ? formatTime(point.audioTime)
+                      : "?"}
+                  </span>
+                )}
+              </div>
+            ))}
+            {first?.audioTime !== undefined &&
+              second?.audioTime !== undefined && (
+                <div className="flex flex-wrap items-center gap-2">
+                  {solved ? (
+                    <>
+                      <span>
+                        Offset {Math.round(solved.offset * 1000)} ms, stretch{" "}
+                        {solved.scale.toFixed(6)}
+                      </span>
+                      <button
+                        onClick={() => onCorrectionChange(solved)}
+                        className={buttonClass}
+                      >
+                        Use calibration
+                      </button>
+                    </>
+                  ) : (
+                    <span className="text-orange-600 dark:text-orange-400">
+                      Pick two different words, the second one after the first.
+                    </span>
+                  )}
+                </div>
+              )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={onApply}
+              disabled={isIdentityCorrection(correction)}
+              className={buttonClass}
+              title="Make the corrected times the new timings (can be undone in edit mode)"
+            >
+              Apply to timings
+            </button>
+            <button
+              onClick={onExport}
+              disabled={!canExport}
+              className={`${buttonClass} flex items-center gap-1`}
+            >
+              <FileDown className="w-4 h-4" />
+              Export corrected JSON
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TimingCorrectionPanel;
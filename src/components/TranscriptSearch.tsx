@@ -0,0 +1,169 @@
+import { useMemo, useState } from "react";
+import { ChevronDown, ChevronUp, Search } from "lucide-react";
+import type { WordTiming } from "../types";
+import {
+  searchTranscript,
+  type SearchLanguage,
+  type SearchMatch,
+} from "../transcriptSearch";
+import { formatTime } from "../time";
+
+type TranscriptSearchProps = {
+  timings: WordTiming[];
+  onSeek: (time: number) => void;
+};
+
+const MAX_LISTED_MATCHES = 500;
+
+function TranscriptSearch({ timings, onSeek }: TranscriptSearchProps) {
+  const [query, setQuery] = useState("");
+  const [regex, setRegex] = useState(false);
+  const [language, setLanguage] = useState<SearchLanguage>("all");
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+
+  const hasLanguages = useMemo(
+    () => timings.some((timing) => timing.language !== undefined),
+    [timings]
+  );
+
+  const { matches, error } = useMemo((): {
+    matches: SearchMatch[];
+    error: string;
+  } => {
+    try {
+      return {
+        matches: searchTranscript(timings, query, { regex, language }),
+        error: "",
+      };
+    } catch (error) {
+      return {
+        matches: [],
+        error: error instanceof Error ? error.message : "Invalid pattern",
+      };
+    }
+  }, [timings, query, regex, language]);
+
+  const goTo = (index: number) => {
+    if (matches.length === 0) return;
+    const wrapped = (index + matches.length) % matches.length;
+    setActiveIndex(wrapped);
+    onSeek(matches[wrapped].start);
+  };
+
+  const goNext = () => goTo(activeIndex === null ? 0 : activeIndex + 1);
+  const goPrevious = () =>
+    goTo(activeIndex === null ? matches.length - 1 : activeIndex - 1);
+
+  const resetActive = () => setActiveIndex(null);
+
+  return (
+    <div className="p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg text-sm text-gray-700 dark:text-gray-300 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex flex-1 min-w-[12rem] items-center gap-2 p-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700">
+          <Search className="w-4 h-4 text-gray-400 shrink-0" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              resetActive();
+            }}
+            onKeyDown={(e) => {
+              if (e.key !== "Enter") return;
+              e.preventDefault();
+              if (e.shiftKey) goPrevious();
+              else goNext();
+            }}
+            placeholder="Search transcript"
+            className="flex-1 min-w-0 bg-transparent outline-none text-gray-900 dark:text-gray-100"
+          />
+        </div>
+        <span className="text-gray-500 dark:text-gray-400 tabular-nums">
+          {query &&
+            (activeIndex !== null
+              ? `${activeIndex + 1} / ${matches.length}`
+              : `${matches.length} matches`)}
+        </span>
+        <button
+          onClick={goPrevious}
+          disabled={matches.length === 0}
+          title="Previous match (Shift+Enter)"
+          className="p-1 bg-gray-100 dark:bg-gray-700 hover:bg-indigo-100 dark:hover:bg-indigo-900/50 rounded transition-colors disabled:opacity-50"
+        >
+          <ChevronUp className="w-4 h-4" />
+        </button>
+        <button
+          onClick={goNext}
+          disabled={matches.length === 0}
+          title="Next match (Enter)"
+          className="p-1 bg-gray-100 dark:bg-gray-700 hover:bg-indigo-100 dark:hover:bg-indigo-900/50 rounded transition-colors disabled:opacity-50"
+        >
+          <ChevronDown className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={regex}
+            onChange={(e) => {
+              setRegex(e.target.checked);
+              resetActive();
+            }}
+            className="w-4 h-4 text-indigo-600 bg-gray-100 border-gray-300 rounded focus:ring-indigo-500 dark:bg-gray-700 dark:border-gray-600"
+          />
+          Regular expression
+        </label>
+        {hasLanguages && (
+          <select
+            value={language}
+            onChange={(e) => {
+              setLanguage(e.target.value as SearchLanguage);
+              resetActive();
+            }}
+            className="p-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+          >
+            <option value="all">Both languages</option>
+            <option value="original">Original only</option>
+            <option value="translated">Translated only</option>
+          </select>
+        )}
+      </div>
+      {error && <div className="text-red-600 dark:text-red-400">{error}</div>}
+      {matches.length > 0 && (
+        <ul className="max-h-60 overflow-auto space-y-1">
+          {matches.slice(0, MAX_LISTED_MATCHES).map((match, i) => (
+            <li key={`${match.firstIndex}-${i}`}>
+              <button
+                onClick={() => goTo(i)}
+                className={`w-full flex items-start gap-2 text-left px-2 py-1 rounded ${
+                  i === activeIndex
+                    ? "bg-indigo-600 dark:bg-indigo-500 text-white"
+                    : "hover:bg-indigo-100 dark:hover:bg-indigo-900/50"
+                }`}
+              >
+                <span className="font-mono text-xs mt-0.5 shrink-0">
+                  {formatTime(match.start)}
+                </span>
+                <span className="flex-1">{match.text}</span>
+                {match.language && (
+                  <span className="text-xs opacity-70 shrink-0">
+                    {match.language}
+                  </span>
+                )}
+              </button>
+            </li>
+          ))}
+          {matches.length > MAX_LISTED_MATCHES && (
+            <li className="px-2 text-gray-500 dark:text-gray-400">
+              …and {matches.length - MAX_LISTED_MATCHES} more (use next/previous
+              to reach them)
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default TranscriptSearch;
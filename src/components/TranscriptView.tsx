@@ -0,0 +1,311 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { LocateFixed } from "lucide-react";
+import type { SubphraseTiming, WordTiming } from "../types";
+import { formatTime } from "../time";
+import { EPSILON, TimeIndex } from "../timeIndex";
+import { usePlaybackSelector, type PlaybackClock } from "../playbackClock";
+
+type TranscriptViewProps = {
+  timings: WordTiming[];
+  clock: PlaybackClock;
+  // Words and subphrase under the playhead, if any
+  activeWords: WordTiming[];
+  activeSubphrase: SubphraseTiming | undefined;
+  selectedTiming: WordTiming | undefined;
+  onWordClick: (timing: WordTiming) => void;
+  getWordStyle?: (timing: WordTiming) => React.CSSProperties;
+};
+
+type Row = {
+  key: string;
+  sentenceIndex: number | undefined;
+  start: number;
+  end: number;
+  // Untagged words share the translated line
+  original: WordTiming[];
+  translated: WordTiming[];
+};
+
+// Height assumed for rows that haven't been rendered yet
+const ESTIMATED_ROW_HEIGHT = 64;
+// Extra pixels rendered above and below the viewport
+const OVERSCAN = 400;
+// Words without a sentence index are chunked into rows of this size
+const UNGROUPED_ROW_SIZE = 20;
+
+function buildRows(timings: WordTiming[]): Row[] {
+  const rows: Row[] = [];
+  const bySentence = new Map<number, Row>();
+  let ungrouped: Row | undefined;
+
+  for (const timing of timings) {
+    let row: Row | undefined;
+    if (timing.sentenceIndex !== undefined) {
+      ungrouped = undefined;
+      row = bySentence.get(timing.sentenceIndex);
+      if (!row) {
+        row = {
+          key: `s${timing.sentenceIndex}`,
+          sentenceIndex: timing.sentenceIndex,
+          start: timing.start,
+          end: timing.end,
+          original: [],
+          translated: [],
+        };
+        bySentence.set(timing.sentenceIndex, row);
+        rows.push(row);
+      }
+    } else {
+      if (
+        !ungrouped ||
+        ungrouped.original.length + ungrouped.translated.length >=
+          UNGROUPED_ROW_SIZE
+      ) {
+        ungrouped = {
+          key: `w${rows.length}`,
+          sentenceIndex: undefined,
+          start: timing.start,
+          end: timing.end,
+          original: [],
+          translated: [],
+        };
+        rows.push(ungrouped);
+      }
+      row = ungrouped;
+    }
+    row.start = Math.min(row.start, timing.start);
+    row.end = Math.max(row.end, timing.end);
+    (timing.language === "original" ? row.original : row.translated).push(
+      timing
+    );
+  }
+  return rows;
+}
+
+// Index of the last offset <= value
+function findRow(offsets: number[], value: number) {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (offsets[mid] <= value) low = mid;
+    else high = mid - 1;
+  }
+  return Math.max(0, low);
+}
+
+/**
+ * Every sentence of the transcript in a scrolling pane. Only the rows near
+ * the viewport are rendered; their heights are measured as they appear and
+ * estimated until then.
+ */
+function TranscriptView({
+  timings,
+  clock,
+  activeWords,
+  activeSubphrase,
+  selectedTiming,
+  onWordClick,
+  getWordStyle,
+}: TranscriptViewProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const observerRef = useRef<ResizeObserver | null>(null);
+  // Measured row heights by row key
+  const [heights, setHeights] = useState(() => new Map<string, number>());
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [isFollowing, setIsFollowing] = useState(true);
+
+  const rows = useMemo(() => buildRows(timings), [timings]);
+  const rowIndex = useMemo(
+    () =>
+      new TimeIndex(
+        rows.map((row, index) => ({ start: row.start, end: row.end, index }))
+      ),
+    [rows]
+  );
+
+  // offsets[i] is the top of row i; the last entry is the total height
+  const offsets = useMemo(() => {
+    const result = [0];
+    for (const row of rows) {
+      result.push(
+        result[result.length - 1] +
+          (heights.get(row.key) ?? ESTIMATED_ROW_HEIGHT)
+      );
+    }
+    return result;
+  }, [rows, heights]);
+
+  useEffect(() => {
+    const observer = new ResizeObserver((entries) => {
+      const measured = new Map<string, number>();
+      for (const entry of entries) {
+        const target = entry.target as HTMLElement;
+        // Rows scrolled out of the window are unmounted; forget them
+        if (!target.isConnected) {
+          observer.unobserve(target);
+          continue;
+        }
+        const key = target.dataset.rowKey;
+        if (key) measured.set(key, target.offsetHeight);
+      }
+      if (measured.size === 0) return;
+      setHeights((previous) =>
+        [...measured].every(([key, height]) => previous.get(key) === height)
+          ? previous
+          : new Map([...previous, ...measured])
+      );
+    });
+    observerRef.current = observer;
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(() =>
+      setViewportHeight(element.clientHeight)
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // First row spanning the playhead; only a change of row re-renders
+  const activeRowIndex = usePlaybackSelector(clock, (time) => {
+    const indexes = rowIndex
+      .findOverlapping(time)
+      .filter((row) => time >= row.start && time <= row.end)
+      .map((row) => row.index);
+    return indexes.length > 0 ? Math.min(...indexes) : -1;
+  });
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!isFollowing || !element || activeRowIndex === -1) return;
+    const top = offsets[activeRowIndex];
+    const bottom = offsets[activeRowIndex + 1];
+    // Re-centre only when the active row drifts out of the middle half
+    const margin = element.clientHeight / 4;
+    if (
+      top < element.scrollTop + margin ||
+      bottom > element.scrollTop + element.clientHeight - margin
+    ) {
+      element.scrollTop = Math.max(
+        0,
+        top - (element.clientHeight - (bottom - top)) / 2
+      );
+    }
+  }, [activeRowIndex, isFollowing, offsets]);
+
+  const measureRow = (element: HTMLDivElement | null) => {
+    if (element) observerRef.current?.observe(element);
+  };
+
+  // Wheel, touch and scrollbar drags are the user's; our own scrollTop
+  // writes only fire scroll events, so they don't stop following
+  const stopFollowing = () => setIsFollowing(false);
+
+  const first = findRow(offsets, scrollTop - OVERSCAN);
+  const last = findRow(offsets, scrollTop + viewportHeight + OVERSCAN);
+  const visibleRows = rows.slice(first, last + 1);
+
+  const isInActiveSubphrase = (timing: WordTiming) => {
+    if (!activeSubphrase) return false;
+    const [start, end] =
+      timing.language === "original"
+        ? [activeSubphrase.startOriginal, activeSubphrase.endOriginal]
+        : [activeSubphrase.start, activeSubphrase.end];
+    return timing.start >= start - EPSILON && timing.end <= end + EPSILON;
+  };
+
+  const renderWords = (words: WordTiming[]) =>
+    words.map((timing, i) => {
+      const isActive = activeWords.includes(timing);
+      return (
+        <React.Fragment key={i}>
+          {i > 0 && " "}
+          <span
+            onClick={() => onWordClick(timing)}
+            style={getWordStyle?.(timing)}
+            className={`cursor-pointer rounded px-0.5 transition-colors ${
+              isActive
+                ? "bg-indigo-600 dark:bg-indigo-500 text-white"
+                : isInActiveSubphrase(timing)
+                ? "bg-amber-200 dark:bg-amber-500/30"
+                : "hover:bg-indigo-100 dark:hover:bg-indigo-900/50"
+            } ${timing === selectedTiming ? "ring-2 ring-yellow-400" : ""}`}
+          >
+            {timing.punctuated_word || timing.word}
+          </span>
+        </React.Fragment>
+      );
+    });
+
+  return (
+    <div className="relative">
+      <div
+        ref={scrollRef}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        onWheel={stopFollowing}
+        onTouchMove={stopFollowing}
+        onKeyDown={stopFollowing}
+        onPointerDown={(e) => {
+          // Only the scrollbar; clicks on words keep following
+          if (e.target === e.currentTarget) stopFollowing();
+        }}
+        className="h-96 overflow-y-auto bg-gray-50 dark:bg-gray-700/50 rounded-lg"
+      >
+        <div
+          style={{ height: offsets[offsets.length - 1] }}
+          className="relative"
+        >
+          <div
+            className="absolute left-0 right-0"
+            style={{ top: offsets[first] }}
+          >
+            {visibleRows.map((row, i) => (
+              <div
+                key={row.key}
+                ref={measureRow}
+                data-row-key={row.key}
+                className={`flex gap-3 px-4 py-2 ${
+                  first + i === activeRowIndex
+                    ? "bg-indigo-50 dark:bg-indigo-900/20"
+                    : ""
+                }`}
+              >
+                <span className="font-mono text-xs text-gray-500 dark:text-gray-400 pt-1 shrink-0">
+                  {formatTime(row.start)}
+                </span>
+                <div className="flex-1 min-w-0">
+                  {row.translated.length > 0 && (
+                    <p className="text-gray-900 dark:text-gray-100">
+                      {renderWords(row.translated)}
+                    </p>
+                  )}
+                  {row.original.length > 0 && (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      {renderWords(row.original)}
+                    </p>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+      {!isFollowing && (
+        <button
+          onClick={() => setIsFollowing(true)}
+          className="absolute bottom-3 right-5 flex items-center gap-2 px-3 py-1 text-sm bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 text-white rounded-lg shadow transition-colors"
+        >
+          <LocateFixed className="w-4 h-4" />
+          Follow playback
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default TranscriptView;
@@ -0,0 +1,65 @@
+import { useState } from "react";
+import { AlertCircle, AlertTriangle } from "lucide-react";
+import { formatJsonPath, type ValidationIssue } from "../validation";
+
+type ValidationReportProps = {
+  issues: ValidationIssue[];
+};
+
+// Rendering thousands of rows for a badly broken file helps nobody
+const MAX_LISTED_ISSUES = 200;
+
+function ValidationReport({ issues }: ValidationReportProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (issues.length === 0) return null;
+
+  const errorCount = issues.filter((i) => i.severity === "error").length;
+  const warningCount = issues.length - errorCount;
+  // Errors first, keeping document order within each severity
+  const sorted = [
+    ...issues.filter((i) => i.severity === "error"),
+    ...issues.filter((i) => i.severity === "warning"),
+  ];
+
+  return (
+    <div className="p-4 bg-orange-50 dark:bg-orange-900/30 rounded-lg text-sm text-orange-800 dark:text-orange-300 space-y-2">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="flex items-center gap-2 w-full text-left"
+      >
+        <AlertTriangle className="w-4 h-4 shrink-0" />
+        <span>
+          The loaded JSON has {errorCount} error{errorCount === 1 ? "" : "s"}{" "}
+          and {warningCount} warning{warningCount === 1 ? "" : "s"}.
+          {/* Errors are only raised on fields the loader reads */}
+          {errorCount > 0 && " Malformed items were skipped."}
+        </span>
+        <span className="ml-auto underline">
+          {isExpanded ? "Hide" : "Show"} details
+        </span>
+      </button>
+      {isExpanded && (
+        <ul className="max-h-64 overflow-auto font-mono text-xs space-y-1">
+          {sorted.slice(0, MAX_LISTED_ISSUES).map((issue, i) => (
+            <li key={i} className="flex items-start gap-2">
+              {issue.severity === "error" ? (
+                <AlertCircle className="w-3 h-3 mt-0.5 shrink-0 text-red-600 dark:text-red-400" />
+              ) : (
+                <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+              )}
+              <span>
+                {formatJsonPath(issue.path)}: {issue.message}
+              </span>
+            </li>
+          ))}
+          {sorted.length > MAX_LISTED_ISSUES && (
+            <li>…and {sorted.length - MAX_LISTED_ISSUES} more</li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default ValidationReport;
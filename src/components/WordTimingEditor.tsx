@@ -0,0 +1,201 @@
+import React, { useRef, useState } from "react";
+import type { WordTiming } from "../types";
+import {
+  clampWordTiming,
+  neighbourBounds,
+  type TimingEdge,
+} from "../timingEditor";
+import { usePlaybackTime, type PlaybackClock } from "../playbackClock";
+
+type WordTimingEditorProps = {
+  timing: WordTiming;
+  prev: WordTiming | undefined;
+  next: WordTiming | undefined;
+  clock: PlaybackClock;
+  // Edge the 10ms/100ms jump buttons move while editing
+  nudgeEdge: TimingEdge;
+  onNudgeEdgeChange: (edge: TimingEdge) => void;
+  onChange: (start: number, end: number) => void;
+  onSeek: (time: number) => void;
+};
+
+// Seconds of context shown around the word when it has no neighbour
+const CONTEXT_PADDING = 0.5;
+
+function WordTimingEditor({
+  timing,
+  prev,
+  next,
+  clock,
+  nudgeEdge,
+  onNudgeEdgeChange,
+  onChange,
+  onSeek,
+}: WordTimingEditorProps) {
+  const currentTime = usePlaybackTime(clock);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [dragEdge, setDragEdge] = useState<TimingEdge | null>(null);
+  // Local preview while dragging; committed to history on pointer up
+  const [preview, setPreview] = useState<{ start: number; end: number } | null>(
+    null
+  );
+
+  const bounds = neighbourBounds(timing, prev, next);
+  const start = preview?.start ?? timing.start;
+  const end = preview?.end ?? timing.end;
+
+  const windowStart = Math.max(
+    0,
+    Math.min(prev?.start ?? timing.start - CONTEXT_PADDING, start)
+  );
+  const windowEnd = Math.max(next?.end ?? timing.end + CONTEXT_PADDING, end);
+  const windowLength = Math.max(windowEnd - windowStart, 0.001);
+
+  const toPercent = (time: number) =>
+    `${((time - windowStart) / windowLength) * 100}%`;
+
+  const timeFromClientX = (clientX: number) => {
+    const rect = trackRef.current!.getBoundingClientRect();
+    const fraction = Math.max(
+      0,
+      Math.min(1, (clientX - rect.left) / rect.width)
+    );
+    return windowStart + fraction * windowLength;
+  };
+
+  const handlePointerDown = (edge: TimingEdge) => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
+    (e.target as HTMLElement).setPointerCapture(e.pointerId);
+    setDragEdge(edge);
+    setPreview({ start: timing.start, end: timing.end });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragEdge || !trackRef.current) return;
+    const time = timeFromClientX(e.clientX);
+    setPreview(
+      dragEdge === "start"
+        ? clampWordTiming(time, end, "start", bounds)
+        : clampWordTiming(start, time, "end", bounds)
+    );
+  };
+
+  const handlePointerUp = () => {
+    if (!dragEdge) return;
+    if (
+      preview &&
+      (preview.start !== timing.start || preview.end !== timing.end)
+    ) {
+      onChange(preview.start, preview.end);
+    }
+    setDragEdge(null);
+    setPreview(null);
+  };
+
+  const setToPlayhead = (edge: TimingEdge) => {
+    const clamped =
+      edge === "start"
+        ? clampWordTiming(currentTime, timing.end, "start", bounds)
+        : clampWordTiming(timing.start, currentTime, "end", bounds);
+    onChange(clamped.start, clamped.end);
+  };
+
+  const renderEdgeRow = (edge: TimingEdge) => (
+    <div className="flex items-center gap-3">
+      <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+        <input
+          type="radio"
+          name="nudge-edge"
+          checked={nudgeEdge === edge}
+          onChange={() => onNudgeEdgeChange(edge)}
+          className="w-4 h-4 text-indigo-600 focus:ring-indigo-500"
+        />
+        Nudge {edge}
+      </label>
+      <button
+        onClick={() => setToPlayhead(edge)}
+        className="px-2 py-1 text-xs bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-gray-100 hover:bg-indigo-100 dark:hover:bg-indigo-900/50 rounded transition-colors"
+        title={`Set ${edge} to the current playback position`}
+      >
+        Set to playhead
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between font-mono text-xs text-gray-700 dark:text-gray-300">
+        <span>start {start.toFixed(3)}</span>
+        <span className="text-base text-gray-900 dark:text-gray-100">
+          {timing.punctuated_word || timing.word}
+        </span>
+        <span>end {end.toFixed(3)}</span>
+      </div>
+      <div
+        ref={trackRef}
+        className="relative h-12 bg-gray-100 dark:bg-gray-700 rounded cursor-pointer select-none"
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onClick={(e) => onSeek(timeFromClientX(e.clientX))}
+      >
+        {[prev, next].map(
+          (neighbour, i) =>
+            neighbour && (
+              <div
+                key={i}
+                className="absolute top-2 bottom-2 bg-gray-300 dark:bg-gray-600 rounded text-[10px] overflow-hidden whitespace-nowrap px-1 text-gray-600 dark:text-gray-300"
+                style={{
+                  left: toPercent(Math.max(neighbour.start, windowStart)),
+                  width: `${
+                    ((Math.min(neighbour.end, windowEnd) -
+                      Math.max(neighbour.start, windowStart)) /
+                      windowLength) *
+                    100
+                  }%`,
+                }}
+              >
+                {neighbour.punctuated_word || neighbour.word}
+              </div>
+            )
+        )}
+        <div
+          className="absolute top-1 bottom-1 bg-indigo-600/70 dark:bg-indigo-500/70 rounded"
+          style={{
+            left: toPercent(start),
+            width: `${((end - start) / windowLength) * 100}%`,
+          }}
+        />
+        {(["start", "end"] as const).map((edge) => (
+          <div
+            key={edge}
+            onPointerDown={handlePointerDown(edge)}
+            onClick={(e) => e.stopPropagation()}
+            className={`absolute top-0 bottom-0 w-2 -ml-1 rounded cursor-ew-resize ${
+              dragEdge === edge
+                ? "bg-yellow-400"
+                : "bg-indigo-300 hover:bg-yellow-300"
+            }`}
+            style={{ left: toPercent(edge === "start" ? start : end) }}
+            title={`Drag to change ${edge}`}
+          />
+        ))}
+        {currentTime >= windowStart && currentTime <= windowEnd && (
+          <div
+            className="absolute top-0 bottom-0 w-px bg-red-500 pointer-events-none"
+            style={{ left: toPercent(currentTime) }}
+          />
+        )}
+      </div>
+      {renderEdgeRow("start")}
+      {renderEdgeRow("end")}
+      <div className="text-xs text-gray-500 dark:text-gray-400">
+        The 10ms and 100ms jump buttons and their shortcuts move the chosen edge
+        while a word is selected.
+      </div>
+    </div>
+  );
+}
+
+export default WordTimingEditor;
@@ -0,0 +1,204 @@
+/**
+ * Framework-free timing logic shared by the app and the `word-timing` CLI:
+ * format detection, normalization, validation and export. Nothing in here
+ * (or anything it imports) may touch React or the DOM, so it runs on Node.
+ */
+import type { WordTiming } from "./types";
+import {
+  detectTranscriptFormat,
+  getTranscriptFormat,
+  readTranscript,
+  type TranscriptReadResult,
+} from "./formats";
+import { detectCaptionFormat, extractCaptionTimings } from "./captions";
+import { extractAudioKey } from "./audioKey";
+import {
+  computeDubStatistics,
+  type DubStatisticsReport,
+} from "./dubStatistics";
+
+export type {
+  JsonPath,
+  SentenceAlignment,
+  Statistics,
+  SubphraseTiming,
+  WordTiming,
+} from "./types";
+export {
+  TRANSCRIPT_FORMATS,
+  detectTranscriptFormat,
+  getTranscriptFormat,
+  readTranscript,
+  type FormatDetection,
+  type NormalizedTranscript,
+  type TranscriptFormat,
+  type TranscriptReadResult,
+} from "./formats";
+export {
+  detectCaptionFormat,
+  extractCaptionTimings,
+  type CaptionFormat,
+} from "./captions";
+export {
+  extractAudioKey,
+  findAudioLocation,
+  findAudioLocations,
+  DEFAULT_AUDIO_PATHS,
+  DEFAULT_ORIGINAL_AUDIO_PATHS,
+  type AudioLocation,
+} from "./audioKey";
+export { EPSILON, TimeIndex } from "./timeIndex";
+export { formatTime } from "./time";
+export { formatJsonPath, type ValidationIssue } from "./validation";
+export {
+  TIMING_RULE_LABELS,
+  checkTimings,
+  findingsToCsv,
+  type TimingCheckOptions,
+  type TimingFinding,
+} from "./timingChecks";
+export {
+  DEFAULT_SUBTITLE_OPTIONS,
+  formatSubtitles,
+  type SubtitleFormat,
+  type SubtitleOptions,
+} from "./subtitles";
+export {
+  STATISTICS_LABELS,
+  computeDubStatistics,
+  type DubStatisticsReport,
+} from "./dubStatistics";
+export { applyTimingEdits } from "./timingEditor";
+
+export type ParsedTranscript = TranscriptReadResult & {
+  // Transcript format id, or "srt", "vtt" or "ttml" for caption files
+  format: string;
+  formatLabel: string;
+  // Parsed JSON; null for caption files
+  data: unknown;
+  audioKey: string;
+};
+
+/**
+ * Reads a transcript file's text the way the app does: caption files first,
+ * then JSON with the best matching format, or `formatId` when given.
+ * Throws when nothing can be read.
+ */
+export function parseTranscript(
+  text: string,
+  formatId?: string
+): ParsedTranscript {
+  if (!text.trim()) throw new Error("The transcript is empty");
+
+  // SRT, WebVTT and TTML captions carry no JSON to export edits back into
+  const captionTimings = extractCaptionTimings(text);
+  if (captionTimings) {
+    if (captionTimings.length === 0) {
+      throw new Error("No cues found in the caption file");
+    }
+    const captionFormat = detectCaptionFormat(text) ?? "";
+    return {
+      timings: captionTimings,
+      subphraseTimings: [],
+      issues: [],
+      format: captionFormat,
+      formatLabel: captionFormat.toUpperCase(),
+      data: null,
+      audioKey: "",
+    };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(
+      `Invalid JSON format${error instanceof Error ? `: ${error.message}` : ""}`
+    );
+  }
+
+  const format = formatId
+    ? getTranscriptFormat(formatId)
+    : detectTranscriptFormat(data).format;
+  if (!format) {
+    throw new Error(
+      formatId
+        ? `Unknown transcript format "${formatId}"`
+        : "Unrecognized transcript format"
+    );
+  }
+  return {
+    ...readTranscript(format, data),
+    format: format.id,
+    formatLabel: format.label,
+    data,
+    audioKey: extractAudioKey(text),
+  };
+}
+
+export type TranscriptSummary = {
+  words: number;
+  // Words per language tag; untagged words count as "words"
+  wordsByLanguage: Record<string, number>;
+  sentences: number;
+  subphrases: number;
+  speakers: string[];
+  start: number;
+  end: number;
+  meanWordDuration: number;
+  // Recomputed from the subphrase alignment, for formats that carry one
+  dubStatistics?: DubStatisticsReport["statistics"];
+};
+
+export function summarizeTranscript(
+  transcript: TranscriptReadResult
+): TranscriptSummary {
+  const { timings, subphraseTimings } = transcript;
+  const wordsByLanguage: Record<string, number> = {};
+  const sentences = new Set<number>();
+  const speakers = new Set<string>();
+  let start = Infinity;
+  let end = -Infinity;
+  let totalDuration = 0;
+  for (const timing of timings) {
+    const language = timing.language ?? "words";
+    wordsByLanguage[language] = (wordsByLanguage[language] ?? 0) + 1;
+    if (timing.sentenceIndex !== undefined) sentences.add(timing.sentenceIndex);
+    if (timing.speaker !== undefined) speakers.add(String(timing.speaker));
+    start = Math.min(start, timing.start);
+    end = Math.max(end, timing.end);
+    totalDuration += timing.end - timing.start;
+  }
+
+  return {
+    words: timings.length,
+    wordsByLanguage,
+    sentences: sentences.size,
+    subphrases: subphraseTimings.length,
+    speakers: [...speakers],
+    start: timings.length > 0 ? start : 0,
+    end: timings.length > 0 ? end : 0,
+    meanWordDuration: timings.length > 0 ? totalDuration / timings.length : 0,
+    dubStatistics:
+      transcript.alignments && transcript.alignments.length > 0
+        ? computeDubStatistics(transcript.alignments).statistics
+        : undefined,
+  };
+}
+
+/**
+ * Flattens timings to the plain word list format from the README, which the
+ * app and this library read back as "Word list", sentence grouping included.
+ */
+export function toWordList(timings: WordTiming[]) {
+  return timings.map((timing) => ({
+    word: timing.word,
+    punctuatedWord: timing.punctuated_word,
+    start: timing.start,
+    end: timing.end,
+    confidence: timing.probability,
+    language: timing.language,
+    speaker: timing.speaker,
+    sentenceIndex: timing.sentenceIndex,
+  }));
+}
@@ -0,0 +1,107 @@
+import type { SearchLanguage } from "./transcriptSearch";
+import type { SpeakerFilterMode } from "./speakers";
+import { formatTime } from "./time";
+
+// What a shared link opens: where to load from, where to go and how to show it
+export type DeepLink = {
+  // Transcript JSON URL
+  json?: string;
+  // Audio URL or storage key
+  audio?: string;
+  // Playhead in seconds
+  time?: number;
+  loop?: { start: number; end: number };
+  language?: SearchLanguage;
+  persistWords?: boolean;
+  speaker?: string;
+  speakerMode?: SpeakerFilterMode;
+};
+
+const LANGUAGES: SearchLanguage[] = ["all", "original", "translated"];
+const SPEAKER_MODES: SpeakerFilterMode[] = ["highlight", "play"];
+
+/**
+ * Reads "754.2", "12:34" or "1:02:03.5" as seconds; undefined for anything
+ * else.
+ */
+export function parseTimestamp(value: string): number | undefined {
+  const parts = value.trim().split(":");
+  if (parts.length > 3 || parts.some((part) => !/^\d+(\.\d+)?$/.test(part))) {
+    return undefined;
+  }
+  return parts.reduce((total, part) => total * 60 + Number(part), 0);
+}
+
+function parseRange(value: string) {
+  const [start, end] = value.split("-").map(parseTimestamp);
+  return start !== undefined && end !== undefined && end > start
+    ? { start, end }
+    : undefined;
+}
+
+function pickFrom<T extends string>(options: T[], value: string | null) {
+  return options.find((option) => option === value);
+}
+
+/**
+ * Reads a link from the query string and hash, the hash winning where both
+ * set a parameter. Unknown and malformed parameters are ignored.
+ */
+export function parseDeepLink(search: string, hash: string): DeepLink {
+  const params = new URLSearchParams(search);
+  new URLSearchParams(hash.replace(/^#/, "")).forEach((value, key) =>
+    params.set(key, value)
+  );
+
+  const link: DeepLink = {};
+  const json = params.get("json");
+  if (json) link.json = json;
+  const audio = params.get("audio");
+  if (audio) link.audio = audio;
+  const time = params.get("t");
+  if (time) link.time = parseTimestamp(time);
+  const loop = params.get("loop");
+  if (loop) link.loop = parseRange(loop);
+  link.language = pickFrom(LANGUAGES, params.get("lang"));
+  const persist = params.get("persist");
+  if (persist === "0" || persist === "1") link.persistWords = persist === "1";
+  const speaker = params.get("speaker");
+  if (speaker) link.speaker = speaker;
+  link.speakerMode = pickFrom(SPEAKER_MODES, params.get("speakerMode"));
+  return link;
+}
+
+// Whether the link says what to load, rather than only how to show it
+export function hasDeepLinkSource(link: DeepLink) {
+  return link.json !== undefined || link.audio !== undefined;
+}
+
+/**
+ * Writes the link into the hash of `base`, so the parameters never reach
+ * the server. Times are written as m:ss.mmm to stay readable.
+ */
+export function buildDeepLink(base: string, link: DeepLink): string {
+  const params = new URLSearchParams();
+  if (link.json) params.set("json", link.json);
+  if (link.audio) params.set("audio", link.audio);
+  if (link.time !== undefined) params.set("t", formatTime(link.time));
+  if (link.loop) {
+    params.set(
+      "loop",
+      `${formatTime(link.loop.start)}-${formatTime(link.loop.end)}`
+    );
+  }
+  if (link.language && link.language !== "all") {
+    params.set("lang", link.language);
+  }
+  if (link.persistWords !== undefined) {
+    params.set("persist", link.persistWords ? "1" : "0");
+  }
+  if (link.speaker) params.set("speaker", link.speaker);
+  if (link.speakerMode && link.speakerMode !== "highlight") {
+    params.set("speakerMode", link.speakerMode);
+  }
+  const url = new URL(base);
+  url.hash = params.toString();
+  return url.toString();
+}
@@ -0,0 +1,15 @@
+export function downloadText(text: string, filename: string, type: string) {
+  const blob = new Blob([text], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 100);
+}
+
+export function downloadJson(data: unknown, filename: string) {
+  downloadText(JSON.stringify(data, null, 2), filename, "application/json");
+}
@@ -0,0 +1,148 @@
+import type { SentenceAlignment, Statistics } from "./types";
+
+/**
+ * A subphrase is diminished when one side of the alignment lost all its
+ * words: the translation dropped the original words ("Original" counts), or
+ * the dub says something the original didn't ("Translated" counts).
+ */
+export type SentenceStatistics = {
+  sentenceIndex: number;
+  textOriginal: string;
+  textTranslated: string;
+  numSubphrases: number;
+  numDiminishedSubphrases: number;
+  // Subphrases whose original words have no translated counterpart
+  numDiminishedOriginal: number;
+  // Subphrases whose translated words have no original counterpart
+  numDiminishedTranslated: number;
+  // Words sitting in diminished subphrases
+  numDiminishedWordsOriginal: number;
+  numDiminishedWordsTranslated: number;
+};
+
+export type DubStatisticsReport = {
+  statistics: Statistics;
+  // Sentences with at least one diminished subphrase, worst first
+  affectedSentences: SentenceStatistics[];
+};
+
+export const STATISTICS_LABELS: Record<keyof Statistics, string> = {
+  numSentencesWithDiminishedSubphrases: "Sentences with diminished subphrases",
+  numSentencesWithDiminishedSubphrasesOriginal:
+    "…diminished on the original side",
+  numSentencesWithDiminishedSubphrasesTranslated:
+    "…diminished on the translated side",
+  numDiminishedSubphrases: "Diminished subphrases",
+  fractionDiminishedSentences: "Share of sentences diminished",
+  fractionDiminishedSubphrases: "Share of subphrases diminished",
+  fractionDiminishedSubphraseWords: "Share of words in diminished subphrases",
+  fractionDiminishedSubphraseWordsOriginal: "…original words",
+  fractionDiminishedSubphraseWordsTranslated: "…translated words",
+};
+
+function fraction(part: number, whole: number) {
+  return whole === 0 ? 0 : part / whole;
+}
+
+function sentenceStatistics(alignment: SentenceAlignment): SentenceStatistics {
+  const stats: SentenceStatistics = {
+    sentenceIndex: alignment.sentenceIndex,
+    textOriginal: alignment.originalWords.join(" "),
+    textTranslated: alignment.translatedWords.join(" "),
+    numSubphrases: alignment.subphrases.length,
+    numDiminishedSubphrases: 0,
+    numDiminishedOriginal: 0,
+    numDiminishedTranslated: 0,
+    numDiminishedWordsOriginal: 0,
+    numDiminishedWordsTranslated: 0,
+  };
+  for (const subphrase of alignment.subphrases) {
+    const original = subphrase.originalWordIndices.length;
+    const translated = subphrase.translatedWordIndices.length;
+    if (original > 0 && translated === 0) {
+      stats.numDiminishedOriginal++;
+      stats.numDiminishedWordsOriginal += original;
+    } else if (translated > 0 && original === 0) {
+      stats.numDiminishedTranslated++;
+      stats.numDiminishedWordsTranslated += translated;
+    } else {
+      continue;
+    }
+    stats.numDiminishedSubphrases++;
+  }
+  return stats;
+}
+
+/**
+ * Recomputes the `Statistics` a dubbing job reports from the loaded subphrase
+ * alignment. Word fractions are taken over the words covered by subphrases.
+ */
+export function computeDubStatistics(
+  alignments: SentenceAlignment[]
+): DubStatisticsReport {
+  const sentences = alignments.map(sentenceStatistics);
+
+  let numSubphrases = 0;
+  let numWordsOriginal = 0;
+  let numWordsTranslated = 0;
+  for (const alignment of alignments) {
+    numSubphrases += alignment.subphrases.length;
+    for (const subphrase of alignment.subphrases) {
+      numWordsOriginal += subphrase.originalWordIndices.length;
+      numWordsTranslated += subphrase.translatedWordIndices.length;
+    }
+  }
+
+  const sum = (key: keyof SentenceStatistics) =>
+    sentences.reduce((total, s) => total + (s[key] as number), 0);
+  const count = (key: keyof SentenceStatistics) =>
+    sentences.filter((s) => (s[key] as number) > 0).length;
+
+  const numDiminishedSubphrases = sum("numDiminishedSubphrases");
+  const diminishedWordsOriginal = sum("numDiminishedWordsOriginal");
+  const diminishedWordsTranslated = sum("numDiminishedWordsTranslated");
+  const numSentencesWithDiminishedSubphrases = count("numDiminishedSubphrases");
+
+  const statistics: Statistics = {
+    numSentencesWithDiminishedSubphrases,
+    numSentencesWithDiminishedSubphrasesOriginal: count(
+      "numDiminishedOriginal"
+    ),
+    numSentencesWithDiminishedSubphrasesTranslated: count(
+      "numDiminishedTranslated"
+    ),
+    numDiminishedSubphrases,
+    fractionDiminishedSentences: fraction(
+      numSentencesWithDiminishedSubphrases,
+      sentences.length
+    ),
+    fractionDiminishedSubphrases: fraction(
+      numDiminishedSubphrases,
+      numSubphrases
+    ),
+    fractionDiminishedSubphraseWords: fraction(
+      diminishedWordsOriginal + diminishedWordsTranslated,
+      numWordsOriginal + numWordsTranslated
+    ),
+    fractionDiminishedSubphraseWordsOriginal: fraction(
+      diminishedWordsOriginal,
+      numWordsOriginal
+    ),
+    fractionDiminishedSubphraseWordsTranslated: fraction(
+      diminishedWordsTranslated,
+      numWordsTranslated
+    ),
+  };
+
+  const affectedSentences = sentences
+    .filter((s) => s.numDiminishedSubphrases > 0)
+    .sort(
+      (a, b) =>
+        b.numDiminishedSubphrases - a.numDiminishedSubphrases ||
+        b.numDiminishedWordsOriginal +
+          b.numDiminishedWordsTranslated -
+          (a.numDiminishedWordsOriginal + a.numDiminishedWordsTranslated)
+    );
+
+  return { statistics, affectedSentences };
+}
@@ -0,0 +1,59 @@
+import type { WordTiming } from "../types";
+import type { TranscriptFormat } from "./types";
+import { assignSentencesByPunctuation, firstOf, isRecord } from "./shared";
+import { assemblyAISchema } from "./schemas";
+import { validate } from "../validation";
+
+type AssemblyAIWord = {
+  text: string;
+  // Milliseconds
+  start: number;
+  end: number;
+  confidence?: number;
+  // Speaker label ("A", "B", ...) when speaker_labels is enabled
+  speaker?: string | null;
+};
+
+type AssemblyAITranscript = {
+  words: AssemblyAIWord[];
+};
+
+// AssemblyAI transcript object; times are integer milliseconds
+export const assemblyAIFormat: TranscriptFormat = {
+  id: "assemblyai",
+  label: "AssemblyAI",
+  detect: (data) => {
+    if (!isRecord(data)) return 0;
+    const word = firstOf(data.words);
+    if (
+      !isRecord(word) ||
+      typeof word.text !== "string" ||
+      !Number.isInteger(word.start)
+    ) {
+      return 0;
+    }
+    return "audio_url" in data || "acoustic_model" in data ? 3 : 2;
+  },
+  validate: (data) => validate(assemblyAISchema, data),
+  normalize: (data) => {
+    const doc = data as AssemblyAITranscript;
+    const timings: WordTiming[] = [];
+    doc.words.forEach((word, wi) => {
+      if (!isRecord(word)) return;
+      timings.push({
+        word: word.text,
+        start: word.start / 1000,
+        end: word.end / 1000,
+        probability: word.confidence,
+        speaker: word.speaker ?? undefined,
+        sourcePath: ["words", wi],
+      });
+    });
+    assignSentencesByPunctuation(timings);
+    return { timings, subphraseTimings: [] };
+  },
+  writeTiming: (target, timing) => {
+    target.start = Math.round(timing.start * 1000);
+    target.end = Math.round(timing.end * 1000);
+  },
+};
@@ -0,0 +1,80 @@
+import type { WordTiming } from "../types";
+import type { TranscriptFormat } from "./types";
+import { assignSentencesByPunctuation, isRecord } from "./shared";
+import { awsTranscribeSchema } from "./schemas";
+import { validate } from "../validation";
+
+type AwsTranscribeItem = {
+  type: "pronunciation" | "punctuation";
+  // Seconds as decimal strings; absent on punctuation items
+  start_time?: string;
+  end_time?: string;
+  alternatives: { confidence: string; content: string }[];
+  // Set on newer outputs when speaker identification is enabled
+  speaker_label?: string;
+};
+
+type AwsTranscribeOutput = {
+  results: {
+    items: AwsTranscribeItem[];
+    // Older outputs list speakers separately, keyed by item start time
+    speaker_labels?: {
+      segments: {
+        items: { start_time: string; speaker_label: string }[];
+      }[];
+    };
+  };
+};
+
+// Amazon Transcribe job output; punctuation arrives as separate untimed items
+export const awsTranscribeFormat: TranscriptFormat = {
+  id: "aws-transcribe",
+  label: "Amazon Transcribe",
+  detect: (data) => {
+    if (!isRecord(data) || !isRecord(data.results)) return 0;
+    return Array.isArray(data.results.items) ? 3 : 0;
+  },
+  validate: (data) => validate(awsTranscribeSchema, data),
+  normalize: (data) => {
+    const doc = data as AwsTranscribeOutput;
+    const timings: WordTiming[] = [];
+    const speakersByStart = new Map<string, string>();
+    for (const segment of doc.results.speaker_labels?.segments ?? []) {
+      for (const item of segment.items ?? []) {
+        speakersByStart.set(item.start_time, item.speaker_label);
+      }
+    }
+
+    doc.results.items.forEach((item, i) => {
+      if (!isRecord(item)) return;
+      const content = item.alternatives?.[0]?.content ?? "";
+      if (item.type === "punctuation") {
+        const previous = timings.at(-1);
+        if (previous) {
+          previous.punctuated_word =
+            (previous.punctuated_word || previous.word) + content;
+        }
+        return;
+      }
+      if (item.start_time === undefined || item.end_time === undefined) {
+        return;
+      }
+      const confidence = Number(item.alternatives?.[0]?.confidence);
+      timings.push({
+        word: content,
+        start: Number(item.start_time),
+        end: Number(item.end_time),
+        probability: Number.isNaN(confidence) ? undefined : confidence,
+        speaker: item.speaker_label ?? speakersByStart.get(item.start_time),
+        sourcePath: ["results", "items", i],
+      });
+    });
+
+    assignSentencesByPunctuation(timings);
+    return { timings, subphraseTimings: [] };
+  },
+  writeTiming: (target, timing) => {
+    target.start_time = timing.start.toFixed(3);
+    target.end_time = timing.end.toFixed(3);
+  },
+};
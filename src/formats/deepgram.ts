@@ -0,0 +1,115 @@
+import type { WordTiming } from "../types";
+import type { TranscriptFormat } from "./types";
+import {
+  assignSentencesByPunctuation,
+  assignSentencesByRanges,
+  firstOf,
+  isNumber,
+  isRecord,
+} from "./shared";
+import { deepgramSchema } from "./schemas";
+import { validate } from "../validation";
+
+type DeepgramWord = {
+  word: string;
+  punctuated_word?: string;
+  start: number;
+  end: number;
+  confidence?: number;
+  // Present when requested with diarize=true
+  speaker?: number;
+  speaker_confidence?: number;
+};
+
+type DeepgramAlternative = {
+  transcript: string;
+  words: DeepgramWord[];
+  paragraphs?: {
+    paragraphs: { sentences: { start: number; end: number }[] }[];
+  };
+};
+
+type DeepgramResponse = {
+  results: {
+    channels: { alternatives: DeepgramAlternative[] }[];
+  };
+};
+
+// Deepgram pre-recorded response; words of every channel's top alternative
+export const deepgramFormat: TranscriptFormat = {
+  id: "deepgram",
+  label: "Deepgram",
+  detect: (data) => {
+    if (!isRecord(data) || !isRecord(data.results)) return 0;
+    const channel = firstOf(data.results.channels);
+    const alternative = isRecord(channel)
+      ? firstOf(channel.alternatives)
+      : undefined;
+    return isRecord(alternative) && Array.isArray(alternative.words) ? 3 : 0;
+  },
+  validate: (data) => validate(deepgramSchema, data),
+  normalize: (data) => {
+    const doc = data as DeepgramResponse;
+    const timings: WordTiming[] = [];
+    const sentences: { start: number; end: number }[] = [];
+
+    doc.results.channels.forEach((channel, ci) => {
+      const alternative = isRecord(channel)
+        ? firstOf(channel.alternatives)
+        : undefined;
+      if (!isRecord(alternative) || !Array.isArray(alternative.words)) return;
+      (alternative as DeepgramAlternative).words.forEach((word, wi) => {
+        if (!isRecord(word)) return;
+        timings.push({
+          word: word.word,
+          punctuated_word: word.punctuated_word,
+          start: word.start,
+          end: word.end,
+          probability: word.confidence,
+          speaker: word.speaker,
+          speakerConfidence: word.speaker_confidence,
+          sourcePath: [
+            "results",
+            "channels",
+            ci,
+            "alternatives",
+            0,
+            "words",
+            wi,
+          ],
+        });
+      });
+      // Malformed paragraphs are left out; validation reports them
+      const { paragraphs } = alternative as DeepgramAlternative;
+      if (!isRecord(paragraphs) || !Array.isArray(paragraphs.paragraphs)) {
+        return;
+      }
+      for (const paragraph of paragraphs.paragraphs as unknown[]) {
+        if (!isRecord(paragraph) || !Array.isArray(paragraph.sentences)) {
+          continue;
+        }
+        for (const sentence of paragraph.sentences as unknown[]) {
+          if (
+            isRecord(sentence) &&
+            isNumber(sentence.start) &&
+            isNumber(sentence.end)
+          ) {
+            sentences.push({ start: sentence.start, end: sentence.end });
+          }
+        }
+      }
+    });
+
+    timings.sort((a, b) => a.start - b.start);
+    if (sentences.length > 0) {
+      assignSentencesByRanges(
+        timings,
+        sentences.sort((a, b) => a.start - b.start)
+      );
+    } else {
+      assignSentencesByPunctuation(timings);
+    }
+
+    return { timings, subphraseTimings: [] };
+  },
+};
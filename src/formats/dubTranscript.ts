@@ -0,0 +1,214 @@
+import type {
+  Sentence,
+  SentenceAlignment,
+  Statistics,
+  SubphraseParent,
+  SubphraseTiming,
+  Transcript,
+  WordLevelTiming,
+  WordTiming,
+} from "../types";
+import type { TranscriptFormat } from "./types";
+import {
+  alignedSpan,
+  alignmentIndices,
+  countUnaligned,
+  firstOf,
+  isNumber,
+  isRecord,
+  unwrapLegacyRoot,
+  wordTexts,
+} from "./shared";
+import { transcriptSchema } from "./schemas";
+import { validate } from "../validation";
+
+function extractAlignments(transcript: Transcript): SentenceAlignment[] {
+  const alignments: SentenceAlignment[] = [];
+  transcript.sentences.forEach((sentence, si) => {
+    if (!isRecord(sentence) || !Array.isArray(sentence.subphrases)) return;
+    const originalWords = wordTexts(sentence.original?.words);
+    const translatedWords = wordTexts(sentence.translated?.words);
+    alignments.push({
+      sentenceIndex: sentence.index ?? si,
+      originalWords,
+      translatedWords,
+      subphrases: sentence.subphrases.filter(isRecord).map((subphrase) => {
+        const span = alignedSpan(
+          subphrase.translatedWordIndices,
+          sentence.translated?.words
+        );
+        const originalSpan = alignedSpan(
+          subphrase.originalWordIndices,
+          sentence.original?.words
+        );
+        return {
+          textOriginal: String(subphrase.original ?? ""),
+          textTranslated: String(subphrase.translated ?? ""),
+          originalWordIndices: alignmentIndices(
+            subphrase.originalWordIndices,
+            originalWords.length
+          ),
+          translatedWordIndices: alignmentIndices(
+            subphrase.translatedWordIndices,
+            translatedWords.length
+          ),
+          unalignedOriginal: countUnaligned(subphrase.originalWordIndices),
+          unalignedTranslated: countUnaligned(subphrase.translatedWordIndices),
+          start: span?.start,
+          end: span?.end,
+          startOriginal: originalSpan?.start,
+          endOriginal: originalSpan?.end,
+        };
+      }),
+    });
+  });
+  return alignments;
+}
+
+// Each language's sentence span, which the subphrases should stay within
+function declaredParent(sentence: Sentence): SubphraseParent {
+  const span = (value: unknown) =>
+    isRecord(value)
+      ? {
+          start: isNumber(value.start) ? value.start : undefined,
+          end: isNumber(value.end) ? value.end : undefined,
+        }
+      : {};
+  const original = span(sentence.original);
+  const translated = span(sentence.translated);
+  return {
+    kind: "sentence",
+    start: translated.start,
+    end: translated.end,
+    startOriginal: original.start,
+    endOriginal: original.end,
+  };
+}
+
+// Subphrases timed on both sides, from the aligned words' times
+function extractSubphraseTimings(
+  transcript: Transcript,
+  alignments: SentenceAlignment[]
+): SubphraseTiming[] {
+  const parents = new Map<number, SubphraseParent>();
+  transcript.sentences.forEach((sentence, si) => {
+    if (isRecord(sentence)) {
+      parents.set(sentence.index ?? si, declaredParent(sentence));
+    }
+  });
+  return alignments.flatMap(({ sentenceIndex, subphrases }) =>
+    subphrases.flatMap(
+      ({
+        start,
+        end,
+        startOriginal,
+        endOriginal,
+        textOriginal,
+        textTranslated,
+      }) =>
+        isNumber(start) &&
+        isNumber(end) &&
+        isNumber(startOriginal) &&
+        isNumber(endOriginal)
+          ? [
+              {
+                start,
+                end,
+                startOriginal,
+                endOriginal,
+                textOriginal,
+                textTranslated,
+                sentenceIndex,
+                parent: parents.get(sentenceIndex),
+              },
+            ]
+          : []
+    )
+  );
+}
+
+// Full dubbing transcript (`Transcript` in types.ts); only the translated
+// words are timed against the dub audio
+export const dubTranscriptFormat: TranscriptFormat = {
+  id: "dub-transcript",
+  label: "Dubbing transcript (sentences)",
+  detect: (data) => {
+    const { value } = unwrapLegacyRoot(data);
+    if (!isRecord(value) || !Array.isArray(value.sentences)) return 0;
+    const sentence = firstOf(value.sentences);
+    return isRecord(sentence) && isRecord(sentence.translated) ? 2 : 1;
+  },
+  validate: (data) => {
+    const { value, path } = unwrapLegacyRoot(data);
+    return validate(transcriptSchema, value, path);
+  },
+  normalize: (data) => {
+    const { value, path } = unwrapLegacyRoot(data);
+    const transcript = value as Transcript;
+    const timings: WordTiming[] = [];
+
+    transcript.sentences.forEach((sentence, si) => {
+      if (!isRecord(sentence)) return;
+      // Translated words carry no diarization of their own; they inherit the
+      // sentence's speaker and its least certain original word
+      const speakerConfidences = (
+        Array.isArray(sentence.original?.words) ? sentence.original.words : []
+      )
+        .map((word) => (isRecord(word) ? word.speakerConfidence : undefined))
+        .filter(isNumber);
+      const speakerConfidence =
+        speakerConfidences.length > 0
+          ? Math.min(...speakerConfidences)
+          : undefined;
+      if (Array.isArray(sentence.translated?.words)) {
+        sentence.translated.words.forEach((word, wi) => {
+          if (!isRecord(word)) return;
+          timings.push({
+            ...word,
+            word: word.word,
+            punctuated_word: word.punctuatedWord,
+            start: word.start,
+            end: word.end,
+            sentenceIndex: sentence.index,
+            probability: word.confidence,
+            speaker: sentence.speakerId,
+            speakerConfidence,
+            sourcePath: [...path, "sentences", si, "translated", "words", wi],
+          });
+        });
+      } else {
+        // Sentences that hold their words directly
+        const words = (
+          sentence as unknown as {
+            words?: (WordLevelTiming & { confidence?: number })[];
+          }
+        ).words;
+        if (!Array.isArray(words)) return;
+        words.forEach((word, wi) => {
+          if (!isRecord(word)) return;
+          timings.push({
+            ...word,
+            word: word.word,
+            punctuated_word: word.punctuatedWord,
+            start: word.start,
+            end: word.end,
+            probability: word.confidence,
+            speaker: word.speaker ?? sentence.speakerId,
+            sentenceIndex: sentence.index ?? si,
+            sourcePath: [...path, "sentences", si, "words", wi],
+          });
+        });
+      }
+    });
+
+    const alignments = extractAlignments(transcript);
+    return {
+      timings,
+      subphraseTimings: extractSubphraseTimings(transcript, alignments),
+      alignments,
+      statistics: isRecord(transcript.statistics)
+        ? (transcript.statistics as Partial<Statistics>)
+        : undefined,
+    };
+  },
+};
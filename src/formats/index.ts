@@ -0,0 +1,101 @@
+import type { NormalizedTranscript, TranscriptFormat } from "./types";
+import type { ValidationIssue } from "../validation";
+import { isNumber } from "./shared";
+import { dubTranscriptFormat } from "./dubTranscript";
+import { sentenceTimingsFormat } from "./sentenceTimings";
+import { sentenceWordListsFormat, wordListFormat } from "./wordList";
+import { whisperFormat, whisperXFormat } from "./whisper";
+import { deepgramFormat } from "./deepgram";
+import { assemblyAIFormat } from "./assemblyai";
+import { awsTranscribeFormat } from "./awsTranscribe";
+
+export type { NormalizedTranscript, TranscriptFormat } from "./types";
+
+// Order breaks ties between equally specific matches
+export const TRANSCRIPT_FORMATS: TranscriptFormat[] = [
+  dubTranscriptFormat,
+  sentenceTimingsFormat,
+  whisperXFormat,
+  whisperFormat,
+  deepgramFormat,
+  assemblyAIFormat,
+  awsTranscribeFormat,
+  sentenceWordListsFormat,
+  wordListFormat,
+];
+
+export type FormatDetection = {
+  // Best match, undefined when no format recognises the data
+  format: TranscriptFormat | undefined;
+  // Every format that could handle the data, best first
+  candidates: TranscriptFormat[];
+  // More than one format shares the best score
+  isAmbiguous: boolean;
+};
+
+export function getTranscriptFormat(id: string): TranscriptFormat | undefined {
+  return TRANSCRIPT_FORMATS.find((format) => format.id === id);
+}
+
+export function detectTranscriptFormat(data: unknown): FormatDetection {
+  const scored = TRANSCRIPT_FORMATS.map((format) => {
+    let score = 0;
+    try {
+      score = format.detect(data);
+    } catch {
+      // A detector tripping over an unexpected shape just doesn't match
+    }
+    return { format, score };
+  })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  return {
+    format: scored[0]?.format,
+    candidates: scored.map(({ format }) => format),
+    isAmbiguous: scored.length > 1 && scored[0].score === scored[1].score,
+  };
+}
+
+export type TranscriptReadResult = NormalizedTranscript & {
+  issues: ValidationIssue[];
+};
+
+/**
+ * Validates and normalizes the data with one format. Words and subphrases
+ * without usable timing are dropped and reported, so a partly malformed
+ * file still loads.
+ */
+export function readTranscript(
+  format: TranscriptFormat,
+  data: unknown
+): TranscriptReadResult {
+  const issues = format.validate?.(data) ?? [];
+  const normalized = format.normalize(data);
+
+  const timings = normalized.timings.filter((timing) => {
+    if (
+      typeof timing.word === "string" &&
+      isNumber(timing.start) &&
+      isNumber(timing.end)
+    ) {
+      return true;
+    }
+    issues.push({
+      path: timing.sourcePath ?? [],
+      message: "skipped word without a valid word, start and end",
+      severity: "warning",
+    });
+    return false;
+  });
+
+  const subphraseTimings = normalized.subphraseTimings.filter(
+    (subphrase) =>
+      isNumber(subphrase.start) &&
+      isNumber(subphrase.end) &&
+      isNumber(subphrase.startOriginal) &&
+      isNumber(subphrase.endOriginal)
+  );
+
+  return { ...normalized, timings, subphraseTimings, issues };
+}
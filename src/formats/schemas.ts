@@ -0,0 +1,326 @@
+import type { JsonPath } from "../types";
+import {
+  array,
+  integer,
+  lenient,
+  number,
+  object,
+  optional,
+  primitive,
+  string,
+  type Schema,
+  type ValidationIssue,
+} from "../validation";
+import { isRecord } from "./shared";
+
+// Schemas for the shapes declared in types.ts. Fields the loader reads are
+// errors when wrong; the rest only produce warnings.
+
+/**
+ * Flags alignment indices that point past the end of the word list. `-1`
+ * marks an unaligned word and is allowed.
+ */
+function checkWordIndices(
+  indices: unknown,
+  words: unknown,
+  path: JsonPath,
+  issues: ValidationIssue[]
+): boolean {
+  if (!Array.isArray(indices) || !Array.isArray(words)) return true;
+  let valid = true;
+  indices.forEach((index, k) => {
+    if (
+      typeof index === "number" &&
+      index !== -1 &&
+      (index < 0 || index >= words.length)
+    ) {
+      issues.push({
+        path: [...path, k],
+        message: `index ${index} is out of range (${words.length} words)`,
+        severity: "error",
+      });
+      valid = false;
+    }
+  });
+  return valid;
+}
+
+export const wordLevelTimingSchema = object({
+  word: string,
+  punctuatedWord: lenient(optional(string)),
+  start: number,
+  end: number,
+  probability: lenient(optional(number)),
+  confidence: lenient(optional(number)),
+  speaker: lenient(optional(integer)),
+  sentenceIndex: lenient(optional(integer)),
+});
+
+const originalWordSchema = object({
+  index: lenient(integer),
+  word: string,
+  punctuatedWord: lenient(string),
+  start: number,
+  end: number,
+  confidence: lenient(number),
+  speakerConfidence: lenient(optional(number)),
+});
+
+const translatedWordSchema = object({
+  index: lenient(integer),
+  word: string,
+  punctuatedWord: lenient(string),
+  start: number,
+  end: number,
+  confidence: lenient(optional(number)),
+});
+
+function languageSentenceSchema(word: Schema) {
+  return object({
+    text: lenient(string),
+    start: lenient(number),
+    end: lenient(number),
+    words: array(word),
+  });
+}
+
+const subphraseSchema = object({
+  index: lenient(integer),
+  original: lenient(string),
+  translated: lenient(string),
+  originalWordIndices: array(integer),
+  translatedWordIndices: array(integer),
+});
+
+const fullSentenceSchema = object(
+  {
+    index: lenient(integer),
+    speakerId: lenient(integer),
+    original: lenient(languageSentenceSchema(originalWordSchema)),
+    translated: languageSentenceSchema(translatedWordSchema),
+    subphrases: lenient(array(subphraseSchema)),
+  },
+  (sentence, path, issues) => {
+    if (!Array.isArray(sentence.subphrases)) return true;
+    const original = isRecord(sentence.original)
+      ? sentence.original.words
+      : undefined;
+    const translated = isRecord(sentence.translated)
+      ? sentence.translated.words
+      : undefined;
+    let valid = true;
+    sentence.subphrases.forEach((subphrase, s) => {
+      if (!isRecord(subphrase)) return;
+      const subphrasePath = [...path, "subphrases", s];
+      valid =
+        checkWordIndices(
+          subphrase.originalWordIndices,
+          original,
+          [...subphrasePath, "originalWordIndices"],
+          issues
+        ) && valid;
+      valid =
+        checkWordIndices(
+          subphrase.translatedWordIndices,
+          translated,
+          [...subphrasePath, "translatedWordIndices"],
+          issues
+        ) && valid;
+    });
+    return valid;
+  }
+);
+
+// Some transcripts hold each sentence's words directly
+const wordsOnlySentenceSchema = object({
+  words: array(wordLevelTimingSchema),
+});
+
+const sentenceSchema: Schema = (value, path, issues, severity) =>
+  isRecord(value) && "words" in value && !("translated" in value)
+    ? wordsOnlySentenceSchema(value, path, issues, severity)
+    : fullSentenceSchema(value, path, issues, severity);
+
+export const transcriptSchema = object({
+  durationOriginal: lenient(optional(number)),
+  durationTranslated: lenient(optional(number)),
+  detectedLanguage: lenient(optional(string)),
+  targetLanguage: lenient(optional(string)),
+  numSpeakers: lenient(optional(integer)),
+  sentences: array(sentenceSchema),
+  statistics: lenient(
+    optional(
+      object({
+        numSentencesWithDiminishedSubphrases: optional(number),
+        numSentencesWithDiminishedSubphrasesOriginal: optional(number),
+        numSentencesWithDiminishedSubphrasesTranslated: optional(number),
+        numDiminishedSubphrases: optional(number),
+        fractionDiminishedSentences: optional(number),
+        fractionDiminishedSubphrases: optional(number),
+        fractionDiminishedSubphraseWords: optional(number),
+        fractionDiminishedSubphraseWordsOriginal: optional(number),
+        fractionDiminishedSubphraseWordsTranslated: optional(number),
+      })
+    )
+  ),
+});
+
+const phraseIndexedSubphraseSchema = object({
+  original: lenient(string),
+  translated: lenient(string),
+  originalWordIndices: array(integer),
+  translatedWordIndices: array(integer),
+});
+
+const phraseSchema = object(
+  {
+    start: lenient(number),
+    end: lenient(number),
+    original: array(wordLevelTimingSchema),
+    translated: array(wordLevelTimingSchema),
+    subphrases: array(phraseIndexedSubphraseSchema),
+  },
+  (phrase, path, issues) => {
+    if (!Array.isArray(phrase.subphrases)) return true;
+    let valid = true;
+    phrase.subphrases.forEach((subphrase, s) => {
+      if (!isRecord(subphrase)) return;
+      const subphrasePath = [...path, "subphrases", s];
+      valid =
+        checkWordIndices(
+          subphrase.originalWordIndices,
+          phrase.original,
+          [...subphrasePath, "originalWordIndices"],
+          issues
+        ) && valid;
+      valid =
+        checkWordIndices(
+          subphrase.translatedWordIndices,
+          phrase.translated,
+          [...subphrasePath, "translatedWordIndices"],
+          issues
+        ) && valid;
+    });
+    return valid;
+  }
+);
+
+export const sentenceTimingsSchema = array(
+  object({
+    start: lenient(number),
+    end: lenient(number),
+    phrases: array(phraseSchema),
+  })
+);
+
+export const wordListSchema = array(wordLevelTimingSchema);
+
+export const sentenceWordListsSchema = array((value, path, issues, severity) =>
+  Array.isArray(value)
+    ? wordListSchema(value, path, issues, severity)
+    : wordsOnlySentenceSchema(value, path, issues, severity)
+);
+
+// Vendor responses. Only the fields the adapters read are checked.
+
+const whisperWordSchema = object({
+  word: string,
+  // WhisperX leaves words it couldn't align untimed
+  start: optional(number),
+  end: optional(number),
+  probability: lenient(optional(number)),
+  score: lenient(optional(number)),
+  speaker: lenient(optional(string)),
+});
+
+export const whisperSchema = object({
+  segments: array(
+    object({
+      start: lenient(number),
+      end: lenient(number),
+      text: lenient(string),
+      words: optional(array(whisperWordSchema)),
+    })
+  ),
+  words: optional(array(whisperWordSchema)),
+});
+
+export const deepgramSchema = object({
+  results: object({
+    channels: array(
+      object({
+        alternatives: array(
+          object({
+            words: array(
+              object({
+                word: string,
+                punctuated_word: lenient(optional(string)),
+                start: number,
+                end: number,
+                confidence: lenient(optional(number)),
+                speaker: lenient(optional(integer)),
+                speaker_confidence: lenient(optional(number)),
+              })
+            ),
+            // Only used to group words into sentences, which falls back to
+            // punctuation without it
+            paragraphs: lenient(
+              optional(
+                object({
+                  paragraphs: array(
+                    object({
+                      sentences: array(object({ start: number, end: number })),
+                    })
+                  ),
+                })
+              )
+            ),
+          })
+        ),
+      })
+    ),
+  }),
+});
+
+export const assemblyAISchema = object({
+  words: array(
+    object({
+      text: string,
+      start: number,
+      end: number,
+      confidence: lenient(optional(number)),
+      speaker: lenient(optional(string)),
+    })
+  ),
+});
+
+// Amazon Transcribe writes seconds and confidences as decimal strings
+const decimalString = primitive(
+  "decimal string",
+  (value) =>
+    typeof value === "string" &&
+    value.trim() !== "" &&
+    Number.isFinite(Number(value))
+);
+
+const awsPronunciationSchema = object({
+  start_time: decimalString,
+  end_time: decimalString,
+  alternatives: array(
+    object({ content: string, confidence: lenient(decimalString) })
+  ),
+  speaker_label: lenient(optional(string)),
+});
+
+const awsPunctuationSchema = object({
+  alternatives: lenient(array(object({ content: string }))),
+});
+
+const awsItemSchema: Schema = (value, path, issues, severity) =>
+  isRecord(value) && value.type === "punctuation"
+    ? awsPunctuationSchema(value, path, issues, severity)
+    : awsPronunciationSchema(value, path, issues, severity);
+
+export const awsTranscribeSchema = object({
+  results: object({ items: array(awsItemSchema) }),
+});
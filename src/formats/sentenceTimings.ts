@@ -0,0 +1,235 @@
+import type {
+  PhraseAlignmentOffsets,
+  SentenceAlignment,
+  SentenceTiming,
+  SubphraseParent,
+  SubphraseTiming,
+  WordLevelTiming,
+  WordTiming,
+} from "../types";
+import type { TranscriptFormat } from "./types";
+import {
+  alignedSpan,
+  alignmentIndices,
+  countUnaligned,
+  firstOf,
+  isNumber,
+  isRecord,
+  unwrapLegacyRoot,
+  wordTexts,
+} from "./shared";
+import { sentenceTimingsSchema } from "./schemas";
+import { validate } from "../validation";
+
+// Alignment indices that point at a real word; -1 marks an unaligned word
+// and out-of-range indices are reported by validation
+function alignedWords(indices: number[], words: WordLevelTiming[]) {
+  return indices
+    .filter((i) => Number.isInteger(i) && i >= 0 && i < words.length)
+    .map((i) => words[i]);
+}
+
+// Phrases declare one span for both languages; a phrase without one falls
+// back to its sentence's
+function declaredParent(
+  sentence: Record<string, unknown>,
+  phrase: Record<string, unknown>
+): SubphraseParent | undefined {
+  const source =
+    isNumber(phrase.start) || isNumber(phrase.end) ? phrase : sentence;
+  const start = isNumber(source.start) ? source.start : undefined;
+  const end = isNumber(source.end) ? source.end : undefined;
+  if (start === undefined && end === undefined) return undefined;
+  return {
+    kind: source === phrase ? "phrase" : "sentence",
+    start,
+    end,
+    startOriginal: start,
+    endOriginal: end,
+  };
+}
+
+function extractSubphraseTimings(
+  transcript: SentenceTiming[]
+): SubphraseTiming[] {
+  const subphraseTimings: SubphraseTiming[] = [];
+
+  for (const [sentenceIndex, sentence] of transcript.entries()) {
+    if (!isRecord(sentence) || !Array.isArray(sentence.phrases)) continue;
+    for (const phrase of sentence.phrases) {
+      if (
+        !isRecord(phrase) ||
+        !Array.isArray(phrase.subphrases) ||
+        !Array.isArray(phrase.original) ||
+        !Array.isArray(phrase.translated)
+      ) {
+        continue;
+      }
+      const parent = declaredParent(sentence, phrase);
+      for (const subphrase of phrase.subphrases) {
+        if (
+          !isRecord(subphrase) ||
+          !Array.isArray(subphrase.originalWordIndices) ||
+          !Array.isArray(subphrase.translatedWordIndices)
+        ) {
+          continue;
+        }
+        const translatedWords = alignedWords(
+          subphrase.translatedWordIndices,
+          phrase.translated
+        );
+        const originalWords = alignedWords(
+          subphrase.originalWordIndices,
+          phrase.original
+        );
+        const tStart = translatedWords.at(0)?.start;
+        const tEnd = translatedWords.at(-1)?.end;
+        const oStart = originalWords.at(0)?.start;
+        const oEnd = originalWords.at(-1)?.end;
+        if (
+          isNumber(tStart) &&
+          isNumber(tEnd) &&
+          isNumber(oStart) &&
+          isNumber(oEnd)
+        ) {
+          const textOriginal = originalWords
+            .map((w) => w.punctuatedWord || w.word)
+            .join(" ");
+          const textTranslated = translatedWords
+            .map((w) => w.punctuatedWord || w.word)
+            .join(" ");
+          subphraseTimings.push({
+            start: tStart,
+            end: tEnd,
+            textOriginal,
+            textTranslated,
+            startOriginal: oStart,
+            endOriginal: oEnd,
+            sentenceIndex,
+            parent,
+          });
+        }
+      }
+    }
+  }
+
+  return subphraseTimings;
+}
+
+// Joins each sentence's phrases so alignment indices address the sentence
+function extractAlignments(transcript: SentenceTiming[]): SentenceAlignment[] {
+  const alignments: SentenceAlignment[] = [];
+  for (const [sentenceIndex, sentence] of transcript.entries()) {
+    if (!isRecord(sentence) || !Array.isArray(sentence.phrases)) continue;
+    const phrases: PhraseAlignmentOffsets[] = [];
+    const alignment: SentenceAlignment = {
+      sentenceIndex,
+      originalWords: [],
+      translatedWords: [],
+      subphrases: [],
+      phrases,
+    };
+    for (const phrase of sentence.phrases) {
+      if (!isRecord(phrase)) continue;
+      phrases.push({
+        originalWords: alignment.originalWords.length,
+        translatedWords: alignment.translatedWords.length,
+        subphrases: alignment.subphrases.length,
+      });
+      const originalWords = wordTexts(phrase.original);
+      const translatedWords = wordTexts(phrase.translated);
+      for (const subphrase of Array.isArray(phrase.subphrases)
+        ? phrase.subphrases
+        : []) {
+        if (!isRecord(subphrase)) continue;
+        const span = alignedSpan(
+          subphrase.translatedWordIndices,
+          phrase.translated
+        );
+        const originalSpan = alignedSpan(
+          subphrase.originalWordIndices,
+          phrase.original
+        );
+        alignment.subphrases.push({
+          textOriginal: String(subphrase.original ?? ""),
+          textTranslated: String(subphrase.translated ?? ""),
+          originalWordIndices: alignmentIndices(
+            subphrase.originalWordIndices,
+            originalWords.length,
+            alignment.originalWords.length
+          ),
+          translatedWordIndices: alignmentIndices(
+            subphrase.translatedWordIndices,
+            translatedWords.length,
+            alignment.translatedWords.length
+          ),
+          unalignedOriginal: countUnaligned(subphrase.originalWordIndices),
+          unalignedTranslated: countUnaligned(subphrase.translatedWordIndices),
+          start: span?.start,
+          end: span?.end,
+          startOriginal: originalSpan?.start,
+          endOriginal: originalSpan?.end,
+        });
+      }
+      alignment.originalWords.push(...originalWords);
+      alignment.translatedWords.push(...translatedWords);
+    }
+    alignments.push(alignment);
+  }
+  return alignments;
+}
+
+type LegacyWord = WordLevelTiming & { confidence?: number };
+
+// `SentenceTiming[]`: sentences of phrases with both languages and the
+// subphrase alignment between them
+export const sentenceTimingsFormat: TranscriptFormat = {
+  id: "sentence-timings",
+  label: "Sentence timings with phrases",
+  detect: (data) => {
+    const { value } = unwrapLegacyRoot(data);
+    const sentence = firstOf(value);
+    return isRecord(sentence) && Array.isArray(sentence.phrases) ? 2 : 0;
+  },
+  validate: (data) => {
+    const { value, path } = unwrapLegacyRoot(data);
+    return validate(sentenceTimingsSchema, value, path);
+  },
+  normalize: (data) => {
+    const { value, path } = unwrapLegacyRoot(data);
+    const transcript = value as SentenceTiming[];
+    const timings: WordTiming[] = [];
+
+    for (const [i, sentence] of transcript.entries()) {
+      if (!isRecord(sentence) || !Array.isArray(sentence.phrases)) continue;
+      for (const [pi, phrase] of sentence.phrases.entries()) {
+        if (!isRecord(phrase)) continue;
+        for (const language of ["original", "translated"] as const) {
+          const words = phrase[language] as LegacyWord[];
+          if (!Array.isArray(words)) continue;
+          for (const [wi, item] of words.entries()) {
+            if (!isRecord(item)) continue;
+            timings.push({
+              ...item,
+              word: item.word,
+              punctuated_word: item.punctuatedWord,
+              start: item.start,
+              end: item.end,
+              probability: item.confidence || item.probability,
+              speaker: item.speaker,
+              language,
+              sentenceIndex: i,
+              sourcePath: [...path, i, "phrases", pi, language, wi],
+            });
+          }
+        }
+      }
+    }
+
+    return {
+      timings,
+      subphraseTimings: extractSubphraseTimings(transcript),
+      alignments: extractAlignments(transcript),
+    };
+  },
+};
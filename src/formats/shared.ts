@@ -0,0 +1,117 @@
+import type { JsonPath, WordTiming } from "../types";
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function isNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+export function firstOf(value: unknown): unknown {
+  return Array.isArray(value) ? value[0] : undefined;
+}
+
+const SENTENCE_END_PATTERN = /[.!?。！？…]["'”’)\]]*$/;
+
+/**
+ * Numbers sentences by splitting after words that end in terminal
+ * punctuation, for formats that don't group words themselves.
+ */
+export function assignSentencesByPunctuation(words: WordTiming[]) {
+  let sentenceIndex = 0;
+  for (const word of words) {
+    word.sentenceIndex = sentenceIndex;
+    if (SENTENCE_END_PATTERN.test(word.punctuated_word || word.word)) {
+      sentenceIndex++;
+    }
+  }
+}
+
+/**
+ * Numbers sentences by the time range each word starts in. Ranges and words
+ * must both be sorted by start time.
+ */
+export function assignSentencesByRanges(
+  words: WordTiming[],
+  ranges: { start: number; end: number }[]
+) {
+  let rangeIndex = 0;
+  for (const word of words) {
+    while (
+      rangeIndex < ranges.length - 1 &&
+      word.start >= ranges[rangeIndex + 1].start
+    ) {
+      rangeIndex++;
+    }
+    word.sentenceIndex = rangeIndex;
+  }
+}
+
+// Wrapper keys the app has always looked through, in priority order
+const LEGACY_ROOT_KEYS = ["dubTranscript", "wordTimings", "segments", "words"];
+
+/**
+ * Unwraps the document the way the original loader did: the first truthy
+ * wrapper key wins, otherwise the document itself is the transcript.
+ */
+export function unwrapLegacyRoot(data: unknown): {
+  value: unknown;
+  path: JsonPath;
+} {
+  if (isRecord(data)) {
+    const key = LEGACY_ROOT_KEYS.find((k) => data[k]);
+    if (key) return { value: data[key], path: [key] };
+  }
+  return { value: data, path: [] };
+}
+
+// Display text of each word object in a list; non-objects become ""
+export function wordTexts(words: unknown): string[] {
+  if (!Array.isArray(words)) return [];
+  return words.map((word) =>
+    isRecord(word)
+      ? String(word.punctuatedWord ?? word.punctuated_word ?? word.word ?? "")
+      : ""
+  );
+}
+
+// Number of -1 entries, which mark a word the aligner couldn't pair up
+export function countUnaligned(indices: unknown): number {
+  return Array.isArray(indices) ? indices.filter((i) => i === -1).length : 0;
+}
+
+/**
+ * Start of the first and end of the last word the indices point at, the
+ * way subphrase timings are built; undefined when either end is untimed.
+ */
+export function alignedSpan(
+  indices: unknown,
+  words: unknown
+): { start: number; end: number } | undefined {
+  if (!Array.isArray(indices) || !Array.isArray(words)) return undefined;
+  const aligned = indices
+    .filter((i) => Number.isInteger(i) && i >= 0 && i < words.length)
+    .map((i) => words[i]);
+  const first = aligned.at(0);
+  const last = aligned.at(-1);
+  return isRecord(first) &&
+    isRecord(last) &&
+    isNumber(first.start) &&
+    isNumber(last.end)
+    ? { start: first.start, end: last.end }
+    : undefined;
+}
+
+// Keeps alignment indices that point at one of `length` words, shifted by
+// `offset` when several word lists are joined into one
+export function alignmentIndices(
+  indices: unknown,
+  length: number,
+  offset = 0
+): number[] {
+  if (!Array.isArray(indices)) return [];
+  return indices
+    .filter((i) => Number.isInteger(i) && i >= 0 && i < length)
+    .map((i) => i + offset);
+}
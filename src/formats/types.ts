@@ -0,0 +1,37 @@
+import type {
+  SentenceAlignment,
+  Statistics,
+  SubphraseTiming,
+  WordTiming,
+} from "../types";
+import type { ValidationIssue } from "../validation";
+
+export type NormalizedTranscript = {
+  timings: WordTiming[];
+  subphraseTimings: SubphraseTiming[];
+  // Subphrase word alignment, for formats that carry one
+  alignments?: SentenceAlignment[];
+  // Quality numbers stored in the file by the dubbing job
+  statistics?: Partial<Statistics>;
+};
+
+export type TranscriptFormat = {
+  id: string;
+  label: string;
+  /**
+   * How specifically the parsed JSON matches this format: 0 when it can't be
+   * handled, 1 for generic shapes, 2 or more for vendor-specific signatures.
+   */
+  detect: (data: unknown) => number;
+  /**
+   * Checks the data against the format's schema. Normalizers skip items
+   * that fail, so these issues explain what was left out of a partial load.
+   */
+  validate?: (data: unknown) => ValidationIssue[];
+  normalize: (data: unknown) => NormalizedTranscript;
+  /**
+   * Writes an edited timing back into the word object at its `sourcePath`.
+   * Only needed when the format doesn't store plain `start`/`end` seconds.
+   */
+  writeTiming?: (target: Record<string, unknown>, timing: WordTiming) => void;
+};
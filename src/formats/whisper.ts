@@ -0,0 +1,114 @@
+import type { WordTiming } from "../types";
+import type { TranscriptFormat } from "./types";
+import { assignSentencesByRanges, firstOf, isNumber, isRecord } from "./shared";
+import { whisperSchema } from "./schemas";
+import { validate } from "../validation";
+
+type WhisperWord = {
+  word: string;
+  start?: number;
+  end?: number;
+  probability?: number;
+  // WhisperX alignment score
+  score?: number;
+  // WhisperX diarization label, e.g. "SPEAKER_00"
+  speaker?: string;
+};
+
+type WhisperSegment = {
+  start: number;
+  end: number;
+  text: string;
+  words?: WhisperWord[];
+};
+
+type WhisperDocument = {
+  segments: WhisperSegment[];
+  words?: WhisperWord[];
+  word_segments?: WhisperWord[];
+};
+
+function isWhisperSegment(value: unknown): boolean {
+  return (
+    isRecord(value) &&
+    isNumber(value.start) &&
+    isNumber(value.end) &&
+    typeof value.text === "string"
+  );
+}
+
+function normalizeWhisper(data: unknown) {
+  const doc = data as WhisperDocument;
+  const timings: WordTiming[] = [];
+
+  const toTiming = (
+    word: WhisperWord,
+    sourcePath: WordTiming["sourcePath"]
+  ): WordTiming | undefined => {
+    if (!isRecord(word)) return undefined;
+    // WhisperX leaves words it couldn't align (e.g. numerals) untimed
+    if (!isNumber(word.start) || !isNumber(word.end)) return undefined;
+    return {
+      // Anything else is reported and dropped by readTranscript
+      word: typeof word.word === "string" ? word.word.trim() : word.word,
+      start: word.start,
+      end: word.end,
+      probability: word.probability ?? word.score,
+      speaker: word.speaker,
+      sourcePath,
+    };
+  };
+
+  const segments = doc.segments.filter(isRecord) as WhisperSegment[];
+  if (segments.some((segment) => Array.isArray(segment.words))) {
+    doc.segments.forEach((segment, si) => {
+      if (!isRecord(segment) || !Array.isArray(segment.words)) return;
+      segment.words.forEach((word, wi) => {
+        const timing = toTiming(word, ["segments", si, "words", wi]);
+        if (timing) timings.push({ ...timing, sentenceIndex: si });
+      });
+    });
+  } else if (Array.isArray(doc.words)) {
+    // OpenAI API verbose_json with word granularity keeps words top-level
+    doc.words.forEach((word, wi) => {
+      const timing = toTiming(word, ["words", wi]);
+      if (timing) timings.push(timing);
+    });
+    assignSentencesByRanges(timings, segments);
+  }
+
+  return { timings, subphraseTimings: [] };
+}
+
+// openai-whisper `word_timestamps=True` output or the OpenAI API
+// `verbose_json` response
+export const whisperFormat: TranscriptFormat = {
+  id: "whisper",
+  label: "Whisper verbose_json",
+  detect: (data) => {
+    if (!isRecord(data) || !Array.isArray(data.segments)) return 0;
+    const segment = firstOf(data.segments);
+    if (!isWhisperSegment(segment)) return 0;
+    const hasWords =
+      Array.isArray((segment as WhisperSegment).words) ||
+      Array.isArray(data.words);
+    return hasWords ? 2 : 0;
+  },
+  validate: (data) => validate(whisperSchema, data),
+  normalize: normalizeWhisper,
+};
+
+export const whisperXFormat: TranscriptFormat = {
+  id: "whisperx",
+  label: "WhisperX",
+  detect: (data) => {
+    if (!isRecord(data) || !Array.isArray(data.segments)) return 0;
+    if (Array.isArray(data.word_segments)) return 3;
+    const segment = firstOf(data.segments);
+    if (!isWhisperSegment(segment)) return 0;
+    const word = firstOf((segment as WhisperSegment).words);
+    return isRecord(word) && "score" in word ? 3 : 0;
+  },
+  validate: (data) => validate(whisperSchema, data),
+  normalize: normalizeWhisper,
+};
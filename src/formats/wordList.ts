@@ -0,0 +1,103 @@
+import type { WordTiming } from "../types";
+import type { TranscriptFormat } from "./types";
+import { firstOf, isNumber, isRecord, unwrapLegacyRoot } from "./shared";
+import { sentenceWordListsSchema, wordListSchema } from "./schemas";
+import { validate } from "../validation";
+
+type LegacyWord = {
+  word: string;
+  punctuatedWord?: string;
+  start: number;
+  end: number;
+  confidence?: number;
+  probability?: number;
+  language?: "original" | "translated";
+  speaker?: number;
+  speakerConfidence?: number;
+  // Written by toWordList for words grouped into sentences or cues
+  sentenceIndex?: number;
+};
+
+function isWordLike(value: unknown): boolean {
+  return (
+    isRecord(value) &&
+    typeof value.word === "string" &&
+    isNumber(value.start) &&
+    isNumber(value.end)
+  );
+}
+
+// Flat array of `{ word, start, end }` objects, the format shown in the README
+export const wordListFormat: TranscriptFormat = {
+  id: "word-list",
+  label: "Word list",
+  detect: (data) => {
+    const { value } = unwrapLegacyRoot(data);
+    return isWordLike(firstOf(value)) ? 1 : 0;
+  },
+  validate: (data) => {
+    const { value, path } = unwrapLegacyRoot(data);
+    return validate(wordListSchema, value, path);
+  },
+  normalize: (data) => {
+    const { value, path } = unwrapLegacyRoot(data);
+    const timings: WordTiming[] = [];
+    (value as LegacyWord[]).forEach((item, i) => {
+      if (!isRecord(item)) return;
+      timings.push({
+        ...item,
+        word: item.word,
+        punctuated_word: item.punctuatedWord,
+        start: item.start,
+        end: item.end,
+        probability: item.confidence || item.probability,
+        ...{ language: item.language },
+        sourcePath: [...path, i],
+      });
+    });
+    return { timings, subphraseTimings: [] };
+  },
+};
+
+// Array of sentences, each either `{ words: [...] }` or a bare word array
+export const sentenceWordListsFormat: TranscriptFormat = {
+  id: "sentence-word-lists",
+  label: "Sentence word lists",
+  detect: (data) => {
+    const { value } = unwrapLegacyRoot(data);
+    const sentence = firstOf(value);
+    const words = isRecord(sentence) ? sentence.words : sentence;
+    return Array.isArray(words) && isWordLike(words[0]) ? 1 : 0;
+  },
+  validate: (data) => {
+    const { value, path } = unwrapLegacyRoot(data);
+    return validate(sentenceWordListsSchema, value, path);
+  },
+  normalize: (data) => {
+    const { value, path } = unwrapLegacyRoot(data);
+    const timings: WordTiming[] = [];
+    (value as unknown[]).forEach((sentence, i) => {
+      const hasWordsKey = isRecord(sentence) && Array.isArray(sentence.words);
+      const words = (
+        hasWordsKey ? (sentence as { words: unknown[] }).words : sentence
+      ) as LegacyWord[];
+      if (!Array.isArray(words)) return;
+      words.forEach((word, wi) => {
+        if (!isRecord(word)) return;
+        timings.push({
+          ...word,
+          word: word.word,
+          punctuated_word: word.punctuatedWord || word.word,
+          start: word.start,
+          end: word.end,
+          probability: word.confidence || word.probability,
+          sentenceIndex: i,
+          sourcePath: hasWordsKey
+            ? [...path, i, "words", wi]
+            : [...path, i, wi],
+        });
+      });
+    });
+    return { timings, subphraseTimings: [] };
+  },
+};
@@ -0,0 +1,48 @@
+import type { WordTiming } from "./types";
+
+export type LoopRegion = {
+  start: number;
+  end: number;
+  // What the region was taken from, e.g. "word “hello”"
+  label: string;
+};
+
+export type LoopState = {
+  region: LoopRegion | null;
+  enabled: boolean;
+  // Seconds of padding played before and after the region
+  preRoll: number;
+  postRoll: number;
+};
+
+export const DEFAULT_LOOP: LoopState = {
+  region: null,
+  enabled: false,
+  preRoll: 0,
+  postRoll: 0,
+};
+
+export const PLAYBACK_RATES = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2];
+
+// The padded range that actually plays
+export function loopBounds(loop: LoopState, duration: number) {
+  if (!loop.region) return null;
+  const start = Math.max(0, loop.region.start - loop.preRoll);
+  const end = loop.region.end + loop.postRoll;
+  return { start, end: duration > 0 ? Math.min(duration, end) : end };
+}
+
+/**
+ * Identifies a transcript by its words, ignoring timings so a loop survives
+ * timing edits as well as reloads.
+ */
+export function transcriptFingerprint(timings: WordTiming[]): string {
+  let hash = 5381;
+  for (const timing of timings) {
+    for (let i = 0; i < timing.word.length; i++) {
+      hash = ((hash << 5) + hash + timing.word.charCodeAt(i)) | 0;
+    }
+    hash = ((hash << 5) + hash + 32) | 0;
+  }
+  return `${timings.length}:${(hash >>> 0).toString(36)}`;
+}
@@ -0,0 +1,32 @@
+import { DEFAULT_LOOP, type LoopState } from "./loop";
+
+const STORAGE_KEY = "loopRegions";
+// Transcripts remembered; the least recently saved are dropped
+const MAX_STORED_LOOPS = 20;
+
+function readStoredLoops(): [string, LoopState][] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+export function loadLoop(fingerprint: string): LoopState {
+  const entry = readStoredLoops().find(([key]) => key === fingerprint);
+  return entry ? { ...DEFAULT_LOOP, ...entry[1] } : DEFAULT_LOOP;
+}
+
+export function saveLoop(fingerprint: string, loop: LoopState) {
+  const others = readStoredLoops().filter(([key]) => key !== fingerprint);
+  const entries = loop.region ? [...others, [fingerprint, loop]] : others;
+  try {
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify(entries.slice(-MAX_STORED_LOOPS))
+    );
+  } catch (error) {
+    console.error("Error saving loop region:", error);
+  }
+}
@@ -0,0 +1,36 @@
+import type { WordTiming } from "./types";
+import type { TimeIndex } from "./timeIndex";
+
+// How far into an item "previous" still means "restart this one"
+const RESTART_GRACE = 0.05;
+
+type Timed = { start: number; end: number };
+
+// From a sentence's first word's start to its last word's end
+export type SentenceSpan = Timed;
+
+export function sentenceSpans(timings: WordTiming[]): SentenceSpan[] {
+  const spans = new Map<number, SentenceSpan>();
+  for (const timing of timings) {
+    if (timing.sentenceIndex === undefined) continue;
+    const span = spans.get(timing.sentenceIndex);
+    if (span) {
+      span.start = Math.min(span.start, timing.start);
+      span.end = Math.max(span.end, timing.end);
+    } else {
+      spans.set(timing.sentenceIndex, { start: timing.start, end: timing.end });
+    }
+  }
+  return [...spans.values()];
+}
+
+export function nextStart<T extends Timed>(index: TimeIndex<T>, time: number) {
+  return index.next(time + RESTART_GRACE)?.start;
+}
+
+export function previousStart<T extends Timed>(
+  index: TimeIndex<T>,
+  time: number
+) {
+  return index.previous(time - RESTART_GRACE)?.start;
+}
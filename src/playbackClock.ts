@@ -0,0 +1,85 @@
+import { useRef, useSyncExternalStore } from "react";
+
+// Ticks further apart than this are seeks or pauses, not frames
+const MAX_FRAME_GAP = 250;
+// Weight of the newest frame in the running average
+const FRAME_SMOOTHING = 0.1;
+
+/**
+ * The playhead, kept outside React state so the playback loop can move it
+ * every frame without re-rendering the app. Components subscribe to the
+ * part of it they show, through the hooks below.
+ */
+export type PlaybackClock = {
+  getTime: () => number;
+  setTime: (time: number) => void;
+  // Returns the unsubscribe function
+  subscribe: (listener: () => void) => () => void;
+  // Running average of the time between ticks in ms, 0 until measured
+  getFrameTime: () => number;
+};
+
+export function createPlaybackClock(
+  now: () => number = () => performance.now()
+): PlaybackClock {
+  let time = 0;
+  let lastTick: number | null = null;
+  let frameTime = 0;
+  const listeners = new Set<() => void>();
+
+  return {
+    getTime: () => time,
+    setTime: (next) => {
+      const tick = now();
+      if (lastTick !== null && tick - lastTick < MAX_FRAME_GAP) {
+        const gap = tick - lastTick;
+        frameTime = frameTime
+          ? frameTime + (gap - frameTime) * FRAME_SMOOTHING
+          : gap;
+      }
+      lastTick = tick;
+      if (next === time) return;
+      time = next;
+      listeners.forEach((listener) => listener());
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    getFrameTime: () => frameTime,
+  };
+}
+
+// Whether two lists hold the same items in the same order
+export function sameItems<T>(a: readonly T[], b: readonly T[]) {
+  return a.length === b.length && a.every((item, i) => item === b[i]);
+}
+
+/**
+ * Part of the playback state derived from the time. The component only
+ * re-renders when `isEqual` says the selection changed, e.g. when the
+ * playhead moves onto another word rather than on every frame.
+ */
+export function usePlaybackSelector<T>(
+  clock: PlaybackClock,
+  select: (time: number) => T,
+  isEqual: (a: T, b: T) => boolean = Object.is
+): T {
+  // Last selection, handed back while equal so React sees no change
+  const selectionRef = useRef<{ value: T } | null>(null);
+  const getSnapshot = () => {
+    const value = select(clock.getTime());
+    const previous = selectionRef.current;
+    if (previous && isEqual(previous.value, value)) return previous.value;
+    selectionRef.current = { value };
+    return value;
+  };
+  return useSyncExternalStore(clock.subscribe, getSnapshot);
+}
+
+// The playhead itself, for the few views that follow it every frame
+export function usePlaybackTime(clock: PlaybackClock) {
+  return useSyncExternalStore(clock.subscribe, clock.getTime);
+}
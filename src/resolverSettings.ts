@@ -0,0 +1,54 @@
+import {
+  DEFAULT_PROFILE,
+  findProfile,
+  type AudioResolverProfile,
+} from "./audioResolver";
+
+// Audio resolver profiles as kept in the browser
+export type ResolverSettings = {
+  profiles: AudioResolverProfile[];
+  activeId: string;
+};
+
+const STORAGE_KEY = "audioResolverProfiles";
+
+function isProfile(value: unknown): value is AudioResolverProfile {
+  if (value === null || typeof value !== "object") return false;
+  const profile = value as Record<string, unknown>;
+  return (
+    typeof profile.id === "string" &&
+    typeof profile.name === "string" &&
+    typeof profile.baseUrl === "string" &&
+    typeof profile.bucket === "string" &&
+    (profile.addressing === "path" || profile.addressing === "virtual-host") &&
+    Array.isArray(profile.audioPaths)
+  );
+}
+
+export function loadResolverSettings(): ResolverSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+    const profiles: AudioResolverProfile[] = Array.isArray(stored?.profiles)
+      ? stored.profiles
+          .filter(isProfile)
+          .map((profile: AudioResolverProfile) => ({
+            ...DEFAULT_PROFILE,
+            ...profile,
+          }))
+      : [];
+    if (profiles.length === 0) {
+      return { profiles: [DEFAULT_PROFILE], activeId: DEFAULT_PROFILE.id };
+    }
+    return { profiles, activeId: findProfile(profiles, stored.activeId).id };
+  } catch {
+    return { profiles: [DEFAULT_PROFILE], activeId: DEFAULT_PROFILE.id };
+  }
+}
+
+export function saveResolverSettings(settings: ResolverSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Error saving audio resolver profiles:", error);
+  }
+}
@@ -0,0 +1,243 @@
+import type { TimingCorrection } from "./timingCorrection";
+
+const DATABASE_NAME = "word-timing";
+const DATABASE_VERSION = 1;
+// Session records, small enough to list all at once
+const SESSION_STORE = "sessions";
+// Uploaded audio, keyed by session id and only read when a session opens
+const AUDIO_STORE = "audio";
+const MAX_SESSIONS = 20;
+// Headroom left when deciding whether an audio file fits the quota
+const QUOTA_MARGIN = 1.1;
+
+export type SessionAudio =
+  | { kind: "file"; name: string; type: string; size: number }
+  | { kind: "url"; url: string; key: string };
+
+export type SessionSettings = {
+  persistWords: boolean;
+  timingCorrection: TimingCorrection;
+  speakerNames: Record<string, string>;
+  // Audio resolver profile for the session's storage keys
+  resolverProfileId?: string;
+};
+
+export type Session = {
+  id: string;
+  name: string;
+  updatedAt: number;
+  // Transcript document with the timing edits written in
+  transcript: string;
+  // Format picked when the session was saved; detected again when missing
+  formatId?: string;
+  jsonUrl: string;
+  audio: SessionAudio | null;
+  // Playhead in seconds
+  position: number;
+  settings: SessionSettings;
+};
+
+export type SessionSummary = Omit<Session, "transcript" | "settings"> & {
+  // Whether the uploaded audio file is stored with the session
+  hasStoredAudio: boolean;
+};
+
+export function createSessionId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+let database: Promise<IDBDatabase> | undefined;
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available"));
+      return;
+    }
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SESSION_STORE)) {
+        db.createObjectStore(SESSION_STORE, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(AUDIO_STORE)) {
+        db.createObjectStore(AUDIO_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // Let a later call try again instead of caching the failure
+  database.catch(() => {
+    database = undefined;
+  });
+  return database;
+}
+
+async function allSessions(): Promise<Session[]> {
+  const db = await openDatabase();
+  const sessions = await requestResult<Session[]>(
+    db.transaction(SESSION_STORE).objectStore(SESSION_STORE).getAll()
+  );
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+// Most recent first
+export async function listSessions(): Promise<SessionSummary[]> {
+  const db = await openDatabase();
+  const [sessions, audioKeys] = await Promise.all([
+    allSessions(),
+    requestResult(
+      db.transaction(AUDIO_STORE).objectStore(AUDIO_STORE).getAllKeys()
+    ),
+  ]);
+  const stored = new Set(audioKeys);
+  return sessions.map((session) => ({
+    id: session.id,
+    name: session.name,
+    updatedAt: session.updatedAt,
+    formatId: session.formatId,
+    jsonUrl: session.jsonUrl,
+    audio: session.audio,
+    position: session.position,
+    hasStoredAudio: stored.has(session.id),
+  }));
+}
+
+export async function loadSession(
+  id: string
+): Promise<{ session: Session; audio: File | null } | null> {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSION_STORE, AUDIO_STORE]);
+  const [session, blob] = await Promise.all([
+    requestResult<Session | undefined>(
+      transaction.objectStore(SESSION_STORE).get(id)
+    ),
+    requestResult<Blob | undefined>(
+      transaction.objectStore(AUDIO_STORE).get(id)
+    ),
+  ]);
+  if (!session) return null;
+  const audio =
+    blob && session.audio?.kind === "file"
+      ? new File([blob], session.audio.name, { type: session.audio.type })
+      : null;
+  return { session, audio };
+}
+
+/**
+ * Stores the session, dropping the oldest ones beyond the recent list's
+ * length along with their audio.
+ */
+export async function saveSession(session: Session): Promise<void> {
+  const db = await openDatabase();
+  const older = (await allSessions()).filter((s) => s.id !== session.id);
+  const transaction = db.transaction([SESSION_STORE, AUDIO_STORE], "readwrite");
+  transaction.objectStore(SESSION_STORE).put(session);
+  for (const stale of older.slice(MAX_SESSIONS - 1)) {
+    transaction.objectStore(SESSION_STORE).delete(stale.id);
+    transaction.objectStore(AUDIO_STORE).delete(stale.id);
+  }
+  await transactionDone(transaction);
+}
+
+export async function saveSessionPosition(
+  id: string,
+  position: number
+): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(SESSION_STORE, "readwrite");
+  const store = transaction.objectStore(SESSION_STORE);
+  const session = await requestResult<Session | undefined>(store.get(id));
+  if (session) store.put({ ...session, position });
+  await transactionDone(transaction);
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSION_STORE, AUDIO_STORE], "readwrite");
+  transaction.objectStore(SESSION_STORE).delete(id);
+  transaction.objectStore(AUDIO_STORE).delete(id);
+  await transactionDone(transaction);
+}
+
+export async function estimateStorage(): Promise<{
+  usage: number;
+  quota: number;
+} | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return quota > 0 ? { usage, quota } : null;
+}
+
+function isQuotaError(error: unknown) {
+  return error instanceof DOMException && error.name === "QuotaExceededError";
+}
+
+async function putAudio(id: string, audio: Blob) {
+  const db = await openDatabase();
+  const transaction = db.transaction(AUDIO_STORE, "readwrite");
+  transaction.objectStore(AUDIO_STORE).put(audio, id);
+  await transactionDone(transaction);
+}
+
+/**
+ * Stores an uploaded audio file with its session. When the file doesn't fit
+ * the storage quota, audio of the oldest other sessions is dropped to make
+ * room; returns false if it still doesn't fit, leaving the session without
+ * stored audio.
+ */
+export async function saveSessionAudio(
+  id: string,
+  audio: Blob
+): Promise<boolean> {
+  // Ask the browser not to evict the data under storage pressure
+  await navigator.storage?.persist?.().catch(() => false);
+
+  const db = await openDatabase();
+  const initial = await estimateStorage();
+  if (initial && audio.size * QUOTA_MARGIN > initial.quota) return false;
+  const evictable = (await allSessions())
+    .filter((session) => session.id !== id)
+    .reverse();
+  for (;;) {
+    const estimate = await estimateStorage();
+    const fits =
+      !estimate || estimate.usage + audio.size * QUOTA_MARGIN <= estimate.quota;
+    if (fits) {
+      try {
+        await putAudio(id, audio);
+        return true;
+      } catch (error) {
+        if (!isQuotaError(error)) throw error;
+      }
+    }
+    const oldest = evictable.shift();
+    if (!oldest) return false;
+    const transaction = db.transaction(AUDIO_STORE, "readwrite");
+    transaction.objectStore(AUDIO_STORE).delete(oldest.id);
+    await transactionDone(transaction);
+  }
+}
+
+export async function deleteSessionAudio(id: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(AUDIO_STORE, "readwrite");
+  transaction.objectStore(AUDIO_STORE).delete(id);
+  await transactionDone(transaction);
+}
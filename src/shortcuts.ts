@@ -0,0 +1,132 @@
+export type ShortcutAction =
+  | "togglePlayback"
+  | "back10ms"
+  | "forward10ms"
+  | "back100ms"
+  | "forward100ms"
+  | "back10s"
+  | "forward10s"
+  | "back1m"
+  | "forward1m"
+  | "back10m"
+  | "forward10m"
+  | "previousSentence"
+  | "nextSentence"
+  | "previousWord"
+  | "nextWord"
+  | "previousSubphrase"
+  | "nextSubphrase"
+  | "showHelp";
+
+// Key combos like "Space", "Shift+ArrowLeft" or "Ctrl+K"; "" leaves an
+// action unbound
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+export const SHORTCUT_LABELS: Record<ShortcutAction, string> = {
+  togglePlayback: "Play / pause",
+  back10ms: "Back 10 ms",
+  forward10ms: "Forward 10 ms",
+  back100ms: "Back 100 ms",
+  forward100ms: "Forward 100 ms",
+  back10s: "Back 10 s",
+  forward10s: "Forward 10 s",
+  back1m: "Back 1 min",
+  forward1m: "Forward 1 min",
+  back10m: "Back 10 min",
+  forward10m: "Forward 10 min",
+  previousSentence: "Previous sentence",
+  nextSentence: "Next sentence",
+  previousWord: "Previous word",
+  nextWord: "Next word",
+  previousSubphrase: "Previous subphrase",
+  nextSubphrase: "Next subphrase",
+  showHelp: "Show shortcuts",
+};
+
+export const DEFAULT_BINDINGS: ShortcutBindings = {
+  togglePlayback: "Space",
+  back10ms: "ArrowLeft",
+  forward10ms: "ArrowRight",
+  back100ms: "Shift+ArrowLeft",
+  forward100ms: "Shift+ArrowRight",
+  back10s: "Ctrl+ArrowLeft",
+  forward10s: "Ctrl+ArrowRight",
+  back1m: "Ctrl+Shift+ArrowLeft",
+  forward1m: "Ctrl+Shift+ArrowRight",
+  back10m: "",
+  forward10m: "",
+  previousSentence: "ArrowUp",
+  nextSentence: "ArrowDown",
+  previousWord: ",",
+  nextWord: ".",
+  previousSubphrase: "[",
+  nextSubphrase: "]",
+  showHelp: "?",
+};
+
+const STORAGE_KEY = "shortcutBindings";
+
+/**
+ * Names the key combo of a keyboard event. Shift is only spelled out for
+ * letters and named keys, since it is already part of characters like "?".
+ */
+export function comboFromEvent(event: KeyboardEvent): string {
+  const { key } = event;
+  if (["Control", "Alt", "Shift", "Meta"].includes(key)) return "";
+  const isCharacter = key.length === 1 && key !== " ";
+  const isLetter = isCharacter && key.toLowerCase() !== key.toUpperCase();
+  const parts: string[] = [];
+  if (event.ctrlKey) parts.push("Ctrl");
+  if (event.altKey) parts.push("Alt");
+  if (event.shiftKey && (!isCharacter || isLetter)) parts.push("Shift");
+  if (event.metaKey) parts.push("Meta");
+  parts.push(key === " " ? "Space" : isLetter ? key.toUpperCase() : key);
+  return parts.join("+");
+}
+
+export function findAction(
+  bindings: ShortcutBindings,
+  combo: string
+): ShortcutAction | undefined {
+  if (!combo) return undefined;
+  return (Object.keys(bindings) as ShortcutAction[]).find(
+    (action) => bindings[action] === combo
+  );
+}
+
+// Text fields keep their keys; shortcuts would eat typed spaces and arrows
+export function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  if (target instanceof HTMLTextAreaElement) return true;
+  if (target instanceof HTMLSelectElement) return true;
+  if (target instanceof HTMLInputElement) {
+    return !["checkbox", "radio", "button", "submit", "reset", "file"].includes(
+      target.type
+    );
+  }
+  return false;
+}
+
+export function loadBindings(): ShortcutBindings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+    const bindings = { ...DEFAULT_BINDINGS };
+    for (const action of Object.keys(DEFAULT_BINDINGS) as ShortcutAction[]) {
+      if (typeof stored?.[action] === "string") {
+        bindings[action] = stored[action];
+      }
+    }
+    return bindings;
+  } catch {
+    return { ...DEFAULT_BINDINGS };
+  }
+}
+
+export function saveBindings(bindings: ShortcutBindings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+  } catch (error) {
+    console.error("Error saving shortcut bindings:", error);
+  }
+}
@@ -0,0 +1,130 @@
+import type React from "react";
+import type { WordTiming } from "./types";
+
+// Diarization below this confidence is flagged as doubtful
+export const LOW_SPEAKER_CONFIDENCE = 0.5;
+
+// Tailwind 400 shades, readable on both the light and dark backgrounds
+const SPEAKER_COLORS = [
+  "#60a5fa", // blue
+  "#f472b6", // pink
+  "#34d399", // emerald
+  "#fbbf24", // amber
+  "#a78bfa", // violet
+  "#f87171", // red
+  "#22d3ee", // cyan
+  "#a3e635", // lime
+];
+
+export type SpeakerFilterMode = "highlight" | "play";
+
+export type SpeakerFilter = {
+  // Speaker key to focus on, null for everyone
+  speaker: string | null;
+  mode: SpeakerFilterMode;
+};
+
+// Speakers arrive as numbers (dubbing transcripts, Deepgram) or labels such
+// as "A" or "SPEAKER_00"; keys compare them as strings
+export function speakerKey(timing: WordTiming): string | undefined {
+  return timing.speaker === undefined || timing.speaker === null
+    ? undefined
+    : String(timing.speaker);
+}
+
+// Speaker keys in order of first appearance
+export function collectSpeakers(timings: WordTiming[]): string[] {
+  const speakers = new Set<string>();
+  for (const timing of timings) {
+    const key = speakerKey(timing);
+    if (key !== undefined) speakers.add(key);
+  }
+  return [...speakers];
+}
+
+export function defaultSpeakerName(key: string): string {
+  return /^[A-Za-z0-9]{1,3}$/.test(key) ? `Speaker ${key}` : key;
+}
+
+export function speakerColor(speakers: string[], key: string | undefined) {
+  const index = key === undefined ? -1 : speakers.indexOf(key);
+  return index === -1
+    ? undefined
+    : SPEAKER_COLORS[index % SPEAKER_COLORS.length];
+}
+
+export function hasLowSpeakerConfidence(timing: WordTiming): boolean {
+  return (
+    timing.speakerConfidence !== undefined &&
+    timing.speakerConfidence < LOW_SPEAKER_CONFIDENCE
+  );
+}
+
+export function isFilteredOut(timing: WordTiming, filter: SpeakerFilter) {
+  return filter.speaker !== null && speakerKey(timing) !== filter.speaker;
+}
+
+/**
+ * Styles a word with its speaker's color, dimmed when the filter hides its
+ * speaker and underlined when the diarization is doubtful.
+ */
+export function speakerStyle(
+  timing: WordTiming,
+  speakers: string[],
+  filter: SpeakerFilter
+): React.CSSProperties {
+  const color = speakerColor(speakers, speakerKey(timing));
+  if (!color) return {};
+  const isDoubtful = hasLowSpeakerConfidence(timing);
+  return {
+    boxShadow: `inset 0 -3px 0 ${color}`,
+    opacity: isFilteredOut(timing, filter) ? 0.3 : undefined,
+    textDecorationLine: isDoubtful ? "underline" : undefined,
+    textDecorationStyle: isDoubtful ? "wavy" : undefined,
+    textDecorationColor: isDoubtful ? "#f97316" : undefined, // orange-500
+  };
+}
+
+/**
+ * Time ranges in which the given speaker talks, one per sentence and merged
+ * where they touch, sorted by start.
+ */
+export function speakerLines(
+  timings: WordTiming[],
+  speaker: string
+): { start: number; end: number }[] {
+  const bySentence = new Map<number, { start: number; end: number }>();
+  // Words outside any sentence each count as their own line
+  const lines: { start: number; end: number }[] = [];
+  for (const timing of timings) {
+    if (speakerKey(timing) !== speaker || timing.language === "original") {
+      continue;
+    }
+    if (timing.sentenceIndex === undefined) {
+      lines.push({ start: timing.start, end: timing.end });
+      continue;
+    }
+    const line = bySentence.get(timing.sentenceIndex);
+    if (line) {
+      line.start = Math.min(line.start, timing.start);
+      line.end = Math.max(line.end, timing.end);
+    } else {
+      bySentence.set(timing.sentenceIndex, {
+        start: timing.start,
+        end: timing.end,
+      });
+    }
+  }
+  lines.push(...bySentence.values());
+  lines.sort((a, b) => a.start - b.start);
+  const merged: { start: number; end: number }[] = [];
+  for (const line of lines) {
+    const last = merged.at(-1);
+    if (last && line.start <= last.end) {
+      last.end = Math.max(last.end, line.end);
+    } else {
+      merged.push({ ...line });
+    }
+  }
+  return merged;
+}
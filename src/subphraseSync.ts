@@ -0,0 +1,96 @@
+import type { SubphraseTiming } from "./types";
+import { TimeIndex } from "./timeIndex";
+
+// Which recording a time refers to: the dub (translated) or the original
+export type AudioSide = "original" | "translated";
+
+type SubphraseSpan = { start: number; end: number; subphrase: SubphraseTiming };
+
+// Subphrases indexed by their times in each recording
+export type SubphraseIndex = Record<AudioSide, TimeIndex<SubphraseSpan>>;
+
+function spanOf(subphrase: SubphraseTiming, side: AudioSide) {
+  return side === "original"
+    ? { start: subphrase.startOriginal, end: subphrase.endOriginal }
+    : { start: subphrase.start, end: subphrase.end };
+}
+
+function otherSide(side: AudioSide): AudioSide {
+  return side === "original" ? "translated" : "original";
+}
+
+// Built once per set of subphrases, for lookups on every clock tick
+export function indexSubphrases(
+  subphraseTimings: SubphraseTiming[]
+): SubphraseIndex {
+  const indexSide = (side: AudioSide) =>
+    new TimeIndex(
+      subphraseTimings.map((subphrase) => ({
+        ...spanOf(subphrase, side),
+        subphrase,
+      }))
+    );
+  return {
+    original: indexSide("original"),
+    translated: indexSide("translated"),
+  };
+}
+
+export function findSubphraseAt(
+  index: SubphraseIndex,
+  time: number,
+  side: AudioSide
+): SubphraseTiming | undefined {
+  return index[side]
+    .findOverlapping(time)
+    .find((span) => time >= span.start && time < span.end)?.subphrase;
+}
+
+function interpolate(
+  time: number,
+  from: { start: number; end: number },
+  to: { start: number; end: number }
+) {
+  const length = from.end - from.start;
+  if (length <= 0) return to.start;
+  const progress = Math.min(1, Math.max(0, (time - from.start) / length));
+  return to.start + progress * (to.end - to.start);
+}
+
+/**
+ * Maps a time in one recording to the matching time in the other, keeping
+ * the relative position inside the enclosing subphrase. Between subphrases
+ * the gap is stretched linearly; before the first and after the last one the
+ * nearest subphrase's offset is kept.
+ */
+export function mapTime(
+  index: SubphraseIndex,
+  time: number,
+  from: AudioSide
+): number {
+  const to = otherSide(from);
+  // Within EPSILON of a subphrase counts as inside it, so the neighbours
+  // below are the closest subphrases on either side
+  const containing = index[from].findOverlapping(time).at(0)?.subphrase;
+  if (containing) {
+    return interpolate(time, spanOf(containing, from), spanOf(containing, to));
+  }
+
+  const previous = index[from].previous(time)?.subphrase;
+  const next = index[from].next(time)?.subphrase;
+  if (!previous && !next) return time;
+  if (!previous) {
+    return time - spanOf(next!, from).start + spanOf(next!, to).start;
+  }
+  if (!next) {
+    return Math.max(
+      0,
+      time - spanOf(previous, from).end + spanOf(previous, to).end
+    );
+  }
+  return interpolate(
+    time,
+    { start: spanOf(previous, from).end, end: spanOf(next, from).start },
+    { start: spanOf(previous, to).end, end: spanOf(next, to).start }
+  );
+}
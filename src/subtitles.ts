@@ -0,0 +1,285 @@
+import type { SubphraseTiming, WordTiming } from "./types";
+import { TimeIndex } from "./timeIndex";
+
+export type SubtitleFormat = "srt" | "vtt" | "ass";
+
+export type SubtitleOptions = {
+  language: "original" | "translated";
+  grouping: "sentence" | "subphrase";
+  // Characters per line; cues hold at most two lines
+  maxLineLength: number;
+  // Seconds
+  maxCueDuration: number;
+};
+
+export type Cue = {
+  start: number;
+  end: number;
+  lines: string[];
+  // Per-word timings for karaoke; empty when only cue-level timing is known
+  words: WordTiming[];
+};
+
+export const DEFAULT_SUBTITLE_OPTIONS: SubtitleOptions = {
+  language: "translated",
+  grouping: "sentence",
+  maxLineLength: 42,
+  maxCueDuration: 7,
+};
+
+const MAX_LINES_PER_CUE = 2;
+
+function wordText(timing: WordTiming) {
+  return timing.punctuated_word || timing.word;
+}
+
+// Words without a language tag come from single-language sources and are
+// included whichever language is selected
+function matchesLanguage(
+  timing: WordTiming,
+  language: SubtitleOptions["language"]
+) {
+  return !timing.language || timing.language === language;
+}
+
+export function wrapLines(text: string, maxLineLength: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && line.length + 1 + word.length > maxLineLength) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+/**
+ * Splits a run of words into cues that fit within the line length and
+ * duration limits, breaking only between words.
+ */
+function splitWordsIntoCues(
+  words: WordTiming[],
+  options: SubtitleOptions
+): Cue[] {
+  const cues: Cue[] = [];
+  let current: WordTiming[] = [];
+
+  const flush = () => {
+    if (current.length === 0) return;
+    cues.push({
+      start: current[0].start,
+      end: current[current.length - 1].end,
+      lines: wrapLines(current.map(wordText).join(" "), options.maxLineLength),
+      words: current,
+    });
+    current = [];
+  };
+
+  for (const word of words) {
+    if (current.length > 0) {
+      const candidate = [...current, word].map(wordText).join(" ");
+      const tooLong =
+        wrapLines(candidate, options.maxLineLength).length > MAX_LINES_PER_CUE;
+      const tooSlow = word.end - current[0].start > options.maxCueDuration;
+      if (tooLong || tooSlow) flush();
+    }
+    current.push(word);
+  }
+  flush();
+  return cues;
+}
+
+export function buildCues(
+  timings: WordTiming[],
+  subphraseTimings: SubphraseTiming[],
+  options: SubtitleOptions
+): Cue[] {
+  const words = timings
+    .filter((timing) => matchesLanguage(timing, options.language))
+    .sort((a, b) => a.start - b.start);
+
+  if (options.grouping === "subphrase" && subphraseTimings.length > 0) {
+    const index = new TimeIndex(words);
+    const cues: Cue[] = [];
+    for (const subphrase of subphraseTimings) {
+      const isOriginal = options.language === "original";
+      const start = isOriginal ? subphrase.startOriginal : subphrase.start;
+      const end = isOriginal ? subphrase.endOriginal : subphrase.end;
+      const subphraseWords = index
+        .findInRange(start, end)
+        .filter((w) => w.start >= start && w.end <= end);
+      if (subphraseWords.length > 0) {
+        cues.push(...splitWordsIntoCues(subphraseWords, options));
+      } else {
+        const text = isOriginal
+          ? subphrase.textOriginal
+          : subphrase.textTranslated;
+        cues.push({
+          start,
+          end,
+          lines: wrapLines(text, options.maxLineLength),
+          words: [],
+        });
+      }
+    }
+    return cues.sort((a, b) => a.start - b.start);
+  }
+
+  // Group consecutive words that share a sentence index
+  const cues: Cue[] = [];
+  let group: WordTiming[] = [];
+  for (const word of words) {
+    if (group.length > 0 && word.sentenceIndex !== group[0].sentenceIndex) {
+      cues.push(...splitWordsIntoCues(group, options));
+      group = [];
+    }
+    group.push(word);
+  }
+  cues.push(...splitWordsIntoCues(group, options));
+  return cues;
+}
+
+function splitTime(seconds: number) {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  return {
+    hours: Math.floor(totalMs / 3600000),
+    minutes: Math.floor((totalMs % 3600000) / 60000),
+    seconds: Math.floor((totalMs % 60000) / 1000),
+    milliseconds: totalMs % 1000,
+  };
+}
+
+function pad(value: number, length = 2) {
+  return value.toString().padStart(length, "0");
+}
+
+function formatCueTime(seconds: number, separator: "," | ".") {
+  const t = splitTime(seconds);
+  return `${pad(t.hours)}:${pad(t.minutes)}:${pad(t.seconds)}${separator}${pad(
+    t.milliseconds,
+    3
+  )}`;
+}
+
+function formatAssTime(seconds: number) {
+  const t = splitTime(seconds);
+  return `${t.hours}:${pad(t.minutes)}:${pad(t.seconds)}.${pad(
+    Math.floor(t.milliseconds / 10)
+  )}`;
+}
+
+export function toSrt(cues: Cue[]): string {
+  return cues
+    .map(
+      (cue, i) =>
+        `${i + 1}\n${formatCueTime(cue.start, ",")} --> ${formatCueTime(
+          cue.end,
+          ","
+        )}\n${cue.lines.join("\n")}\n`
+    )
+    .join("\n");
+}
+
+// WebVTT reads cue text as markup: & starts an entity, < a tag, and "-->"
+// may not appear at all
+function escapeVttText(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+export function toWebVtt(cues: Cue[]): string {
+  return `WEBVTT\n\n${cues
+    .map(
+      (cue) =>
+        `${formatCueTime(cue.start, ".")} --> ${formatCueTime(
+          cue.end,
+          "."
+        )}\n${cue.lines.map(escapeVttText).join("\n")}\n`
+    )
+    .join("\n")}`;
+}
+
+// Braces would open an override block; libass reads them escaped
+function escapeAssText(text: string) {
+  return text.replace(/[{}]/g, "\\$&");
+}
+
+// Renders the cue text with a \k tag (centiseconds) per word, including
+// silent gaps, so players highlight each word as it is spoken
+function assKaraokeText(cue: Cue, maxLineLength: number): string {
+  if (cue.words.length === 0) {
+    const duration = Math.round((cue.end - cue.start) * 100);
+    return `{\\k${duration}}${cue.lines.map(escapeAssText).join("\\N")}`;
+  }
+  let text = "";
+  let cursor = cue.start;
+  let lineLength = 0;
+  for (const word of cue.words) {
+    const gap = Math.round((word.start - cursor) * 100);
+    if (gap > 0) text += `{\\k${gap}}`;
+    const label = wordText(word);
+    if (lineLength > 0) {
+      const breakLine = lineLength + 1 + label.length > maxLineLength;
+      text += breakLine ? "\\N" : " ";
+      lineLength = breakLine ? 0 : lineLength + 1;
+    }
+    const duration = Math.max(0, Math.round((word.end - word.start) * 100));
+    text += `{\\k${duration}}${escapeAssText(label)}`;
+    lineLength += label.length;
+    cursor = Math.max(cursor, word.end);
+  }
+  return text;
+}
+
+export function toAss(cues: Cue[], maxLineLength: number): string {
+  const header = [
+    "[Script Info]",
+    "ScriptType: v4.00+",
+    "PlayResX: 1920",
+    "PlayResY: 1080",
+    "WrapStyle: 2",
+    "",
+    "[V4+ Styles]",
+    "Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding",
+    "Style: Default,Arial,64,&H0000FFFF,&H00FFFFFF,&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,3,0,2,60,60,60,1",
+    "",
+    "[Events]",
+    "Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text",
+  ];
+  const events = cues.map(
+    (cue) =>
+      `Dialogue: 0,${formatAssTime(cue.start)},${formatAssTime(
+        cue.end
+      )},Default,,0,0,0,,${assKaraokeText(cue, maxLineLength)}`
+  );
+  return [...header, ...events, ""].join("\n");
+}
+
+export function formatSubtitles(
+  format: SubtitleFormat,
+  timings: WordTiming[],
+  subphraseTimings: SubphraseTiming[],
+  options: SubtitleOptions
+): string {
+  const cues = buildCues(timings, subphraseTimings, options);
+  switch (format) {
+    case "srt":
+      return toSrt(cues);
+    case "vtt":
+      return toWebVtt(cues);
+    case "ass":
+      return toAss(cues, options.maxLineLength);
+  }
+}
+
+export const SUBTITLE_MIME_TYPES: Record<SubtitleFormat, string> = {
+  srt: "application/x-subrip",
+  vtt: "text/vtt",
+  ass: "text/x-ssa",
+};
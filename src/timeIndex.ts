@@ -0,0 +1,129 @@
+// Tolerance for floating point noise in word times
+export const EPSILON = 0.001;
+
+type Timed = { start: number; end: number };
+
+// A built index as plain arrays, so it can be posted between threads with
+// its buffers transferred and rebuilt around the same items without sorting
+export type PackedTimeIndex = {
+  // Position in the original items of each item in start order
+  order: Uint32Array;
+  starts: Float64Array;
+  maxEnds: Float64Array;
+};
+
+// Index of the first start greater than time, or at least time when
+// `inclusive`
+function bound(starts: Float64Array, time: number, inclusive = false) {
+  let low = 0;
+  let high = starts.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (starts[mid] < time || (!inclusive && starts[mid] === time)) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * Time lookups over a fixed set of timings, built once and rebuilt when the
+ * timings change. Items are kept sorted by start, with a max-end tree over
+ * them so a query only visits branches that can still overlap: point and
+ * range queries take O(log n + matches), next/previous lookups O(log n).
+ * Edges are matched within EPSILON, and results come in start order, ties
+ * in input order.
+ */
+export class TimeIndex<T extends Timed> {
+  // Sorted by start
+  readonly items: T[];
+  private readonly order: Uint32Array;
+  private readonly starts: Float64Array;
+  // Implicit binary tree: node i has children 2i and 2i + 1, and leaves
+  // start at `leafCount`; each node holds the latest end below it
+  private readonly maxEnds: Float64Array;
+  private readonly leafCount: number;
+
+  // `packed` must come from an index over the same items
+  constructor(items: readonly T[], packed?: PackedTimeIndex) {
+    if (packed) {
+      this.order = packed.order;
+      this.items = Array.from(packed.order, (i) => items[i]);
+      this.starts = packed.starts;
+      this.maxEnds = packed.maxEnds;
+      this.leafCount = packed.maxEnds.length / 2;
+      return;
+    }
+
+    // Array sort is stable, which keeps ties in input order
+    this.order = Uint32Array.from(
+      Array.from(items.keys()).sort((a, b) => items[a].start - items[b].start)
+    );
+    this.items = Array.from(this.order, (i) => items[i]);
+    this.starts = Float64Array.from(this.items, (item) => item.start);
+
+    let leafCount = 1;
+    while (leafCount < this.items.length) leafCount *= 2;
+    this.leafCount = leafCount;
+    this.maxEnds = new Float64Array(2 * leafCount).fill(-Infinity);
+    this.items.forEach((item, i) => {
+      this.maxEnds[leafCount + i] = item.end;
+    });
+    for (let node = leafCount - 1; node > 0; node--) {
+      this.maxEnds[node] = Math.max(
+        this.maxEnds[2 * node],
+        this.maxEnds[2 * node + 1]
+      );
+    }
+  }
+
+  get size() {
+    return this.items.length;
+  }
+
+  pack(): PackedTimeIndex {
+    return { order: this.order, starts: this.starts, maxEnds: this.maxEnds };
+  }
+
+  // Items whose span contains the point
+  findOverlapping(point: number): T[] {
+    return this.findInRange(point, point);
+  }
+
+  // Items overlapping the span from `from` to `to`
+  findInRange(from: number, to: number): T[] {
+    const result: T[] = [];
+    // Only items starting by `to` can overlap, and they form a prefix
+    const limit = bound(this.starts, to + EPSILON);
+    const minEnd = from - EPSILON;
+    if (limit === 0) return result;
+
+    // Depth-first, left to right, as [node, first item, item count]
+    const stack: [number, number, number][] = [[1, 0, this.leafCount]];
+    while (stack.length > 0) {
+      const [node, first, count] = stack.pop()!;
+      if (first >= limit || this.maxEnds[node] < minEnd) continue;
+      if (count === 1) {
+        result.push(this.items[first]);
+        continue;
+      }
+      const half = count / 2;
+      stack.push([2 * node + 1, first + half, half]);
+      stack.push([2 * node, first, half]);
+    }
+    return result;
+  }
+
+  // First item starting after the time
+  next(time: number): T | undefined {
+    return this.items[bound(this.starts, time + EPSILON)];
+  }
+
+  // Last item starting before the time
+  previous(time: number): T | undefined {
+    const index = bound(this.starts, time - EPSILON, true) - 1;
+    return index >= 0 ? this.items[index] : undefined;
+  }
+}
@@ -0,0 +1,257 @@
+import type { JsonPath, SubphraseTiming, WordTiming } from "./types";
+import { EPSILON } from "./timeIndex";
+import { formatJsonPath, type Severity } from "./validation";
+
+export type TimingRule =
+  | "end-before-start"
+  | "zero-length"
+  | "overlap"
+  | "non-monotonic"
+  | "long-gap"
+  | "past-duration"
+  | "subphrase-outside-sentence";
+
+export type TimingFinding = {
+  rule: TimingRule;
+  severity: Severity;
+  message: string;
+  // Region to seek to when the finding is clicked
+  start: number;
+  end: number;
+  language?: string;
+  sentenceIndex?: number;
+  text?: string;
+  sourcePath?: JsonPath;
+};
+
+export type TimingCheckOptions = {
+  // Audio duration in seconds; 0 when unknown
+  duration: number;
+  // Seconds of silence between consecutive words worth flagging
+  gapThreshold: number;
+};
+
+export const TIMING_RULE_LABELS: Record<TimingRule, string> = {
+  "end-before-start": "End before start",
+  "zero-length": "Zero-length word",
+  overlap: "Overlapping words",
+  "non-monotonic": "Non-monotonic start",
+  "long-gap": "Long gap",
+  "past-duration": "Past end of audio",
+  "subphrase-outside-sentence": "Subphrase outside sentence",
+};
+
+function wordText(timing: WordTiming) {
+  return timing.punctuated_word || timing.word;
+}
+
+// Words sharing one span, like those of a caption cue, were timed together
+// and don't overlap each other
+function sameSpan(a: WordTiming, b: WordTiming) {
+  return (
+    Math.abs(a.start - b.start) <= EPSILON && Math.abs(a.end - b.end) <= EPSILON
+  );
+}
+
+function languageKey(timing: WordTiming) {
+  return timing.language ?? "words";
+}
+
+function checkWords(
+  timings: WordTiming[],
+  options: TimingCheckOptions
+): TimingFinding[] {
+  const findings: TimingFinding[] = [];
+  // Previous word seen in each language, in document order
+  const previousByLanguage = new Map<string, WordTiming>();
+
+  for (const timing of timings) {
+    const base = {
+      language: timing.language,
+      sentenceIndex: timing.sentenceIndex,
+      text: wordText(timing),
+      sourcePath: timing.sourcePath,
+    };
+
+    if (timing.end < timing.start) {
+      findings.push({
+        ...base,
+        rule: "end-before-start",
+        severity: "error",
+        message: `ends ${(timing.start - timing.end).toFixed(
+          3
+        )}s before it starts`,
+        start: timing.end,
+        end: timing.start,
+      });
+    } else if (timing.end - timing.start < EPSILON) {
+      findings.push({
+        ...base,
+        rule: "zero-length",
+        severity: "warning",
+        message: "has no duration",
+        start: timing.start,
+        end: timing.end,
+      });
+    }
+
+    if (options.duration > 0 && timing.end > options.duration + EPSILON) {
+      findings.push({
+        ...base,
+        rule: "past-duration",
+        severity: "error",
+        message: `ends at ${timing.end.toFixed(
+          3
+        )}s, after the audio ends at ${options.duration.toFixed(3)}s`,
+        start: Math.min(timing.start, options.duration),
+        end: timing.end,
+      });
+    }
+
+    const key = languageKey(timing);
+    const previous = previousByLanguage.get(key);
+    if (previous) {
+      if (timing.start < previous.start - EPSILON) {
+        findings.push({
+          ...base,
+          rule: "non-monotonic",
+          severity: "error",
+          message: `starts ${(previous.start - timing.start).toFixed(
+            3
+          )}s before the previous word "${wordText(previous)}"`,
+          start: timing.start,
+          end: previous.end,
+        });
+      } else if (
+        timing.start < previous.end - EPSILON &&
+        !sameSpan(timing, previous)
+      ) {
+        findings.push({
+          ...base,
+          rule: "overlap",
+          severity: "warning",
+          message: `overlaps "${wordText(previous)}" by ${(
+            previous.end - timing.start
+          ).toFixed(3)}s`,
+          start: timing.start,
+          end: previous.end,
+        });
+      } else if (timing.start - previous.end > options.gapThreshold) {
+        findings.push({
+          ...base,
+          rule: "long-gap",
+          severity: "warning",
+          message: `${(timing.start - previous.end).toFixed(
+            3
+          )}s gap after "${wordText(previous)}"`,
+          start: previous.end,
+          end: timing.start,
+        });
+      }
+    }
+    previousByLanguage.set(key, timing);
+  }
+
+  return findings;
+}
+
+// Checks one side of a subphrase against the span its sentence or phrase
+// declares in the source document
+function checkSubphraseSide(
+  subphrase: SubphraseTiming,
+  language: "original" | "translated"
+): TimingFinding | undefined {
+  const { parent } = subphrase;
+  if (!parent) return undefined;
+  const [start, end, parentStart, parentEnd, text] =
+    language === "original"
+      ? [
+          subphrase.startOriginal,
+          subphrase.endOriginal,
+          parent.startOriginal,
+          parent.endOriginal,
+          subphrase.textOriginal,
+        ]
+      : [
+          subphrase.start,
+          subphrase.end,
+          parent.start,
+          parent.end,
+          subphrase.textTranslated,
+        ];
+  const startsBefore =
+    parentStart !== undefined && start < parentStart - EPSILON;
+  const endsAfter = parentEnd !== undefined && end > parentEnd + EPSILON;
+  if (!startsBefore && !endsAfter) return undefined;
+
+  const declared = `${parentStart?.toFixed(3) ?? "?"}–${
+    parentEnd?.toFixed(3) ?? "?"
+  }s`;
+  return {
+    rule: "subphrase-outside-sentence",
+    severity: "error",
+    message: `${language} ${start.toFixed(3)}–${end.toFixed(
+      3
+    )}s falls outside its ${parent.kind} (${declared})`,
+    start,
+    end,
+    language,
+    sentenceIndex: subphrase.sentenceIndex,
+    text,
+  };
+}
+
+function checkSubphrases(subphraseTimings: SubphraseTiming[]): TimingFinding[] {
+  return subphraseTimings.flatMap((subphrase) =>
+    (["original", "translated"] as const).flatMap(
+      (language) => checkSubphraseSide(subphrase, language) ?? []
+    )
+  );
+}
+
+export function checkTimings(
+  timings: WordTiming[],
+  subphraseTimings: SubphraseTiming[],
+  options: TimingCheckOptions
+): TimingFinding[] {
+  return [
+    ...checkWords(timings, options),
+    ...checkSubphrases(subphraseTimings),
+  ].sort((a, b) => a.start - b.start);
+}
+
+function csvField(value: string | number | undefined): string {
+  if (value === undefined) return "";
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function findingsToCsv(findings: TimingFinding[]): string {
+  const header = [
+    "rule",
+    "severity",
+    "start",
+    "end",
+    "language",
+    "sentenceIndex",
+    "text",
+    "message",
+    "sourcePath",
+  ];
+  const rows = findings.map((f) =>
+    [
+      f.rule,
+      f.severity,
+      f.start.toFixed(3),
+      f.end.toFixed(3),
+      f.language,
+      f.sentenceIndex,
+      f.text,
+      f.message,
+      f.sourcePath ? formatJsonPath(f.sourcePath) : undefined,
+    ]
+      .map(csvField)
+      .join(",")
+  );
+  return [header.join(","), ...rows].join("\n") + "\n";
+}
@@ -0,0 +1,100 @@
+import type { SubphraseTiming, WordTiming } from "./types";
+
+/**
+ * Maps a transcript time to the audio as `time * scale + offset`. The offset
+ * covers constant shifts like MP3 decoder delay; the scale covers drift from
+ * transcripts made against audio at a slightly different sample rate.
+ */
+export type TimingCorrection = {
+  offset: number;
+  scale: number;
+};
+
+export const IDENTITY_CORRECTION: TimingCorrection = { offset: 0, scale: 1 };
+
+// A word as placed in the transcript and where it is actually heard
+export type CalibrationPoint = {
+  transcriptTime: number;
+  audioTime: number;
+};
+
+export function isIdentityCorrection(correction: TimingCorrection) {
+  return correction.offset === 0 && correction.scale === 1;
+}
+
+export function correctTime(time: number, correction: TimingCorrection) {
+  return time * correction.scale + correction.offset;
+}
+
+export function uncorrectTime(time: number, correction: TimingCorrection) {
+  return (time - correction.offset) / correction.scale;
+}
+
+// Rounded to the millisecond like edited timings, and never before zero
+function correctRounded(time: number, correction: TimingCorrection) {
+  return Math.max(0, Math.round(correctTime(time, correction) * 1000) / 1000);
+}
+
+// The correction fits the loaded (dub) audio; original-language words are
+// timed against the original recording and keep their times
+export function isCorrectedTiming(timing: WordTiming) {
+  return timing.language !== "original";
+}
+
+export function correctTimings(
+  timings: WordTiming[],
+  correction: TimingCorrection
+): WordTiming[] {
+  if (isIdentityCorrection(correction)) return timings;
+  return timings.map((timing) =>
+    isCorrectedTiming(timing)
+      ? {
+          ...timing,
+          start: correctRounded(timing.start, correction),
+          end: correctRounded(timing.end, correction),
+        }
+      : timing
+  );
+}
+
+function correctOptional(
+  time: number | undefined,
+  correction: TimingCorrection
+) {
+  return time === undefined ? undefined : correctRounded(time, correction);
+}
+
+// Only the dubbed side moves, as with the words
+export function correctSubphraseTimings(
+  subphraseTimings: SubphraseTiming[],
+  correction: TimingCorrection
+): SubphraseTiming[] {
+  if (isIdentityCorrection(correction)) return subphraseTimings;
+  return subphraseTimings.map(({ parent, ...subphrase }) => ({
+    ...subphrase,
+    start: correctRounded(subphrase.start, correction),
+    end: correctRounded(subphrase.end, correction),
+    ...(parent && {
+      parent: {
+        ...parent,
+        start: correctOptional(parent.start, correction),
+        end: correctOptional(parent.end, correction),
+      },
+    }),
+  }));
+}
+
+/**
+ * Solves the offset and scale that move both points onto their audio times.
+ * Returns null when the points are too close together to tell drift apart.
+ */
+export function solveCalibration(
+  first: CalibrationPoint,
+  second: CalibrationPoint
+): TimingCorrection | null {
+  const span = second.transcriptTime - first.transcriptTime;
+  if (Math.abs(span) < 0.001) return null;
+  const scale = (second.audioTime - first.audioTime) / span;
+  if (!(scale > 0)) return null;
+  return { offset: first.audioTime - first.transcriptTime * scale, scale };
+}
@@ -0,0 +1,128 @@
+import type { JsonPath, WordTiming } from "./types";
+
+// Shortest span a word can be edited down to, in seconds
+export const MIN_WORD_DURATION = 0.01;
+
+// New start/end for the word at `index` in the timings
+export type TimingEdit = { index: number; start: number; end: number };
+
+function resolvePath(data: unknown, path: JsonPath): unknown {
+  let current = data;
+  for (const key of path) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = (current as Record<string | number, unknown>)[key];
+  }
+  return current;
+}
+
+function writeStartEnd(target: Record<string, unknown>, timing: WordTiming) {
+  target.start = timing.start;
+  target.end = timing.end;
+}
+
+/**
+ * Writes the (possibly edited) start/end of every timing back into a copy of
+ * the JSON it was loaded from, so the export keeps the original shape.
+ */
+export function applyTimingEdits<T>(
+  source: T,
+  timings: WordTiming[],
+  writeTiming: (
+    target: Record<string, unknown>,
+    timing: WordTiming
+  ) => void = writeStartEnd
+): T {
+  const result = structuredClone(source);
+  for (const timing of timings) {
+    if (!timing.sourcePath) continue;
+    const target = resolvePath(result, timing.sourcePath);
+    if (target && typeof target === "object") {
+      writeTiming(target as Record<string, unknown>, timing);
+    }
+  }
+  return result;
+}
+
+/**
+ * Returns the closest words before and after `index` in the same language,
+ * which frame the editor and bound how far the word's edges can move.
+ */
+export function findNeighbours(
+  timings: WordTiming[],
+  index: number
+): { prev: WordTiming | undefined; next: WordTiming | undefined } {
+  const language = timings[index]?.language;
+  let prev: WordTiming | undefined;
+  let next: WordTiming | undefined;
+  for (let i = index - 1; i >= 0; i--) {
+    if (timings[i].language === language) {
+      prev = timings[i];
+      break;
+    }
+  }
+  for (let i = index + 1; i < timings.length; i++) {
+    if (timings[i].language === language) {
+      next = timings[i];
+      break;
+    }
+  }
+  return { prev, next };
+}
+
+export type TimingEdge = "start" | "end";
+
+// Range the moved edge is kept within
+export type EdgeBounds = { min: number; max: number };
+
+// Up to the neighbours' edges, or the word's own when it already overlaps
+// them, so an edit never makes an overlap worse
+export function neighbourBounds(
+  timing: WordTiming,
+  prev: WordTiming | undefined,
+  next: WordTiming | undefined
+): EdgeBounds {
+  return {
+    min: prev ? Math.min(prev.end, timing.start) : 0,
+    max: next ? Math.max(next.start, timing.end) : Infinity,
+  };
+}
+
+export function clampWordTiming(
+  start: number,
+  end: number,
+  edge: TimingEdge,
+  bounds: EdgeBounds = { min: 0, max: Infinity }
+): { start: number; end: number } {
+  const clamp = (time: number) =>
+    Math.min(bounds.max, Math.max(bounds.min, time));
+  const roundedStart = Math.max(
+    0,
+    Math.round((edge === "start" ? clamp(start) : start) * 1000) / 1000
+  );
+  const roundedEnd = Math.max(
+    0,
+    Math.round((edge === "end" ? clamp(end) : end) * 1000) / 1000
+  );
+  if (roundedEnd - roundedStart >= MIN_WORD_DURATION) {
+    return { start: roundedStart, end: roundedEnd };
+  }
+  // Keep the edge that isn't being moved fixed
+  return edge === "start"
+    ? {
+        start: Math.max(0, roundedEnd - MIN_WORD_DURATION),
+        end: roundedEnd,
+      }
+    : { start: roundedStart, end: roundedStart + MIN_WORD_DURATION };
+}
+
+// Moves one edge of the word by `seconds`
+export function nudgeWordTiming(
+  timing: WordTiming,
+  edge: TimingEdge,
+  seconds: number,
+  bounds?: EdgeBounds
+): { start: number; end: number } {
+  return edge === "start"
+    ? clampWordTiming(timing.start + seconds, timing.end, "start", bounds)
+    : clampWordTiming(timing.start, timing.end + seconds, "end", bounds);
+}
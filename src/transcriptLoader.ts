@@ -0,0 +1,256 @@
+import type { SentenceAlignment, SubphraseTiming, WordTiming } from "./types";
+import { extractCaptionTimings, detectCaptionFormat } from "./captions";
+import { findAudioLocations, type AudioLocation } from "./audioKey";
+import {
+  lookupBuffers,
+  packLookups,
+  type PackedLookups,
+} from "./transcriptLookups";
+import {
+  detectTranscriptFormat,
+  getTranscriptFormat,
+  readTranscript,
+  type TranscriptFormat,
+  type TranscriptReadResult,
+} from "./formats";
+import { applyTimingEdits } from "./timingEditor";
+
+export type LoadStage = "downloading" | "parsing" | "detecting" | "reading";
+
+export type LoadProgress = {
+  stage: LoadStage;
+  // Share of the stage done, when it can be measured
+  fraction?: number;
+};
+
+export const LOAD_STAGE_LABELS: Record<LoadStage, string> = {
+  downloading: "Downloading",
+  parsing: "Parsing",
+  detecting: "Detecting format",
+  reading: "Reading words",
+};
+
+// Outcome of reading parsed JSON with one format
+export type FormatReading = {
+  formatId: string;
+  // Empty apart from validation issues when the format threw on the data
+  result: TranscriptReadResult;
+  failed: boolean;
+  lookups: PackedLookups;
+};
+
+// The parsed JSON itself stays in the worker; the app keeps the text and
+// only parses it again when an export or edit needs the document
+export type TranscriptLoadResult =
+  | {
+      kind: "captions";
+      timings: WordTiming[];
+      label: string;
+      lookups: PackedLookups;
+    }
+  | {
+      kind: "json";
+      // Detected format and every format that could read the data, as ids
+      // since formats don't survive being posted from the worker
+      detectedId: string | undefined;
+      candidateIds: string[];
+      isAmbiguous: boolean;
+      // Found on the profile's paths, in the order of the paths
+      audioLocations: AudioLocation[];
+      originalAudioLocations: AudioLocation[];
+      // Null when no format matched, so one can be picked manually
+      reading: FormatReading | null;
+    }
+  | { kind: "error"; message: string };
+
+export type TranscriptWorkerRequest =
+  | {
+      type: "load";
+      text: string;
+      // Read with this format instead of the detected one
+      formatId?: string;
+      audioPaths: string[];
+      originalAudioPaths: string[];
+    }
+  // Reads the text again with another format
+  | { type: "read"; text: string; formatId: string }
+  // Re-derives the subphrases with the edited words written into the text
+  | { type: "edit"; text: string; formatId: string; edits: WordTiming[] };
+
+// What depends on the word times besides the words themselves
+export type EditedSpans = {
+  subphraseTimings: SubphraseTiming[];
+  alignments: SentenceAlignment[];
+};
+
+type TranscriptWorkerResults = {
+  load: TranscriptLoadResult;
+  read: FormatReading;
+  edit: EditedSpans;
+};
+
+type AnyTranscriptWorkerResult =
+  TranscriptWorkerResults[keyof TranscriptWorkerResults];
+
+export type TranscriptWorkerResult<R extends TranscriptWorkerRequest> =
+  TranscriptWorkerResults[R["type"]];
+
+export type TranscriptWorkerMessage =
+  | { type: "progress"; progress: LoadProgress }
+  | { type: "done"; result: AnyTranscriptWorkerResult }
+  | { type: "error"; message: string };
+
+export function readWithFormat(
+  format: TranscriptFormat,
+  data: unknown
+): FormatReading {
+  try {
+    const result = readTranscript(format, data);
+    return {
+      formatId: format.id,
+      result,
+      failed: false,
+      lookups: packLookups(result.timings),
+    };
+  } catch (error) {
+    console.error(`Error reading JSON as ${format.label}:`, error);
+    return {
+      formatId: format.id,
+      result: {
+        timings: [],
+        subphraseTimings: [],
+        issues: format.validate?.(data) ?? [],
+      },
+      failed: true,
+      lookups: packLookups([]),
+    };
+  }
+}
+
+/**
+ * The loaded JSON document on the main thread. It arrives as the text it was
+ * loaded from and is only parsed when an export or edit needs it; documents
+ * edited since are held parsed.
+ */
+export type SourceDocument = {
+  read: () => unknown;
+  text: () => string;
+};
+
+export function documentFromText(text: string): SourceDocument {
+  let data: unknown;
+  let isParsed = false;
+  return {
+    read: () => {
+      if (!isParsed) {
+        data = JSON.parse(text);
+        isParsed = true;
+      }
+      return data;
+    },
+    text: () => text,
+  };
+}
+
+export function documentFromData(data: unknown): SourceDocument {
+  let text: string | undefined;
+  return {
+    read: () => data,
+    text: () => (text ??= JSON.stringify(data)),
+  };
+}
+
+function parseJson(text: string): { data: unknown } | { error: string } {
+  try {
+    return { data: JSON.parse(text) };
+  } catch (error) {
+    return {
+      error: `Invalid JSON format${
+        error instanceof Error ? `: ${error.message}` : ""
+      }`,
+    };
+  }
+}
+
+/**
+ * Does everything loading a transcript's text takes apart from updating the
+ * UI: caption files first, else a single JSON parse, format detection,
+ * normalization with the detected format or `formatId`, and the time
+ * lookups over the words.
+ */
+export function loadTranscriptText(
+  request: Extract<TranscriptWorkerRequest, { type: "load" }>,
+  onProgress: (progress: LoadProgress) => void
+): TranscriptLoadResult {
+  const { text, formatId, audioPaths, originalAudioPaths } = request;
+  onProgress({ stage: "parsing" });
+
+  // SRT, WebVTT and TTML captions carry no JSON to export edits back into
+  const captionTimings = extractCaptionTimings(text);
+  if (captionTimings) {
+    if (captionTimings.length === 0) {
+      return { kind: "error", message: "No cues found in the caption file" };
+    }
+    return {
+      kind: "captions",
+      timings: captionTimings,
+      label: detectCaptionFormat(text)?.toUpperCase() ?? "",
+      lookups: packLookups(captionTimings),
+    };
+  }
+
+  const parsed = parseJson(text);
+  if ("error" in parsed) return { kind: "error", message: parsed.error };
+  const { data } = parsed;
+
+  onProgress({ stage: "detecting" });
+  const detection = detectTranscriptFormat(data);
+  const format =
+    (formatId && getTranscriptFormat(formatId)) || detection.format;
+
+  onProgress({ stage: "reading" });
+  return {
+    kind: "json",
+    detectedId: detection.format?.id,
+    candidateIds: detection.candidates.map((candidate) => candidate.id),
+    isAmbiguous: detection.isAmbiguous,
+    audioLocations: findAudioLocations(data, audioPaths),
+    originalAudioLocations: findAudioLocations(data, originalAudioPaths),
+    reading: format ? readWithFormat(format, data) : null,
+  };
+}
+
+// What the worker does with one request; throws on unknown formats and
+// unreadable JSON
+export function handleWorkerRequest(
+  request: TranscriptWorkerRequest,
+  onProgress: (progress: LoadProgress) => void
+): AnyTranscriptWorkerResult {
+  if (request.type === "load") return loadTranscriptText(request, onProgress);
+  const format = getTranscriptFormat(request.formatId);
+  if (!format)
+    throw new Error(`Unknown transcript format "${request.formatId}"`);
+  onProgress({ stage: "parsing" });
+  const parsed = parseJson(request.text);
+  if ("error" in parsed) throw new Error(parsed.error);
+  onProgress({ stage: "reading" });
+  if (request.type === "read") return readWithFormat(format, parsed.data);
+  const normalized = format.normalize(
+    applyTimingEdits(parsed.data, request.edits, format.writeTiming)
+  );
+  return {
+    subphraseTimings: normalized.subphraseTimings,
+    alignments: normalized.alignments ?? [],
+  };
+}
+
+// Buffers the worker hands over with a result instead of copying them
+export function resultBuffers(
+  result: AnyTranscriptWorkerResult
+): ArrayBuffer[] {
+  if ("lookups" in result) return lookupBuffers(result.lookups);
+  if ("kind" in result && result.kind === "json" && result.reading) {
+    return lookupBuffers(result.reading.lookups);
+  }
+  return [];
+}
@@ -0,0 +1,146 @@
+import type { WordTiming } from "./types";
+import { TimeIndex, type PackedTimeIndex } from "./timeIndex";
+import { sentenceSpans, type SentenceSpan } from "./navigation";
+
+// What the player looks up by time while a transcript plays
+export type TranscriptLookups = {
+  words: TimeIndex<WordTiming>;
+  sentences: TimeIndex<SentenceSpan>;
+  // Words shown together while one of the sentence's words plays: the
+  // original-language ones where the transcript has both
+  sentenceWords: Map<number, WordTiming[]>;
+  // Whether the transcript pairs original-language words with translated
+  // ones, as phrase documents do; dub transcripts only have the dub's words
+  hasOriginalWords: boolean;
+};
+
+/**
+ * The lookups as typed arrays of positions in the timings, which the
+ * transcript worker posts alongside them with the buffers transferred.
+ */
+export type PackedLookups = {
+  words: PackedTimeIndex;
+  sentences: PackedTimeIndex;
+  // [start, end] pairs, in the order the sentence index refers to
+  sentenceSpans: Float64Array;
+  sentenceKeys: Float64Array;
+  // Words of sentence i are sentenceWords[sentenceWordOffsets[i]] up to
+  // the next offset
+  sentenceWordOffsets: Uint32Array;
+  sentenceWords: Uint32Array;
+  hasOriginalWords: boolean;
+};
+
+function hasOriginalWords(timings: WordTiming[]) {
+  return timings.some((timing) => timing.language === "original");
+}
+
+function groupSentenceWords(timings: WordTiming[]) {
+  const groups = new Map<number, number[]>();
+  timings.forEach((timing, index) => {
+    if (timing.sentenceIndex === undefined) return;
+    if (timing.language && timing.language !== "original") return;
+    const group = groups.get(timing.sentenceIndex) ?? [];
+    group.push(index);
+    groups.set(timing.sentenceIndex, group);
+  });
+  return groups;
+}
+
+export function buildLookups(timings: WordTiming[]): TranscriptLookups {
+  const sentenceWords = new Map<number, WordTiming[]>();
+  for (const [key, group] of groupSentenceWords(timings)) {
+    const words = group.map((index) => timings[index]);
+    sentenceWords.set(key, words);
+  }
+  return {
+    words: new TimeIndex(timings),
+    sentences: new TimeIndex(sentenceSpans(timings)),
+    sentenceWords,
+    hasOriginalWords: hasOriginalWords(timings),
+  };
+}
+
+export function packLookups(timings: WordTiming[]): PackedLookups {
+  const spans = sentenceSpans(timings);
+  const groups = groupSentenceWords(timings);
+  const sentenceWordOffsets = new Uint32Array(groups.size + 1);
+  let i = 0;
+  for (const group of groups.values()) {
+    sentenceWordOffsets[i + 1] = sentenceWordOffsets[i] + group.length;
+    i++;
+  }
+  return {
+    words: new TimeIndex(timings).pack(),
+    sentences: new TimeIndex(spans).pack(),
+    sentenceSpans: Float64Array.from(
+      spans.flatMap((span) => [span.start, span.end])
+    ),
+    sentenceKeys: Float64Array.from(groups.keys()),
+    sentenceWordOffsets,
+    sentenceWords: Uint32Array.from([...groups.values()].flat()),
+    hasOriginalWords: hasOriginalWords(timings),
+  };
+}
+
+// Buffers to transfer when posting the packed lookups
+export function lookupBuffers(packed: PackedLookups): ArrayBuffer[] {
+  const { words, sentences } = packed;
+  return [
+    words.order,
+    words.starts,
+    words.maxEnds,
+    sentences.order,
+    sentences.starts,
+    sentences.maxEnds,
+    packed.sentenceSpans,
+    packed.sentenceKeys,
+    packed.sentenceWordOffsets,
+    packed.sentenceWords,
+  ].map((array) => array.buffer as ArrayBuffer);
+}
+
+// Rebuilds the lookups around the timings they were packed from, in
+// linear time
+export function unpackLookups(
+  timings: WordTiming[],
+  packed: PackedLookups
+): TranscriptLookups {
+  const spans: SentenceSpan[] = [];
+  for (let i = 0; i < packed.sentenceSpans.length; i += 2) {
+    spans.push({
+      start: packed.sentenceSpans[i],
+      end: packed.sentenceSpans[i + 1],
+    });
+  }
+  const sentenceWords = new Map<number, WordTiming[]>();
+  packed.sentenceKeys.forEach((key, i) => {
+    const words: WordTiming[] = [];
+    for (
+      let j = packed.sentenceWordOffsets[i];
+      j < packed.sentenceWordOffsets[i + 1];
+      j++
+    ) {
+      words.push(timings[packed.sentenceWords[j]]);
+    }
+    sentenceWords.set(key, words);
+  });
+  return {
+    words: new TimeIndex(timings, packed.words),
+    sentences: new TimeIndex(spans, packed.sentences),
+    sentenceWords,
+    hasOriginalWords: packed.hasOriginalWords,
+  };
+}
+
+// Of the words playing, the ones to show: only the original-language ones
+// where subphrases pair them with translated words
+export function wordsToShow(
+  playing: WordTiming[],
+  lookups: TranscriptLookups,
+  hasSubphrases: boolean
+): WordTiming[] {
+  return hasSubphrases && lookups.hasOriginalWords
+    ? playing.filter((timing) => timing.language === "original")
+    : playing;
+}
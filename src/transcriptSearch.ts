@@ -0,0 +1,134 @@
+import type { WordTiming } from "./types";
+
+export type SearchLanguage = "all" | "original" | "translated";
+
+export type SearchOptions = {
+  regex: boolean;
+  language: SearchLanguage;
+};
+
+export type SearchMatch = {
+  start: number;
+  end: number;
+  // Indices into the searched timings, first and last matched word
+  firstIndex: number;
+  lastIndex: number;
+  language: WordTiming["language"];
+  text: string;
+};
+
+function stripDiacritics(text: string): string {
+  return text.normalize("NFD").replace(/\p{M}/gu, "");
+}
+
+// Lower-cases and strips diacritics so "Cafe" finds "café"
+function fold(text: string): string {
+  return stripDiacritics(text).toLowerCase();
+}
+
+// Plain searches also ignore punctuation, so phrases match across commas
+function foldPlain(text: string): string {
+  return fold(text)
+    .replace(/[^\p{L}\p{N}\s]/gu, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+type Stream = {
+  text: string;
+  // Index into timings for each word, with the char range it occupies
+  words: { index: number; from: number; to: number }[];
+};
+
+// One stream per language so phrases never span the two transcripts
+function buildStreams(
+  timings: WordTiming[],
+  language: SearchLanguage,
+  foldWord: (text: string) => string
+): Stream[] {
+  const streams = new Map<string, Stream>();
+  timings.forEach((timing, index) => {
+    if (language !== "all" && (timing.language ?? "translated") !== language) {
+      return;
+    }
+    const text = foldWord(timing.punctuated_word || timing.word);
+    if (!text) return;
+    const key = timing.language ?? "";
+    let stream = streams.get(key);
+    if (!stream) {
+      stream = { text: "", words: [] };
+      streams.set(key, stream);
+    }
+    if (stream.text) stream.text += " ";
+    stream.words.push({
+      index,
+      from: stream.text.length,
+      to: stream.text.length + text.length,
+    });
+    stream.text += text;
+  });
+  return [...streams.values()];
+}
+
+// Words overlapping the char range [from, to), found by binary search
+function wordsInRange(stream: Stream, from: number, to: number) {
+  let low = 0;
+  let high = stream.words.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (stream.words[mid].to <= from) low = mid + 1;
+    else high = mid;
+  }
+  const words: Stream["words"] = [];
+  for (let i = low; i < stream.words.length && stream.words[i].from < to; i++) {
+    words.push(stream.words[i]);
+  }
+  return words;
+}
+
+/**
+ * Finds the query in the transcript, matching case- and diacritic-
+ * insensitively across consecutive words. In regex mode the pattern runs
+ * against the folded, space-joined words of each language, with its own
+ * diacritics stripped; case is left to the `i` flag, since lower-casing
+ * would turn escapes like `\W` into others. Throws a SyntaxError for an
+ * invalid pattern.
+ */
+export function searchTranscript(
+  timings: WordTiming[],
+  query: string,
+  options: SearchOptions
+): SearchMatch[] {
+  const needle = options.regex ? stripDiacritics(query) : foldPlain(query);
+  if (!needle) return [];
+  const pattern = options.regex
+    ? new RegExp(needle, "giu")
+    : new RegExp(needle.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "g");
+
+  const matches: SearchMatch[] = [];
+  for (const stream of buildStreams(
+    timings,
+    options.language,
+    options.regex ? fold : foldPlain
+  )) {
+    for (const match of stream.text.matchAll(pattern)) {
+      if (match[0].length === 0) continue;
+      const from = match.index!;
+      const to = from + match[0].length;
+      const words = wordsInRange(stream, from, to);
+      if (words.length === 0) continue;
+      const matched = words.map(({ index }) => timings[index]);
+      matches.push({
+        start: Math.min(...matched.map((timing) => timing.start)),
+        end: Math.max(...matched.map((timing) => timing.end)),
+        firstIndex: words[0].index,
+        lastIndex: words[words.length - 1].index,
+        language: matched[0].language,
+        text: matched
+          .map((timing) => timing.punctuated_word || timing.word)
+          .join(" "),
+      });
+    }
+  }
+  return matches.sort((a, b) => a.start - b.start);
+}
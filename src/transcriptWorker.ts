@@ -0,0 +1,30 @@
+import {
+  handleWorkerRequest,
+  resultBuffers,
+  type TranscriptWorkerMessage,
+  type TranscriptWorkerRequest,
+} from "./transcriptLoader";
+
+// Typed through the DOM's Worker, whose postMessage and onmessage match the
+// worker side's
+const scope = self as unknown as Worker;
+
+const post = (
+  message: TranscriptWorkerMessage,
+  transfer: Transferable[] = []
+) => scope.postMessage(message, transfer);
+
+scope.onmessage = (event: MessageEvent<TranscriptWorkerRequest>) => {
+  try {
+    const result = handleWorkerRequest(event.data, (progress) =>
+      post({ type: "progress", progress })
+    );
+    post({ type: "done", result }, resultBuffers(result));
+  } catch (error) {
+    console.error("Error in transcript worker:", error);
+    post({
+      type: "error",
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
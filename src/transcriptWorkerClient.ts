@@ -0,0 +1,85 @@
+import type {
+  LoadProgress,
+  TranscriptWorkerMessage,
+  TranscriptWorkerRequest,
+  TranscriptWorkerResult,
+} from "./transcriptLoader";
+
+export type TranscriptTask<T> = {
+  // Resolves to null when cancelled
+  promise: Promise<T | null>;
+  cancel: () => void;
+};
+
+/**
+ * Runs a request in a fresh worker so the page stays responsive while a
+ * long transcript is parsed. Cancelling terminates the worker outright,
+ * as a parse in progress can't be interrupted any other way.
+ */
+export function runTranscriptWorker<R extends TranscriptWorkerRequest>(
+  request: R,
+  onProgress: (progress: LoadProgress) => void
+): TranscriptTask<TranscriptWorkerResult<R>> {
+  const worker = new Worker(new URL("./transcriptWorker.ts", import.meta.url), {
+    type: "module",
+  });
+  let settle: (result: TranscriptWorkerResult<R> | null) => void = () => {};
+  const promise = new Promise<TranscriptWorkerResult<R> | null>(
+    (resolve, reject) => {
+      settle = (result) => {
+        worker.terminate();
+        resolve(result);
+      };
+      worker.onmessage = (event: MessageEvent<TranscriptWorkerMessage>) => {
+        const message = event.data;
+        if (message.type === "progress") {
+          onProgress(message.progress);
+        } else if (message.type === "done") {
+          settle(message.result as TranscriptWorkerResult<R>);
+        } else {
+          worker.terminate();
+          reject(new Error(message.message));
+        }
+      };
+      worker.onerror = (event) => {
+        worker.terminate();
+        reject(new Error(event.message || "The transcript worker failed"));
+      };
+    }
+  );
+  worker.postMessage(request);
+  return { promise, cancel: () => settle(null) };
+}
+
+/**
+ * Reads a response body as text, reporting the share downloaded when the
+ * server sends a length.
+ */
+export async function readResponseText(
+  response: Response,
+  onProgress: (progress: LoadProgress) => void
+): Promise<string> {
+  const total = Number(response.headers.get("content-length"));
+  if (!response.body || !(total > 0)) return response.text();
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    received += value.length;
+    onProgress({
+      stage: "downloading",
+      fraction: Math.min(1, received / total),
+    });
+  }
+  const bytes = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return new TextDecoder().decode(bytes);
+}
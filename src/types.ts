@@ -127,3 +127,77 @@ export type SentenceTiming = {
   end: number;
   phrases: SubphraseIndexedPhraseTiming[];
 };
+
+export type JsonPath = (string | number)[];
+
+export type WordTiming = {
+  end: number;
+  word: string;
+  punctuated_word?: string;
+  start: number;
+  sentenceIndex?: number;
+  probability?: number;
+  language?: "original" | "translated";
+  // Diarization label as the source wrote it, e.g. 0 or "SPEAKER_00"
+  speaker?: number | string;
+  speakerConfidence?: number;
+  // Location of the word object in the loaded JSON, used when exporting edits
+  sourcePath?: JsonPath;
+};
+
+// Start and end the source document declares for the sentence or phrase
+// that holds a subphrase; a side is missing when the document leaves it out
+export type SubphraseParent = {
+  kind: "sentence" | "phrase";
+  start?: number;
+  end?: number;
+  startOriginal?: number;
+  endOriginal?: number;
+};
+
+export type SubphraseTiming = {
+  start: number;
+  end: number;
+  startOriginal: number;
+  endOriginal: number;
+  textOriginal: string;
+  textTranslated: string;
+  sentenceIndex?: number;
+  parent?: SubphraseParent;
+};
+
+export type SubphraseAlignment = {
+  textOriginal: string;
+  textTranslated: string;
+  // Positions in the sentence's word lists; unaligned (-1) and out-of-range
+  // indices are left out
+  originalWordIndices: number[];
+  translatedWordIndices: number[];
+  // How many -1 entries each side listed
+  unalignedOriginal: number;
+  unalignedTranslated: number;
+  // First to last aligned word on each side; missing when either end is
+  // untimed, which also keeps the subphrase out of the subphrase timings
+  start?: number;
+  end?: number;
+  startOriginal?: number;
+  endOriginal?: number;
+};
+
+// Where one phrase's words and subphrases begin in its sentence's lists
+export type PhraseAlignmentOffsets = {
+  originalWords: number;
+  translatedWords: number;
+  subphrases: number;
+};
+
+// Which words of a sentence each subphrase pairs up across the two languages
+export type SentenceAlignment = {
+  // Same numbering as WordTiming.sentenceIndex
+  sentenceIndex: number;
+  originalWords: string[];
+  translatedWords: string[];
+  subphrases: SubphraseAlignment[];
+  // For documents that split sentences into phrases, in phrase order
+  phrases?: PhraseAlignmentOffsets[];
+};
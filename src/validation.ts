@@ -0,0 +1,143 @@
+import type { JsonPath } from "./types";
+
+export type Severity = "error" | "warning";
+
+export type ValidationIssue = {
+  path: JsonPath;
+  message: string;
+  severity: Severity;
+};
+
+/**
+ * Checks `value` and appends any problems to `issues`. Returns whether the
+ * value has the expected shape, so callers can skip it.
+ */
+export type Schema = (
+  value: unknown,
+  path: JsonPath,
+  issues: ValidationIssue[],
+  severity: Severity
+) => boolean;
+
+// Renders a path the way it would be written in JS: sentences[12].words[3].end
+export function formatJsonPath(path: JsonPath): string {
+  if (path.length === 0) return "(root)";
+  return path
+    .map((key, i) =>
+      typeof key === "number" ? `[${key}]` : i === 0 ? key : `.${key}`
+    )
+    .join("");
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && !Number.isFinite(value)) return `${value}`;
+  return typeof value;
+}
+
+export function primitive(
+  expected: string,
+  test: (value: unknown) => boolean
+): Schema {
+  return (value, path, issues, severity) => {
+    if (test(value)) return true;
+    issues.push({
+      path,
+      message:
+        value === undefined
+          ? `expected ${expected}`
+          : `expected ${expected}, got ${describe(value)}`,
+      severity,
+    });
+    return false;
+  };
+}
+
+export const number = primitive(
+  "number",
+  (value) => typeof value === "number" && Number.isFinite(value)
+);
+
+export const string = primitive("string", (value) => typeof value === "string");
+
+export const integer = primitive(
+  "integer",
+  (value) => typeof value === "number" && Number.isInteger(value)
+);
+
+export function optional(schema: Schema): Schema {
+  return (value, path, issues, severity) =>
+    value === undefined ||
+    value === null ||
+    schema(value, path, issues, severity);
+}
+
+// Reports problems as warnings: for fields the app doesn't rely on
+export function lenient(schema: Schema): Schema {
+  return (value, path, issues) => {
+    schema(value, path, issues, "warning");
+    return true;
+  };
+}
+
+export function array(item: Schema): Schema {
+  return (value, path, issues, severity) => {
+    if (!Array.isArray(value)) {
+      issues.push({
+        path,
+        message:
+          value === undefined
+            ? "expected array"
+            : `expected array, got ${describe(value)}`,
+        severity,
+      });
+      return false;
+    }
+    let valid = true;
+    value.forEach((element, i) => {
+      valid = item(element, [...path, i], issues, severity) && valid;
+    });
+    return valid;
+  };
+}
+
+export function object(
+  shape: Record<string, Schema>,
+  refine?: (
+    value: Record<string, unknown>,
+    path: JsonPath,
+    issues: ValidationIssue[]
+  ) => boolean
+): Schema {
+  return (value, path, issues, severity) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      issues.push({
+        path,
+        message:
+          value === undefined
+            ? "expected object"
+            : `expected object, got ${describe(value)}`,
+        severity,
+      });
+      return false;
+    }
+    const record = value as Record<string, unknown>;
+    let valid = true;
+    for (const [key, schema] of Object.entries(shape)) {
+      valid = schema(record[key], [...path, key], issues, severity) && valid;
+    }
+    if (refine) valid = refine(record, path, issues) && valid;
+    return valid;
+  };
+}
+
+export function validate(
+  schema: Schema,
+  value: unknown,
+  basePath: JsonPath = []
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  schema(value, basePath, issues, "error");
+  return issues;
+}
@@ -0,0 +1,262 @@
+import type { SubphraseTiming, WordTiming } from "./types";
+
+// Length of each RMS analysis frame, in seconds
+export const FRAME_DURATION = 0.02;
+
+// Voiced dips shorter than this are pauses inside speech, not silence
+const MIN_SILENCE_FRAMES = 5;
+// Voiced bursts shorter than this are clicks, not speech
+const MIN_VOICED_FRAMES = 3;
+// Floor for the dB conversion, so digital silence doesn't give -Infinity
+const SILENCE_DB = -100;
+
+export type VoicedRegion = { start: number; end: number };
+
+export type VoiceActivity = {
+  frameDuration: number;
+  // RMS level of each frame in dBFS
+  energy: Float32Array;
+  // 1 for frames judged to be speech
+  voiced: Uint8Array;
+  // Level in dBFS above which a frame counts as voiced
+  threshold: number;
+  regions: VoicedRegion[];
+  // voicedBefore[i] is the number of voiced frames before frame i
+  voicedBefore: Uint32Array;
+};
+
+// The mono mix of a DecodedAudio; declared here so the analysis doesn't
+// pull in the Web Audio decoding
+export type MonoSamples = {
+  samples: Float32Array;
+  sampleRate: number;
+};
+
+export type VoiceActivityOptions = {
+  /**
+   * Where the threshold sits between the noise floor (0) and the typical
+   * speech level (1). Lower values count quieter frames as speech.
+   */
+  thresholdPosition: number;
+};
+
+function percentile(sorted: Float32Array, fraction: number) {
+  return sorted[
+    Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))
+  ];
+}
+
+// Turns runs shorter than `minLength` of `value` into the other value
+function fillShortRuns(voiced: Uint8Array, value: 0 | 1, minLength: number) {
+  let runStart = -1;
+  for (let i = 0; i <= voiced.length; i++) {
+    if (i < voiced.length && voiced[i] === value) {
+      if (runStart === -1) runStart = i;
+      continue;
+    }
+    // Runs touching either end of the file are left alone
+    if (runStart > 0 && i < voiced.length && i - runStart < minLength) {
+      voiced.fill(value === 1 ? 0 : 1, runStart, i);
+    }
+    runStart = -1;
+  }
+}
+
+/**
+ * Estimates where speech is from short-time RMS energy. The threshold adapts
+ * to the recording: it is placed between the quiet and loud ends of the
+ * level distribution, then short gaps and bursts are smoothed away.
+ */
+export function detectVoiceActivity(
+  audio: MonoSamples,
+  { thresholdPosition }: VoiceActivityOptions = { thresholdPosition: 0.35 }
+): VoiceActivity {
+  const frameSize = Math.max(1, Math.round(FRAME_DURATION * audio.sampleRate));
+  const frameCount = Math.ceil(audio.samples.length / frameSize);
+  const energy = new Float32Array(frameCount);
+  for (let f = 0; f < frameCount; f++) {
+    const end = Math.min(audio.samples.length, (f + 1) * frameSize);
+    let sum = 0;
+    for (let i = f * frameSize; i < end; i++) {
+      sum += audio.samples[i] * audio.samples[i];
+    }
+    const rms = Math.sqrt(sum / Math.max(1, end - f * frameSize));
+    energy[f] = Math.max(SILENCE_DB, 20 * Math.log10(rms));
+  }
+
+  const sorted = Float32Array.from(energy).sort();
+  const noiseFloor = frameCount > 0 ? percentile(sorted, 0.1) : SILENCE_DB;
+  const speechLevel = frameCount > 0 ? percentile(sorted, 0.9) : SILENCE_DB;
+  const threshold = noiseFloor + (speechLevel - noiseFloor) * thresholdPosition;
+
+  const voiced = new Uint8Array(frameCount);
+  for (let f = 0; f < frameCount; f++) {
+    voiced[f] = energy[f] > threshold ? 1 : 0;
+  }
+  fillShortRuns(voiced, 0, MIN_SILENCE_FRAMES);
+  fillShortRuns(voiced, 1, MIN_VOICED_FRAMES);
+
+  const voicedBefore = new Uint32Array(frameCount + 1);
+  const regions: VoicedRegion[] = [];
+  for (let f = 0; f < frameCount; f++) {
+    voicedBefore[f + 1] = voicedBefore[f] + voiced[f];
+    if (voiced[f] && (f === 0 || !voiced[f - 1])) {
+      regions.push({ start: f * FRAME_DURATION, end: f * FRAME_DURATION });
+    }
+    if (voiced[f]) regions[regions.length - 1].end = (f + 1) * FRAME_DURATION;
+  }
+
+  return {
+    frameDuration: FRAME_DURATION,
+    energy,
+    voiced,
+    threshold,
+    regions,
+    voicedBefore,
+  };
+}
+
+/**
+ * Share of the span between 0 and 1 that falls on voiced frames. Frames
+ * only partly covered by the span count for the part they cover.
+ */
+export function voicedShare(
+  activity: VoiceActivity,
+  start: number,
+  end: number
+): number {
+  const frameCount = activity.voiced.length;
+  const from = Math.max(0, start / activity.frameDuration);
+  const to = Math.min(frameCount, end / activity.frameDuration);
+  if (to <= from) return 0;
+
+  const firstWhole = Math.ceil(from);
+  const lastWhole = Math.floor(to);
+  if (lastWhole < firstWhole) {
+    // Span inside a single frame
+    return activity.voiced[Math.floor(from)];
+  }
+  let voiced =
+    activity.voicedBefore[lastWhole] - activity.voicedBefore[firstWhole];
+  if (firstWhole > from)
+    voiced += (firstWhole - from) * activity.voiced[firstWhole - 1];
+  if (to > lastWhole) voiced += (to - lastWhole) * activity.voiced[lastWhole];
+  return voiced / (to - from);
+}
+
+/**
+ * Moves the span onto the closest voiced region within `maxDistance`
+ * seconds, keeping its length when it fits and filling the region when it
+ * doesn't.
+ */
+export function snapToVoiced(
+  activity: VoiceActivity,
+  start: number,
+  end: number,
+  maxDistance: number
+): { start: number; end: number } | undefined {
+  // Regions are sorted, so skip straight to the first one in reach
+  const { regions } = activity;
+  let low = 0;
+  let high = regions.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (regions[mid].end < start - maxDistance) low = mid + 1;
+    else high = mid;
+  }
+
+  let best: VoicedRegion | undefined;
+  let bestScore = Infinity;
+  for (let r = low; r < regions.length; r++) {
+    const region = regions[r];
+    if (region.start > end + maxDistance) break;
+    // Overlapping regions rank by how much they overlap, others by distance
+    const overlap = Math.min(end, region.end) - Math.max(start, region.start);
+    const score =
+      overlap > 0 ? -overlap : Math.max(region.start - end, start - region.end);
+    if (score < bestScore) {
+      best = region;
+      bestScore = score;
+    }
+  }
+  if (!best) return undefined;
+
+  const length = end - start;
+  const snappedStart =
+    best.end - best.start >= length
+      ? Math.min(Math.max(start, best.start), best.end - length)
+      : best.start;
+  const round = (time: number) => Math.round(time * 1000) / 1000;
+  const snapped = {
+    start: round(snappedStart),
+    end: round(Math.min(best.end, snappedStart + length)),
+  };
+  return snapped.start === start && snapped.end === end ? undefined : snapped;
+}
+
+export type SilenceFinding = {
+  kind: "word" | "subphrase";
+  // Position in the timings or subphrase timings it was found in
+  index: number;
+  start: number;
+  end: number;
+  text: string;
+  voicedShare: number;
+  // Suggested timing on the nearest voiced region; words only, since
+  // subphrases follow their words
+  suggestion?: { start: number; end: number };
+};
+
+export type SilenceCheckOptions = {
+  // Spans with less than this share voiced are flagged
+  minVoicedShare: number;
+  // How far a suggestion may move a word, in seconds
+  maxSnapDistance: number;
+};
+
+/**
+ * Lists words and subphrases that mostly fall on silence in the analysed
+ * audio, which is the dub: original-language words and the subphrases'
+ * original side are timed against another recording and aren't checked.
+ */
+export function findSilentSpans(
+  activity: VoiceActivity,
+  timings: WordTiming[],
+  subphraseTimings: SubphraseTiming[],
+  { minVoicedShare, maxSnapDistance }: SilenceCheckOptions
+): SilenceFinding[] {
+  const findings: SilenceFinding[] = [];
+  timings.forEach((timing, index) => {
+    if (timing.language === "original" || timing.end <= timing.start) return;
+    const share = voicedShare(activity, timing.start, timing.end);
+    if (share >= minVoicedShare) return;
+    findings.push({
+      kind: "word",
+      index,
+      start: timing.start,
+      end: timing.end,
+      text: timing.punctuated_word || timing.word,
+      voicedShare: share,
+      suggestion: snapToVoiced(
+        activity,
+        timing.start,
+        timing.end,
+        maxSnapDistance
+      ),
+    });
+  });
+  subphraseTimings.forEach((subphrase, index) => {
+    if (subphrase.end <= subphrase.start) return;
+    const share = voicedShare(activity, subphrase.start, subphrase.end);
+    if (share >= minVoicedShare) return;
+    findings.push({
+      kind: "subphrase",
+      index,
+      start: subphrase.start,
+      end: subphrase.end,
+      text: subphrase.textTranslated,
+      voicedShare: share,
+    });
+  });
+  return findings.sort((a, b) => a.start - b.start);
+}
@@ -0,0 +1,111 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { parseTranscript, readTranscript } from "../src/core";
+import { sentenceTimingsFormat } from "../src/formats/sentenceTimings";
+import {
+  editSentenceTimings,
+  resolveAlignmentEdit,
+  toSentenceTimings,
+  type AlignmentEditKind,
+  type AlignmentSelection,
+} from "../src/alignmentEditor";
+
+const fixture = readFileSync(
+  new URL("./fixtures/sentence-timings.json", import.meta.url),
+  "utf8"
+);
+
+function select(selection: Partial<AlignmentSelection>): AlignmentSelection {
+  return {
+    originalWords: [],
+    translatedWords: [],
+    subphrases: [],
+    ...selection,
+  };
+}
+
+// Makes one edit on the first sentence and reads the result back
+function edit(kind: AlignmentEditKind, selection: AlignmentSelection) {
+  const transcript = parseTranscript(fixture);
+  const resolved = resolveAlignmentEdit(
+    transcript.alignments![0],
+    kind,
+    selection
+  );
+  if (typeof resolved === "string") throw new Error(resolved);
+  const data = editSentenceTimings(transcript.data, 0, resolved);
+  return { data, ...readTranscript(sentenceTimingsFormat, data) };
+}
+
+describe("alignment editing", () => {
+  it("merges subphrases and rebuilds their text and timing", () => {
+    const { data, subphraseTimings } = edit(
+      "merge",
+      select({ subphrases: [0, 1] })
+    );
+    expect(toSentenceTimings(data)[0].phrases[0].subphrases).toEqual([
+      {
+        original: "Hello world!",
+        translated: "Hallo Welt!",
+        originalWordIndices: [0, 1],
+        translatedWordIndices: [0, 1],
+      },
+    ]);
+    expect(subphraseTimings[0]).toMatchObject({ start: 0.1, end: 1.2 });
+  });
+
+  it("splits selected words off into a new subphrase", () => {
+    const merged = edit("merge", select({ subphrases: [0, 1] })).data;
+    const transcript = parseTranscript(JSON.stringify(merged));
+    const resolved = resolveAlignmentEdit(
+      transcript.alignments![0],
+      "split",
+      select({ originalWords: [1], translatedWords: [1] })
+    );
+    if (typeof resolved === "string") throw new Error(resolved);
+    const split = editSentenceTimings(merged, 0, resolved);
+    expect(toSentenceTimings(split)).toEqual(JSON.parse(fixture));
+  });
+
+  it("takes words over into a new subphrase", () => {
+    const { alignments } = edit(
+      "create",
+      select({ originalWords: [1], translatedWords: [0] })
+    );
+    expect(
+      alignments![0].subphrases.map((subphrase) => [
+        subphrase.originalWordIndices,
+        subphrase.translatedWordIndices,
+      ])
+    ).toEqual([
+      [[0], []],
+      [[1], [0]],
+      [[], [1]],
+    ]);
+  });
+
+  it("leaves the words of deleted subphrases unaligned", () => {
+    const { alignments, subphraseTimings, issues } = edit(
+      "delete",
+      select({ translatedWords: [1] })
+    );
+    expect(alignments![0].subphrases).toHaveLength(1);
+    expect(alignments![0].translatedWords).toHaveLength(2);
+    expect(subphraseTimings).toHaveLength(2);
+    expect(issues).toEqual([]);
+  });
+
+  it("explains why an edit can't be made", () => {
+    const [alignment] = parseTranscript(fixture).alignments!;
+    expect(resolveAlignmentEdit(alignment, "merge", select({}))).toMatch(
+      "at least two"
+    );
+    expect(
+      resolveAlignmentEdit(
+        alignment,
+        "split",
+        select({ originalWords: [0], translatedWords: [0] })
+      )
+    ).toMatch("Leave some words");
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { findAudioLocation, findAudioLocations } from "../src/audioKey";
+import {
+  DEFAULT_PROFILE,
+  formatHeaders,
+  parseHeaders,
+  resolveAudioUrl,
+  type AudioResolverProfile,
+} from "../src/audioResolver";
+
+function profile(changes: Partial<AudioResolverProfile>) {
+  return { ...DEFAULT_PROFILE, ...changes };
+}
+
+const location = { key: "jobs/42/dub take.wav", bucket: "dubs" };
+
+describe("audio resolver profiles", () => {
+  it("keeps the old local MinIO URLs by default", () => {
+    expect(resolveAudioUrl(DEFAULT_PROFILE, { key: "jobs/42/dub.wav" })).toBe(
+      "http://localhost:9000/jobdata/jobs/42/dub.wav"
+    );
+  });
+
+  it("addresses buckets by path or virtual host", () => {
+    expect(
+      resolveAudioUrl(profile({ useDocumentBucket: true }), location)
+    ).toBe("http://localhost:9000/dubs/jobs/42/dub%20take.wav");
+    expect(
+      resolveAudioUrl(
+        profile({
+          baseUrl: "https://s3.eu-west-1.amazonaws.com/",
+          addressing: "virtual-host",
+        }),
+        location
+      )
+    ).toBe("https://jobdata.s3.eu-west-1.amazonaws.com/jobs/42/dub%20take.wav");
+  });
+
+  it("fills URL templates and serves static files without a bucket", () => {
+    expect(
+      resolveAudioUrl(
+        profile({ baseUrl: "https://cdn.test/{bucket}/audio?file={key}" }),
+        location
+      )
+    ).toBe("https://cdn.test/jobdata/audio?file=jobs/42/dub%20take.wav");
+    expect(
+      resolveAudioUrl(
+        profile({ baseUrl: "http://localhost:8080/files", bucket: "" }),
+        { key: "/a.mp3" }
+      )
+    ).toBe("http://localhost:8080/files/a.mp3");
+  });
+
+  it("finds audio locations on configured paths", () => {
+    const data = {
+      dubAudioFileLocation: { bucket: "dubs", key: "dub.wav" },
+      source: { tracks: [{ audio: "original.wav" }] },
+    };
+    expect(findAudioLocation(data)).toEqual({ bucket: "dubs", key: "dub.wav" });
+    expect(
+      findAudioLocation(data, [
+        "originalAudioFileLocation",
+        "source.tracks.0.audio",
+      ])
+    ).toEqual({ key: "original.wav" });
+    expect(findAudioLocation(data, ["source.tracks"])).toBeNull();
+  });
+
+  it("keeps every location found, in path order and without repeats", () => {
+    const data = {
+      dubAudioFileLocation: { bucket: "dubs", key: "dub.wav" },
+      fallback: "dub.wav",
+      mirror: { key: "dub.wav", bucket: "dubs" },
+    };
+    expect(
+      findAudioLocations(data, [
+        "fallback",
+        "missing",
+        "dubAudioFileLocation",
+        "mirror",
+      ])
+    ).toEqual([{ key: "dub.wav" }, { bucket: "dubs", key: "dub.wav" }]);
+  });
+
+  it("reads headers one per line", () => {
+    const headers = parseHeaders(
+      "Authorization: Basic dXNlcjpwYXNz\n\nbroken\nX-Token:  a:b "
+    );
+    expect(headers).toEqual({
+      Authorization: "Basic dXNlcjpwYXNz",
+      "X-Token": "a:b",
+    });
+    expect(parseHeaders(formatHeaders(headers))).toEqual(headers);
+  });
+});
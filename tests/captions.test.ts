@@ -0,0 +1,116 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { detectCaptionFormat, extractCaptionTimings } from "../src/captions";
+
+// Word, start and end of each timing
+function words(text: string) {
+  return extractCaptionTimings(text)?.map((timing) => [
+    timing.punctuated_word,
+    timing.start,
+    timing.end,
+  ]);
+}
+
+function ttml(body: string, attributes = "") {
+  return `<?xml version="1.0"?>
+<tt xmlns="http://www.w3.org/ns/ttml"${attributes}><body><div>${body}</div></body></tt>`;
+}
+
+describe("caption detection", () => {
+  it("recognizes each format and nothing else", () => {
+    expect(detectCaptionFormat("﻿WEBVTT\n\n")).toBe("vtt");
+    expect(detectCaptionFormat(ttml(""))).toBe("ttml");
+    expect(
+      detectCaptionFormat("1\r\n00:00:01,000 --> 00:00:02,000\r\nHi")
+    ).toBe("srt");
+    expect(detectCaptionFormat('{"words": []}')).toBeNull();
+    expect(extractCaptionTimings('{"words": []}')).toBeNull();
+  });
+});
+
+describe("SRT and WebVTT", () => {
+  it("gives every word of an SRT cue the cue's times", () => {
+    const srt =
+      "1\n00:00:01,000 --> 00:00:02,500\n<i>Hello,</i> world!\n\n" +
+      "2\n00:01:00,000 --> 00:01:01,000\nBye &amp; thanks";
+    expect(words(srt)).toEqual([
+      ["Hello,", 1, 2.5],
+      ["world!", 1, 2.5],
+      ["Bye", 60, 61],
+      ["&", 60, 61],
+      ["thanks", 60, 61],
+    ]);
+    expect(extractCaptionTimings(srt)!.map((t) => t.sentenceIndex)).toEqual([
+      0, 0, 1, 1, 1,
+    ]);
+  });
+
+  it("splits WebVTT cues on inline timestamps", () => {
+    const vtt =
+      "WEBVTT\n\nNOTE skipped\n\n" +
+      "00:01.000 --> 00:03.000\nOne <00:00:01.500><c>two</c> <00:00:02.000>three";
+    expect(words(vtt)).toEqual([
+      ["One", 1, 1.5],
+      ["two", 1.5, 2],
+      ["three", 2, 3],
+    ]);
+  });
+});
+
+describe("TTML", () => {
+  it("reads clock, offset, frame and tick times", () => {
+    const text = ttml(
+      '<p begin="00:00:01:15" end="2s">A</p>' +
+        '<p begin="30000t" dur="5000t">B</p>',
+      ' ttp:frameRate="30" ttp:tickRate="10000"'
+    );
+    expect(words(text)).toEqual([
+      ["A", 1.5, 2],
+      ["B", 3, 3.5],
+    ]);
+  });
+
+  it("times words by their spans, relative or absolute", () => {
+    const relative = ttml(
+      '<p begin="10s" end="12s"><span begin="0s" end="1s">Hi</span> ' +
+        '<span begin="1s">there</span></p>'
+    );
+    expect(words(relative)).toEqual([
+      ["Hi", 10, 11],
+      ["there", 11, 12],
+    ]);
+    const absolute = ttml(
+      '<p begin="10s" end="12s"><span begin="10.5s" end="11s">Hi</span></p>'
+    );
+    expect(words(absolute)).toEqual([["Hi", 10.5, 11]]);
+  });
+
+  it("offsets cues by the begin of their body and divs", () => {
+    const text = readFileSync(
+      new URL("./fixtures/captions-offset.ttml", import.meta.url),
+      "utf8"
+    );
+    expect(words(text)).toEqual([
+      ["Timed", 70, 70.7],
+      ["text", 70.7, 71.5],
+      ["Nested", 77, 78.5],
+      ["line", 77, 78.5],
+      ["After", 73, 74],
+    ]);
+  });
+
+  it("keeps the content of nested spans", () => {
+    const text = ttml(
+      '<p begin="0s" end="4s">' +
+        '<span tts:color="red"><span begin="0s" end="1s">Big</span> ' +
+        '<span begin="1s" end="2s"><span tts:fontStyle="italic">red</span>' +
+        "<br/>dog</span></span> barks</p>"
+    );
+    expect(words(text)).toEqual([
+      ["Big", 0, 1],
+      ["red", 1, 2],
+      ["dog", 1, 2],
+      ["barks", 2, 4],
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { main } from "../cli/main";
+
+function fixturePath(name: string) {
+  return fileURLToPath(new URL(`./fixtures/${name}`, import.meta.url));
+}
+
+describe("word-timing CLI", () => {
+  let stdout: string;
+  let stderr: string;
+
+  beforeEach(() => {
+    stdout = "";
+    stderr = "";
+    vi.spyOn(process.stdout, "write").mockImplementation((chunk) => {
+      stdout += chunk;
+      return true;
+    });
+    vi.spyOn(process.stderr, "write").mockImplementation((chunk) => {
+      stderr += chunk;
+      return true;
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("validates a clean file", async () => {
+    expect(await main(["validate", fixturePath("deepgram.json")])).toBe(0);
+    expect(stdout).toContain("Deepgram: 5 words");
+    expect(stdout).toContain("0 errors");
+  });
+
+  it("fails validation on timing errors", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "word-timing-"));
+    try {
+      const file = join(dir, "broken.json");
+      writeFileSync(
+        file,
+        JSON.stringify([
+          { word: "ends", start: 0.5, end: 0.4 },
+          { word: "early", start: 0.6, end: 1 },
+        ])
+      );
+
+      expect(await main(["validate", file, "--json"])).toBe(1);
+      const report = JSON.parse(stdout);
+      expect(report.format).toBe("word-list");
+      expect(report.findings[0].rule).toBe("end-before-start");
+    } finally {
+      rmSync(dir, { recursive: true });
+    }
+  });
+
+  it("converts to subtitles", async () => {
+    expect(
+      await main(["convert", fixturePath("whisper.json"), "--to", "srt"])
+    ).toBe(0);
+    expect(stdout).toContain("00:00:00,000 --> ");
+    expect(stdout).toContain("Hello there.");
+  });
+
+  it("prints statistics as JSON", async () => {
+    expect(
+      await main(["stats", fixturePath("dub-transcript.json"), "--json"])
+    ).toBe(0);
+    const stats = JSON.parse(stdout);
+    expect(stats.format).toBe("dub-transcript");
+    expect(stats.words).toBe(6);
+    expect(stats.dubStatistics.numDiminishedSubphrases).toBe(1);
+  });
+
+  it("rejects bad usage", async () => {
+    expect(await main([])).toBe(2);
+    expect(await main(["explode", fixturePath("deepgram.json")])).toBe(2);
+    expect(stderr).toContain('Unknown command "explode"');
+    expect(
+      await main(["convert", fixturePath("deepgram.json"), "--to", "doc"])
+    ).toBe(2);
+  });
+
+  it("reports files it can't read", async () => {
+    expect(await main(["stats", fixturePath("missing.json")])).toBe(1);
+    expect(stderr).toContain("missing.json");
+  });
+});
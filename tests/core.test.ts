@@ -0,0 +1,166 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import {
+  EPSILON,
+  TimeIndex,
+  extractAudioKey,
+  formatTime,
+  parseTranscript,
+  summarizeTranscript,
+  toWordList,
+} from "../src/core";
+
+function readFixture(name: string) {
+  return readFileSync(new URL(`./fixtures/${name}`, import.meta.url), "utf8");
+}
+
+describe("TimeIndex", () => {
+  const index = new TimeIndex([
+    { start: 3, end: 4, id: "c" },
+    { start: 0, end: 1, id: "a" },
+    { start: 0.5, end: 2, id: "b" },
+  ]);
+  const ids = (items: { id: string }[]) => items.map((item) => item.id);
+
+  it("finds every interval containing a point, in start order", () => {
+    expect(ids(index.findOverlapping(0.75))).toEqual(["a", "b"]);
+    expect(index.findOverlapping(2.5)).toEqual([]);
+    expect(ids(index.findOverlapping(3))).toEqual(["c"]);
+  });
+
+  it("finds every interval overlapping a range", () => {
+    expect(ids(index.findInRange(1.5, 3.5))).toEqual(["b", "c"]);
+    expect(index.findInRange(2.1, 2.9)).toEqual([]);
+    expect(ids(index.findInRange(-1, 10))).toEqual(["a", "b", "c"]);
+  });
+
+  it("steps to the next and previous interval by start", () => {
+    expect(index.next(0)?.id).toBe("b");
+    expect(index.next(0.5)?.id).toBe("c");
+    expect(index.next(3)).toBeUndefined();
+    expect(index.previous(3)?.id).toBe("b");
+    expect(index.previous(0.5005)?.id).toBe("a");
+    expect(index.previous(0)).toBeUndefined();
+  });
+
+  it("tolerates floating point noise at the edges", () => {
+    const index = new TimeIndex([{ start: 0.1, end: 0.3 }]);
+    expect(index.findOverlapping(0.1 + 0.2)).toHaveLength(1);
+    expect(index.findOverlapping(0.3005)).toHaveLength(1);
+    expect(index.findOverlapping(0.302)).toHaveLength(0);
+    expect(index.findOverlapping(0.0995)).toHaveLength(1);
+  });
+
+  it("matches a linear scan on long overlapping spans", () => {
+    const items = Array.from({ length: 500 }, (_, i) => ({
+      start: (i * 7919) % 1000,
+      end: ((i * 7919) % 1000) + (i % 13) * 5,
+      id: String(i),
+    }));
+    const index = new TimeIndex(items);
+    for (const point of [0, 3.3, 250, 512.5, 999, 1100]) {
+      const expected = index.items.filter(
+        (item) => point >= item.start - EPSILON && point <= item.end + EPSILON
+      );
+      expect(index.findOverlapping(point)).toEqual(expected);
+    }
+  });
+
+  it("handles no items", () => {
+    const index = new TimeIndex([]);
+    expect(index.findOverlapping(1)).toEqual([]);
+    expect(index.next(1)).toBeUndefined();
+    expect(index.size).toBe(0);
+  });
+});
+
+describe("formatTime", () => {
+  it("formats seconds as minutes, seconds and milliseconds", () => {
+    expect(formatTime(0)).toBe("0:00.000");
+    expect(formatTime(61.5)).toBe("1:01.500");
+    expect(formatTime(754.25)).toBe("12:34.250");
+  });
+});
+
+describe("extractAudioKey", () => {
+  it("reads the dub audio key and ignores anything else", () => {
+    expect(extractAudioKey(readFixture("dub-transcript.json"))).toBe(
+      "jobs/42/dub.wav"
+    );
+    expect(extractAudioKey(readFixture("whisper.json"))).toBe("");
+    expect(extractAudioKey("not json")).toBe("");
+  });
+});
+
+describe("summarizeTranscript", () => {
+  it("counts words per language, sentences, subphrases and speakers", () => {
+    const summary = summarizeTranscript(
+      parseTranscript(readFixture("sentence-timings.json"))
+    );
+    expect(summary).toMatchObject({
+      words: 6,
+      wordsByLanguage: { original: 3, translated: 3 },
+      sentences: 2,
+      subphrases: 3,
+      speakers: ["0", "1"],
+      start: 0,
+      end: 3.2,
+    });
+  });
+
+  it("recomputes the dubbing statistics from the alignment", () => {
+    const summary = summarizeTranscript(
+      parseTranscript(readFixture("dub-transcript.json"))
+    );
+    expect(summary.dubStatistics).toMatchObject({
+      numSentencesWithDiminishedSubphrases: 1,
+      numSentencesWithDiminishedSubphrasesTranslated: 1,
+      numDiminishedSubphrases: 1,
+      fractionDiminishedSubphrases: 0.25,
+    });
+  });
+
+  it("leaves out dubbing statistics for plain transcripts", () => {
+    const summary = summarizeTranscript(
+      parseTranscript(readFixture("deepgram.json"))
+    );
+    expect(summary.dubStatistics).toBeUndefined();
+    expect(summary.meanWordDuration).toBeCloseTo(0.264);
+  });
+});
+
+describe("toWordList", () => {
+  it("writes a word list that reads back to the same timings", () => {
+    const original = parseTranscript(readFixture("assemblyai.json"));
+    const roundTrip = parseTranscript(
+      JSON.stringify(toWordList(original.timings))
+    );
+    expect(roundTrip.format).toBe("word-list");
+    expect(
+      roundTrip.timings.map(({ word, start, end, speaker }) => ({
+        word,
+        start,
+        end,
+        speaker,
+      }))
+    ).toEqual(
+      original.timings.map(({ word, start, end, speaker }) => ({
+        word,
+        start,
+        end,
+        speaker,
+      }))
+    );
+  });
+
+  it("keeps the cues words were grouped into", () => {
+    const captions = parseTranscript(readFixture("captions.srt"));
+    const roundTrip = parseTranscript(
+      JSON.stringify(toWordList(captions.timings))
+    );
+    expect(roundTrip.timings.map((timing) => timing.sentenceIndex)).toEqual(
+      captions.timings.map((timing) => timing.sentenceIndex)
+    );
+    expect(roundTrip.issues).toEqual([]);
+  });
+});
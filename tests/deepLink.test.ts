@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildDeepLink,
+  hasDeepLinkSource,
+  parseDeepLink,
+  parseTimestamp,
+  type DeepLink,
+} from "../src/deepLink";
+
+describe("deep links", () => {
+  it("reads seconds and clock timestamps", () => {
+    expect(parseTimestamp("754.2")).toBe(754.2);
+    expect(parseTimestamp("12:34")).toBe(754);
+    expect(parseTimestamp("1:02:03.5")).toBe(3723.5);
+    expect(parseTimestamp("abc")).toBeUndefined();
+    expect(parseTimestamp("1:2:3:4")).toBeUndefined();
+  });
+
+  it("lets the hash override the query string", () => {
+    const link = parseDeepLink(
+      "?json=https%3A%2F%2Fa.test%2Ft.json&t=10&lang=original",
+      "#t=1:00&loop=0:05-0:07.5&speaker=A&speakerMode=bogus"
+    );
+    expect(link).toMatchObject({
+      json: "https://a.test/t.json",
+      time: 60,
+      loop: { start: 5, end: 7.5 },
+      language: "original",
+      speaker: "A",
+    });
+    expect(link.speakerMode).toBeUndefined();
+    expect(hasDeepLinkSource(link)).toBe(true);
+    expect(hasDeepLinkSource(parseDeepLink("", "#t=5"))).toBe(false);
+  });
+
+  it("ignores malformed loops", () => {
+    expect(parseDeepLink("", "#loop=7-5").loop).toBeUndefined();
+  });
+
+  it("reads back the link it builds", () => {
+    const link: DeepLink = {
+      json: "https://a.test/t.json?v=2",
+      audio: "talks/ep 1",
+      time: 3723.25,
+      loop: { start: 1.5, end: 2 },
+      language: "translated",
+      persistWords: false,
+      speaker: "Ana",
+      speakerMode: "play",
+    };
+    const url = new URL(buildDeepLink("https://app.test/timing/", link));
+    expect(url.pathname).toBe("/timing/");
+    expect(url.search).toBe("");
+    expect(parseDeepLink(url.search, url.hash)).toEqual(link);
+  });
+});
@@ -0,0 +1,400 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { parseTranscript } from "../src/core";
+
+function readFixture(name: string) {
+  return readFileSync(new URL(`./fixtures/${name}`, import.meta.url), "utf8");
+}
+
+// [display text, start, end] of each word
+type ExpectedWord = [string, number, number];
+
+const CASES: {
+  fixture: string;
+  format: string;
+  words: ExpectedWord[];
+  sentences?: (number | undefined)[];
+  speakers?: (number | string | undefined)[];
+  subphrases?: number;
+}[] = [
+  {
+    fixture: "dub-transcript.json",
+    format: "dub-transcript",
+    words: [
+      ["Guten", 0.2, 0.5],
+      ["Morgen", 0.55, 1.0],
+      ["zusammen.", 1.05, 1.8],
+      ["Fangen", 2.1, 2.5],
+      ["wir", 2.55, 2.75],
+      ["an.", 2.8, 3.2],
+    ],
+    sentences: [0, 0, 0, 1, 1, 1],
+    speakers: [0, 0, 0, 0, 0, 0],
+    subphrases: 3,
+  },
+  {
+    fixture: "sentence-timings.json",
+    format: "sentence-timings",
+    words: [
+      ["Hello", 0, 0.4],
+      ["world!", 0.5, 0.9],
+      ["Hallo", 0.1, 0.6],
+      ["Welt!", 0.7, 1.2],
+      ["Bye.", 2.5, 2.9],
+      ["Tschüss.", 2.6, 3.2],
+    ],
+    sentences: [0, 0, 0, 0, 1, 1],
+    speakers: [0, 0, 0, 0, 1, 1],
+    subphrases: 3,
+  },
+  {
+    fixture: "word-list.json",
+    format: "word-list",
+    words: [
+      ["the", 0, 0.2],
+      ["quick", 0.25, 0.55],
+      ["fox.", 0.6, 1.0],
+    ],
+  },
+  {
+    fixture: "sentence-word-lists.json",
+    format: "sentence-word-lists",
+    words: [
+      ["One", 0, 0.3],
+      ["two.", 0.35, 0.7],
+      ["Three.", 1.0, 1.4],
+    ],
+    sentences: [0, 0, 1],
+  },
+  {
+    fixture: "whisper.json",
+    format: "whisper",
+    words: [
+      ["Hello", 0, 0.5],
+      ["there.", 0.5, 1.2],
+      ["General", 1.5, 2.0],
+      ["Kenobi.", 2.0, 2.8],
+    ],
+    sentences: [0, 0, 1, 1],
+  },
+  {
+    // The untimed numeral is left out
+    fixture: "whisperx.json",
+    format: "whisperx",
+    words: [
+      ["It", 0.03, 0.2],
+      ["costs", 0.25, 0.6],
+      ["dollars.", 0.9, 1.4],
+    ],
+    speakers: ["SPEAKER_00", "SPEAKER_00", "SPEAKER_00"],
+  },
+  {
+    fixture: "deepgram.json",
+    format: "deepgram",
+    words: [
+      ["Yes,", 0.08, 0.4],
+      ["we", 0.5, 0.66],
+      ["can.", 0.66, 0.9],
+      ["Do", 1.2, 1.4],
+      ["that.", 1.4, 1.8],
+    ],
+    sentences: [0, 0, 0, 1, 1],
+    speakers: [0, 0, 0, 1, 1],
+  },
+  {
+    // Milliseconds are converted to seconds
+    fixture: "assemblyai.json",
+    format: "assemblyai",
+    words: [
+      ["Thanks", 0.24, 0.6],
+      ["for", 0.6, 0.76],
+      ["calling.", 0.76, 1.28],
+      ["How", 1.6, 1.8],
+      ["can", 1.8, 1.95],
+      ["I", 1.95, 2.01],
+      ["help?", 2.01, 2.4],
+    ],
+    sentences: [0, 0, 0, 1, 1, 1, 1],
+    speakers: ["A", "A", "A", "B", "B", "B", "B"],
+  },
+  {
+    // Punctuation items are folded into the previous word
+    fixture: "aws-transcribe.json",
+    format: "aws-transcribe",
+    words: [
+      ["Hi", 0.04, 0.3],
+      ["there.", 0.3, 0.9],
+      ["Welcome.", 1.2, 1.9],
+    ],
+    sentences: [0, 0, 1],
+    speakers: ["spk_0", "spk_0", "spk_1"],
+  },
+  {
+    // Cue time is shared out between the words of the cue
+    fixture: "captions.srt",
+    format: "srt",
+    words: [
+      ["Hello", 0.5, 2.0],
+      ["and", 0.5, 2.0],
+      ["welcome", 0.5, 2.0],
+      ["to", 2.5, 4.0],
+      ["the", 2.5, 4.0],
+      ["show.", 2.5, 4.0],
+    ],
+    sentences: [0, 0, 0, 1, 1, 1],
+  },
+  {
+    fixture: "captions.vtt",
+    format: "vtt",
+    words: [
+      ["Word", 1.0, 1.6],
+      ["by", 1.6, 2.0],
+      ["word", 2.0, 3.0],
+      ["Plain", 3.5, 4.5],
+      ["cue", 3.5, 4.5],
+    ],
+  },
+  {
+    fixture: "captions.ttml",
+    format: "ttml",
+    words: [
+      ["Timed", 0, 0.7],
+      ["text", 0.7, 1.5],
+      ["Second", 2.0, 3.5],
+      ["line", 2.0, 3.5],
+    ],
+  },
+];
+
+describe("parseTranscript", () => {
+  it.each(CASES)("reads $fixture as $format", (expected) => {
+    const transcript = parseTranscript(readFixture(expected.fixture));
+
+    expect(transcript.format).toBe(expected.format);
+    expect(transcript.issues).toEqual([]);
+    expect(
+      transcript.timings.map((timing) => [
+        timing.punctuated_word || timing.word,
+        timing.start,
+        timing.end,
+      ])
+    ).toEqual(expected.words);
+    if (expected.sentences) {
+      expect(transcript.timings.map((timing) => timing.sentenceIndex)).toEqual(
+        expected.sentences
+      );
+    }
+    if (expected.speakers) {
+      expect(transcript.timings.map((timing) => timing.speaker)).toEqual(
+        expected.speakers
+      );
+    }
+    expect(transcript.subphraseTimings).toHaveLength(expected.subphrases ?? 0);
+  });
+
+  it("derives subphrase timings from the aligned words", () => {
+    const { subphraseTimings } = parseTranscript(
+      readFixture("sentence-timings.json")
+    );
+    expect(subphraseTimings[0]).toMatchObject({
+      start: 0.1,
+      end: 0.6,
+      startOriginal: 0,
+      endOriginal: 0.4,
+      textOriginal: "Hello",
+      textTranslated: "Hallo",
+      sentenceIndex: 0,
+      parent: { kind: "phrase", start: 0, end: 2 },
+    });
+
+    const dub = parseTranscript(readFixture("dub-transcript.json"));
+    expect(dub.subphraseTimings[0]).toEqual({
+      start: 0.2,
+      end: 1.0,
+      startOriginal: 0.1,
+      endOriginal: 0.9,
+      textOriginal: "Good morning",
+      textTranslated: "Guten Morgen",
+      sentenceIndex: 0,
+      parent: {
+        kind: "sentence",
+        start: 0.2,
+        end: 1.8,
+        startOriginal: 0.1,
+        endOriginal: 1.6,
+      },
+    });
+  });
+
+  it("keeps the subphrase alignment and reported statistics", () => {
+    const transcript = parseTranscript(readFixture("dub-transcript.json"));
+    expect(transcript.alignments).toHaveLength(2);
+    expect(transcript.alignments?.[1].subphrases[1]).toMatchObject({
+      originalWordIndices: [],
+      translatedWordIndices: [2],
+      unalignedOriginal: 0,
+      unalignedTranslated: 0,
+      start: 2.8,
+      end: 3.2,
+      startOriginal: undefined,
+    });
+    expect(transcript.statistics?.numDiminishedSubphrases).toBe(1);
+    expect(transcript.audioKey).toBe("jobs/42/dub.wav");
+  });
+
+  it("records where each word came from", () => {
+    const { timings } = parseTranscript(readFixture("aws-transcribe.json"));
+    expect(timings.map((timing) => timing.sourcePath)).toEqual([
+      ["results", "items", 0],
+      ["results", "items", 1],
+      ["results", "items", 3],
+    ]);
+  });
+
+  it("reads the data as the given format instead of detecting it", () => {
+    const transcript = parseTranscript(readFixture("whisperx.json"), "whisper");
+    expect(transcript.format).toBe("whisper");
+    expect(transcript.timings).toHaveLength(3);
+  });
+
+  it("reports unreadable input", () => {
+    expect(() => parseTranscript("  ")).toThrow("empty");
+    expect(() => parseTranscript("{ nope")).toThrow("Invalid JSON format");
+    expect(() => parseTranscript('{"hello": 1}')).toThrow(
+      "Unrecognized transcript format"
+    );
+    expect(() => parseTranscript("[]", "no-such-format")).toThrow(
+      'Unknown transcript format "no-such-format"'
+    );
+  });
+
+  it("drops and reports words without usable timing", () => {
+    const transcript = parseTranscript(
+      JSON.stringify([
+        { word: "fine", start: 0, end: 0.5 },
+        { word: "broken", start: "soon", end: 1 },
+      ])
+    );
+    expect(transcript.timings.map((timing) => timing.word)).toEqual(["fine"]);
+    expect(transcript.issues.length).toBeGreaterThan(0);
+    expect(transcript.issues.every((issue) => issue.path[0] === 1)).toBe(true);
+  });
+
+  it.each([
+    {
+      format: "whisper",
+      data: {
+        segments: [
+          {
+            start: 0,
+            end: 1,
+            text: "fine broken",
+            words: [
+              { word: " fine", start: 0, end: 0.5 },
+              { word: 42, start: 0.5, end: 1 },
+            ],
+          },
+        ],
+      },
+      path: ["segments", 0, "words", 1, "word"],
+    },
+    {
+      format: "deepgram",
+      data: {
+        results: {
+          channels: [
+            {
+              alternatives: [
+                {
+                  transcript: "fine",
+                  words: [{ word: "fine", start: 0, end: 0.5 }, null],
+                },
+              ],
+            },
+          ],
+        },
+      },
+      path: ["results", "channels", 0, "alternatives", 0, "words", 1],
+    },
+    {
+      format: "assemblyai",
+      data: {
+        words: [
+          { text: "fine", start: 0, end: 500 },
+          { text: "broken", start: "0:01", end: 1500 },
+        ],
+      },
+      path: ["words", 1, "start"],
+    },
+    {
+      format: "aws-transcribe",
+      data: {
+        results: {
+          items: [
+            {
+              type: "pronunciation",
+              start_time: "0.0",
+              end_time: "0.5",
+              alternatives: [{ confidence: "0.9", content: "fine" }],
+            },
+            { type: "pronunciation", start_time: "soon", end_time: "1.0" },
+          ],
+        },
+      },
+      path: ["results", "items", 1, "start_time"],
+    },
+  ])("reports and skips malformed $format words", ({ format, data, path }) => {
+    const transcript = parseTranscript(JSON.stringify(data), format);
+    expect(transcript.timings.map((timing) => timing.word)).toEqual(["fine"]);
+    expect(transcript.issues).toContainEqual(
+      expect.objectContaining({ path, severity: "error" })
+    );
+  });
+
+  it("warns about Deepgram paragraphs without sentences", () => {
+    const data = {
+      results: {
+        channels: [
+          {
+            alternatives: [
+              {
+                transcript: "Yes. Go.",
+                words: [
+                  { word: "yes", start: 0, end: 0.5 },
+                  { word: "go", start: 1, end: 1.5 },
+                ],
+                paragraphs: {
+                  paragraphs: [
+                    { sentences: [{ start: 0, end: 0.6 }] },
+                    { text: "no sentences" },
+                  ],
+                },
+              },
+            ],
+          },
+        ],
+      },
+    };
+    const transcript = parseTranscript(JSON.stringify(data), "deepgram");
+    expect(transcript.timings.map((timing) => timing.word)).toEqual([
+      "yes",
+      "go",
+    ]);
+    expect(transcript.issues).toEqual([
+      expect.objectContaining({
+        path: [
+          "results",
+          "channels",
+          0,
+          "alternatives",
+          0,
+          "paragraphs",
+          "paragraphs",
+          1,
+          "sentences",
+        ],
+        severity: "warning",
+      }),
+    ]);
+  });
+});
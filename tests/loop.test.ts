@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import type { WordTiming } from "../src/types";
+import { DEFAULT_LOOP, loopBounds, transcriptFingerprint } from "../src/loop";
+
+function word(text: string, start: number, end: number) {
+  return { word: text, start, end } as WordTiming;
+}
+
+describe("loops", () => {
+  it("pads the region and keeps it within the audio", () => {
+    const loop = {
+      ...DEFAULT_LOOP,
+      region: { start: 1, end: 9, label: "sentence" },
+      preRoll: 2,
+      postRoll: 1.5,
+    };
+    expect(loopBounds(loop, 20)).toEqual({ start: 0, end: 10.5 });
+    expect(loopBounds(loop, 10)).toEqual({ start: 0, end: 10 });
+    // Duration unknown until the metadata loads
+    expect(loopBounds(loop, 0)).toEqual({ start: 0, end: 10.5 });
+    expect(loopBounds(DEFAULT_LOOP, 20)).toBeNull();
+  });
+
+  it("fingerprints transcripts by their words, not their timings", () => {
+    const a = [word("hello", 0, 1), word("world", 1, 2)];
+    const retimed = [word("hello", 0.5, 1.2), word("world", 1.3, 2)];
+    expect(transcriptFingerprint(retimed)).toBe(transcriptFingerprint(a));
+    expect(transcriptFingerprint([word("helloworld", 0, 2)])).not.toBe(
+      transcriptFingerprint(a)
+    );
+    expect(transcriptFingerprint(a)).toMatch(/^2:/);
+  });
+});
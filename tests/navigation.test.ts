@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import type { WordTiming } from "../src/types";
+import { TimeIndex } from "../src/timeIndex";
+import { nextStart, previousStart, sentenceSpans } from "../src/navigation";
+
+function word(start: number, end: number, sentenceIndex?: number) {
+  return { word: "w", start, end, sentenceIndex } as WordTiming;
+}
+
+const timings = [
+  word(0, 0.5, 0),
+  word(0.6, 1, 0),
+  word(0.2, 0.9, 0),
+  word(2, 2.5, 1),
+  word(2, 2.4),
+  word(3, 3.5, 1),
+];
+
+describe("sentenceSpans", () => {
+  it("spans each sentence's words in any language", () => {
+    expect(sentenceSpans(timings)).toEqual([
+      { start: 0, end: 1 },
+      { start: 2, end: 3.5 },
+    ]);
+  });
+});
+
+describe("next and previous starts", () => {
+  const words = new TimeIndex(timings);
+
+  it("steps to the next start, skipping ones just begun", () => {
+    expect(nextStart(words, 0)).toBe(0.2);
+    expect(nextStart(words, 0.58)).toBe(2);
+    expect(nextStart(words, 3)).toBeUndefined();
+  });
+
+  it("restarts the current item unless it has only just begun", () => {
+    expect(previousStart(words, 0.7)).toBe(0.6);
+    expect(previousStart(words, 0.62)).toBe(0.2);
+    expect(previousStart(words, 0)).toBeUndefined();
+  });
+
+  it("works on sentence spans", () => {
+    const sentences = new TimeIndex(sentenceSpans(timings));
+    expect(nextStart(sentences, 0.5)).toBe(2);
+    expect(previousStart(sentences, 2.01)).toBe(0);
+  });
+});
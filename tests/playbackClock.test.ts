@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { createPlaybackClock, sameItems } from "../src/playbackClock";
+
+describe("playback clock", () => {
+  it("notifies subscribers only when the time changes", () => {
+    const clock = createPlaybackClock(() => 0);
+    const seen: number[] = [];
+    const unsubscribe = clock.subscribe(() => seen.push(clock.getTime()));
+
+    clock.setTime(1.5);
+    clock.setTime(1.5);
+    clock.setTime(2);
+    unsubscribe();
+    clock.setTime(3);
+
+    expect(seen).toEqual([1.5, 2]);
+    expect(clock.getTime()).toBe(3);
+  });
+
+  it("averages the time between ticks, skipping seeks and pauses", () => {
+    let now = 0;
+    const clock = createPlaybackClock(() => now);
+    expect(clock.getFrameTime()).toBe(0);
+
+    clock.setTime(0.1);
+    now = 16;
+    clock.setTime(0.2);
+    expect(clock.getFrameTime()).toBe(16);
+
+    now = 5000;
+    clock.setTime(10);
+    expect(clock.getFrameTime()).toBe(16);
+
+    now = 5026;
+    clock.setTime(10.1);
+    expect(clock.getFrameTime()).toBeCloseTo(17);
+  });
+});
+
+describe("sameItems", () => {
+  it("compares lists item by item", () => {
+    const a = { start: 0, end: 1 };
+    const b = { start: 1, end: 2 };
+    expect(sameItems([a, b], [a, b])).toBe(true);
+    expect(sameItems([a, b], [b, a])).toBe(false);
+    expect(sameItems([a], [{ ...a }])).toBe(false);
+    expect(sameItems([], [])).toBe(true);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import type { WordTiming } from "../src/types";
+import {
+  collectSpeakers,
+  defaultSpeakerName,
+  isFilteredOut,
+  speakerColor,
+  speakerLines,
+  speakerStyle,
+} from "../src/speakers";
+
+function word(start: number, end: number, extra: Partial<WordTiming> = {}) {
+  return { word: "w", start, end, ...extra } as WordTiming;
+}
+
+describe("speakers", () => {
+  it("collects numeric and labelled speakers as keys", () => {
+    const timings = [
+      word(0, 1, { speaker: 1 }),
+      word(1, 2, { speaker: "SPEAKER_00" }),
+      word(2, 3),
+      word(3, 4, { speaker: 1 }),
+    ];
+    const speakers = collectSpeakers(timings);
+    expect(speakers).toEqual(["1", "SPEAKER_00"]);
+    expect(defaultSpeakerName("1")).toBe("Speaker 1");
+    expect(defaultSpeakerName("SPEAKER_00")).toBe("SPEAKER_00");
+    expect(speakerColor(speakers, "SPEAKER_00")).toBeDefined();
+    expect(speakerColor(speakers, "2")).toBeUndefined();
+  });
+
+  it("dims other speakers and flags doubtful diarization", () => {
+    const filter = { speaker: "A", mode: "highlight" as const };
+    const other = word(0, 1, { speaker: "B", speakerConfidence: 0.2 });
+    expect(isFilteredOut(other, filter)).toBe(true);
+    expect(isFilteredOut(word(0, 1, { speaker: "A" }), filter)).toBe(false);
+    expect(speakerStyle(other, ["A", "B"], filter)).toMatchObject({
+      opacity: 0.3,
+      textDecorationLine: "underline",
+    });
+    expect(speakerStyle(word(0, 1), ["A"], filter)).toEqual({});
+  });
+
+  it("merges a speaker's sentences into lines", () => {
+    const timings = [
+      word(0, 1, { speaker: "A", sentenceIndex: 0 }),
+      word(1, 2, { speaker: "A", sentenceIndex: 0 }),
+      word(2, 3, { speaker: "A", sentenceIndex: 1 }),
+      word(3, 4, { speaker: "B", sentenceIndex: 2 }),
+      word(5, 6, { speaker: "A", sentenceIndex: 3 }),
+      word(7, 8, { speaker: "A", language: "original" }),
+      word(9, 10, { speaker: "A" }),
+    ];
+    expect(speakerLines(timings, "A")).toEqual([
+      { start: 0, end: 3 },
+      { start: 5, end: 6 },
+      { start: 9, end: 10 },
+    ]);
+  });
+});
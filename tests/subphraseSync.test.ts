@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import type { SubphraseTiming } from "../src/types";
+import {
+  findSubphraseAt,
+  indexSubphrases,
+  mapTime,
+} from "../src/subphraseSync";
+
+function subphrase(
+  start: number,
+  end: number,
+  startOriginal: number,
+  endOriginal: number
+) {
+  return {
+    start,
+    end,
+    startOriginal,
+    endOriginal,
+    textOriginal: "",
+    textTranslated: "",
+  } as SubphraseTiming;
+}
+
+// Given out of order; the dub runs 1s behind and the second one is slower
+const subphrases = [subphrase(5, 7, 4, 5), subphrase(2, 3, 1, 2)];
+const index = indexSubphrases(subphrases);
+
+describe("findSubphraseAt", () => {
+  it("finds the subphrase playing on either side", () => {
+    expect(findSubphraseAt(index, 2.5, "translated")).toBe(subphrases[1]);
+    expect(findSubphraseAt(index, 4.5, "original")).toBe(subphrases[0]);
+    expect(findSubphraseAt(index, 3, "translated")).toBeUndefined();
+    expect(findSubphraseAt(indexSubphrases([]), 1, "original")).toBeUndefined();
+  });
+});
+
+describe("mapTime", () => {
+  it("keeps the position inside a subphrase", () => {
+    expect(mapTime(index, 6, "translated")).toBe(4.5);
+    expect(mapTime(index, 4.5, "original")).toBe(6);
+  });
+
+  it("stretches the gaps between subphrases", () => {
+    expect(mapTime(index, 4, "translated")).toBe(3);
+    expect(mapTime(index, 3, "original")).toBe(4);
+  });
+
+  it("keeps the nearest offset outside all subphrases", () => {
+    expect(mapTime(index, 1, "translated")).toBe(0);
+    expect(mapTime(index, 8, "translated")).toBe(6);
+    expect(mapTime(indexSubphrases([]), 8, "translated")).toBe(8);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import type { SubphraseTiming, WordTiming } from "../src/types";
+import {
+  DEFAULT_SUBTITLE_OPTIONS,
+  buildCues,
+  formatSubtitles,
+  toAss,
+  toSrt,
+  toWebVtt,
+  type Cue,
+} from "../src/subtitles";
+
+function word(
+  text: string,
+  start: number,
+  end: number,
+  extra: Partial<WordTiming> = {}
+) {
+  return { word: text, start, end, ...extra } as WordTiming;
+}
+
+const timings = [
+  word("Hello", 0, 0.5, { sentenceIndex: 0 }),
+  word("world.", 0.6, 1.2, { sentenceIndex: 0 }),
+  word("Bye", 61.5, 62, { sentenceIndex: 1 }),
+];
+
+const cue: Cue = {
+  start: 1.5,
+  end: 3.25,
+  lines: ["Hello", "world"],
+  words: [],
+};
+
+describe("subtitle output", () => {
+  it("writes numbered SRT cues with comma milliseconds", () => {
+    expect(toSrt([cue, { ...cue, start: 3661.001, end: 3662 }])).toBe(
+      "1\n00:00:01,500 --> 00:00:03,250\nHello\nworld\n\n" +
+        "2\n01:01:01,001 --> 01:01:02,000\nHello\nworld\n"
+    );
+  });
+
+  it("writes WebVTT with a header and dot milliseconds", () => {
+    expect(toWebVtt([cue])).toBe(
+      "WEBVTT\n\n00:00:01.500 --> 00:00:03.250\nHello\nworld\n"
+    );
+  });
+
+  it("escapes markup characters in WebVTT text", () => {
+    expect(toWebVtt([{ ...cue, lines: ["Tom & <b>Jerry</b> -->"] }])).toBe(
+      "WEBVTT\n\n00:00:01.500 --> 00:00:03.250\nTom &amp; &lt;b&gt;Jerry&lt;/b&gt; --&gt;\n"
+    );
+  });
+
+  it("writes ASS karaoke tags per word, including gaps", () => {
+    const ass = toAss(
+      [{ start: 0, end: 1.2, lines: [], words: timings.slice(0, 2) }],
+      42
+    );
+    expect(ass).toContain("[Events]");
+    expect(ass).toContain(
+      "Dialogue: 0,0:00:00.00,0:00:01.20,Default,,0,0,0,,{\\k50}Hello{\\k10} {\\k60}world."
+    );
+  });
+
+  it("escapes braces in ASS text", () => {
+    const ass = toAss([{ ...cue, lines: ["{an8} text"] }], 42);
+    expect(ass).toContain(",,{\\k175}\\{an8\\} text");
+    const karaoke = toAss(
+      [{ start: 0, end: 1, lines: [], words: [word("{x}", 0, 1)] }],
+      42
+    );
+    expect(karaoke).toContain("{\\k100}\\{x\\}");
+  });
+});
+
+describe("buildCues", () => {
+  it("groups words by sentence", () => {
+    const srt = formatSubtitles("srt", timings, [], DEFAULT_SUBTITLE_OPTIONS);
+    expect(srt).toBe(
+      "1\n00:00:00,000 --> 00:00:01,200\nHello world.\n\n" +
+        "2\n00:01:01,500 --> 00:01:02,000\nBye\n"
+    );
+  });
+
+  it("groups words by the subphrase that contains them", () => {
+    const subphrases = [
+      {
+        start: 0,
+        end: 0.55,
+        startOriginal: 0,
+        endOriginal: 1,
+        textOriginal: "Hallo",
+        textTranslated: "Hello",
+      },
+      {
+        start: 0.55,
+        end: 1.3,
+        startOriginal: 1,
+        endOriginal: 2,
+        textOriginal: "Welt",
+        textTranslated: "world.",
+      },
+      {
+        start: 5,
+        end: 6,
+        startOriginal: 5,
+        endOriginal: 6,
+        textOriginal: "",
+        textTranslated: "No words here",
+      },
+    ] as SubphraseTiming[];
+    const cues = buildCues(timings, subphrases, {
+      ...DEFAULT_SUBTITLE_OPTIONS,
+      grouping: "subphrase",
+    });
+    expect(cues.map((c) => c.lines.join(" "))).toEqual([
+      "Hello",
+      "world.",
+      "No words here",
+    ]);
+    expect(cues[2].words).toEqual([]);
+  });
+
+  it("splits long sentences into cues of at most two lines", () => {
+    const words = Array.from({ length: 12 }, (_, i) =>
+      word(`word${i}`, i * 0.3, i * 0.3 + 0.2, { sentenceIndex: 0 })
+    );
+    const cues = buildCues(words, [], {
+      ...DEFAULT_SUBTITLE_OPTIONS,
+      maxLineLength: 20,
+    });
+    expect(cues.length).toBeGreaterThan(1);
+    expect(cues.every((c) => c.lines.length <= 2)).toBe(true);
+    expect(cues.flatMap((c) => c.words)).toEqual(words);
+  });
+});
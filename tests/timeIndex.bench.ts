@@ -0,0 +1,63 @@
+import { bench, describe } from "vitest";
+import { TimeIndex } from "../src/timeIndex";
+import type { WordTiming } from "../src/types";
+
+// Run with `npm run bench`. A 100k-word transcript is roughly nine hours of
+// speech; the linear scan is what every frame cost before the index.
+const WORD_COUNT = 100_000;
+
+function makeWords(count: number): WordTiming[] {
+  const words: WordTiming[] = [];
+  let time = 0;
+  for (let i = 0; i < count; i++) {
+    // Deterministic spread of word lengths and pauses
+    const length = 0.15 + ((i * 37) % 50) / 100;
+    const gap = i % 12 === 0 ? 0.6 : 0.05;
+    words.push({
+      word: `w${i}`,
+      start: time,
+      end: time + length,
+      sentenceIndex: Math.floor(i / 12),
+    });
+    time += length + gap;
+  }
+  return words;
+}
+
+const words = makeWords(WORD_COUNT);
+const duration = words[words.length - 1].end;
+const index = new TimeIndex(words);
+// Playback-like query times spread over the whole transcript
+const points = Array.from(
+  { length: 1000 },
+  (_, i) => (duration * ((i * 7919) % 1000)) / 1000
+);
+
+describe(`${WORD_COUNT} words`, () => {
+  bench("build index", () => {
+    new TimeIndex(words);
+  });
+
+  bench("point queries (1000)", () => {
+    for (const point of points) index.findOverlapping(point);
+  });
+
+  bench("linear scan point queries (1000)", () => {
+    for (const point of points) {
+      words.filter(
+        (word) => point >= word.start - 0.001 && point <= word.end + 0.001
+      );
+    }
+  });
+
+  bench("10 s range queries (1000)", () => {
+    for (const point of points) index.findInRange(point, point + 10);
+  });
+
+  bench("next and previous word (1000)", () => {
+    for (const point of points) {
+      index.next(point);
+      index.previous(point);
+    }
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import type { WordTiming } from "../src/types";
+import { parseTranscript } from "../src/core";
+import { checkTimings, findingsToCsv } from "../src/timingChecks";
+
+function word(
+  text: string,
+  start: number,
+  end: number,
+  extra: Partial<WordTiming> = {}
+) {
+  return { word: text, start, end, ...extra } as WordTiming;
+}
+
+const OPTIONS = { duration: 0, gapThreshold: 2 };
+
+function rules(timings: WordTiming[], options = OPTIONS) {
+  return checkTimings(timings, [], options).map((f) => [f.rule, f.text]);
+}
+
+// One sentence of a `SentenceTiming[]` document with a single phrase
+function phraseDocument(
+  span: { start?: number; end?: number },
+  translated: [number, number][]
+) {
+  return JSON.stringify([
+    {
+      ...span,
+      phrases: [
+        {
+          ...span,
+          original: [{ word: "hi", punctuatedWord: "Hi", start: 0, end: 0.5 }],
+          translated: translated.map(([start, end], i) => ({
+            word: `w${i}`,
+            punctuatedWord: `w${i}`,
+            start,
+            end,
+          })),
+          subphrases: [
+            {
+              original: "Hi",
+              translated: "w0 w1",
+              originalWordIndices: [0],
+              translatedWordIndices: translated.map((_, i) => i),
+            },
+          ],
+        },
+      ],
+    },
+  ]);
+}
+
+describe("word checks", () => {
+  it("flags broken, empty and late words", () => {
+    expect(
+      rules([word("a", 1, 0.5), word("b", 2, 2), word("c", 3, 5)], {
+        ...OPTIONS,
+        duration: 4,
+      })
+    ).toEqual([
+      ["end-before-start", "a"],
+      ["zero-length", "b"],
+      ["past-duration", "c"],
+    ]);
+  });
+
+  it("compares each word with the previous one in its language", () => {
+    expect(
+      rules([
+        word("a", 0, 1),
+        word("b", 0.5, 1.5),
+        word("c", 0.2, 0.4),
+        word("d", 5, 6),
+        word("x", 0, 1, { language: "original" }),
+      ])
+    ).toEqual([
+      ["non-monotonic", "c"],
+      ["long-gap", "d"],
+      ["overlap", "b"],
+    ]);
+  });
+
+  it("ignores floating point noise", () => {
+    expect(rules([word("a", 0, 1), word("b", 0.9995, 2)])).toEqual([]);
+  });
+
+  it("doesn't count words timed as one caption cue as overlapping", () => {
+    const { timings } = parseTranscript(
+      "1\n00:00:01,000 --> 00:00:02,000\nHello there\n\n" +
+        "2\n00:00:01,500 --> 00:00:03,000\nall of you"
+    );
+    expect(rules(timings)).toEqual([["overlap", "all"]]);
+  });
+});
+
+describe("subphrase checks", () => {
+  it("accepts subphrases within their declared phrase", () => {
+    const { timings, subphraseTimings } = parseTranscript(
+      phraseDocument({ start: 0, end: 2 }, [
+        [0.1, 0.6],
+        [0.7, 1.2],
+      ])
+    );
+    expect(checkTimings(timings, subphraseTimings, OPTIONS)).toEqual([]);
+  });
+
+  it("flags a subphrase that crosses its phrase boundary", () => {
+    const { timings, subphraseTimings } = parseTranscript(
+      phraseDocument({ start: 0, end: 1 }, [
+        [0.1, 0.6],
+        [0.7, 1.4],
+      ])
+    );
+    const findings = checkTimings(timings, subphraseTimings, OPTIONS);
+    expect(findings).toEqual([
+      expect.objectContaining({
+        rule: "subphrase-outside-sentence",
+        language: "translated",
+        start: 0.1,
+        end: 1.4,
+        sentenceIndex: 0,
+        message:
+          "translated 0.100–1.400s falls outside its phrase (0.000–1.000s)",
+      }),
+    ]);
+  });
+
+  it("skips subphrases whose source declares no span", () => {
+    const { timings, subphraseTimings } = parseTranscript(
+      phraseDocument({}, [[5, 6]])
+    );
+    expect(subphraseTimings).toHaveLength(1);
+    expect(checkTimings(timings, subphraseTimings, OPTIONS)).toEqual([]);
+  });
+});
+
+describe("findingsToCsv", () => {
+  it("quotes fields that need it", () => {
+    const csv = findingsToCsv(
+      checkTimings([word('say "hi", ok', 1, 0.5)], [], OPTIONS)
+    );
+    expect(csv.split("\n")[1]).toBe(
+      'end-before-start,error,0.500,1.000,,,"say ""hi"", ok",ends 0.500s before it starts,'
+    );
+  });
+});
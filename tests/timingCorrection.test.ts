@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import type { SubphraseTiming, WordTiming } from "../src/types";
+import {
+  IDENTITY_CORRECTION,
+  correctSubphraseTimings,
+  correctTime,
+  correctTimings,
+  solveCalibration,
+  uncorrectTime,
+} from "../src/timingCorrection";
+
+const correction = { offset: -0.5, scale: 2 };
+
+function word(start: number, end: number, extra: Partial<WordTiming> = {}) {
+  return { word: "w", start, end, ...extra } as WordTiming;
+}
+
+describe("correctTime", () => {
+  it("scales then shifts, and undoes that", () => {
+    expect(correctTime(1.5, correction)).toBe(2.5);
+    expect(uncorrectTime(2.5, correction)).toBe(1.5);
+  });
+});
+
+describe("correctTimings", () => {
+  it("moves dub words, rounded and never before zero", () => {
+    const [first, second] = correctTimings(
+      [word(0.1, 1.0004), word(1, 2, { language: "translated" })],
+      correction
+    );
+    expect([first.start, first.end]).toEqual([0, 1.501]);
+    expect([second.start, second.end]).toEqual([1.5, 3.5]);
+  });
+
+  it("leaves original-language words on the original recording", () => {
+    const original = word(1, 2, { language: "original" });
+    expect(correctTimings([original], correction)[0]).toBe(original);
+  });
+
+  it("returns the same list for the identity", () => {
+    const timings = [word(1, 2)];
+    expect(correctTimings(timings, IDENTITY_CORRECTION)).toBe(timings);
+  });
+});
+
+describe("correctSubphraseTimings", () => {
+  it("moves the dub side of subphrases and their declared spans", () => {
+    const subphrase: SubphraseTiming = {
+      start: 1,
+      end: 2,
+      startOriginal: 1,
+      endOriginal: 2,
+      textOriginal: "Hallo",
+      textTranslated: "Hello",
+      parent: {
+        kind: "sentence",
+        start: 1,
+        end: 3,
+        startOriginal: 1,
+        endOriginal: 3,
+      },
+    };
+    expect(correctSubphraseTimings([subphrase], correction)).toEqual([
+      {
+        ...subphrase,
+        start: 1.5,
+        end: 3.5,
+        parent: { ...subphrase.parent, start: 1.5, end: 5.5 },
+      },
+    ]);
+  });
+
+  it("agrees with the words of the same subphrase", () => {
+    const words = [
+      word(1, 1.5, { language: "original" }),
+      word(1, 2, { language: "translated" }),
+    ];
+    const [original, translated] = correctTimings(words, correction);
+    const [subphrase] = correctSubphraseTimings(
+      [
+        {
+          start: 1,
+          end: 2,
+          startOriginal: 1,
+          endOriginal: 1.5,
+          textOriginal: "",
+          textTranslated: "",
+        },
+      ],
+      correction
+    );
+    expect([subphrase.startOriginal, subphrase.endOriginal]).toEqual([
+      original.start,
+      original.end,
+    ]);
+    expect([subphrase.start, subphrase.end]).toEqual([
+      translated.start,
+      translated.end,
+    ]);
+  });
+});
+
+describe("solveCalibration", () => {
+  it("solves the offset and scale from two points", () => {
+    expect(
+      solveCalibration(
+        { transcriptTime: 1, audioTime: 1.5 },
+        { transcriptTime: 3, audioTime: 5.5 }
+      )
+    ).toEqual(correction);
+  });
+
+  it("refuses points too close together or in reverse", () => {
+    const first = { transcriptTime: 1, audioTime: 1 };
+    expect(
+      solveCalibration(first, { transcriptTime: 1.0005, audioTime: 2 })
+    ).toBeNull();
+    expect(
+      solveCalibration(first, { transcriptTime: 2, audioTime: 0 })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import type { WordTiming } from "../src/types";
+import {
+  applyTimingEdits,
+  clampWordTiming,
+  findNeighbours,
+  neighbourBounds,
+  nudgeWordTiming,
+} from "../src/timingEditor";
+
+function word(start: number, end: number, extra: Partial<WordTiming> = {}) {
+  return { word: "w", start, end, ...extra } as WordTiming;
+}
+
+describe("clampWordTiming", () => {
+  it("rounds to milliseconds and keeps times positive", () => {
+    expect(clampWordTiming(1.23456, 2.00049, "start")).toEqual({
+      start: 1.235,
+      end: 2,
+    });
+    expect(clampWordTiming(-0.5, 1, "start")).toEqual({ start: 0, end: 1 });
+  });
+
+  it("keeps the unmoved edge when the word gets too short", () => {
+    expect(clampWordTiming(2, 1.5, "start")).toEqual({ start: 1.49, end: 1.5 });
+    expect(clampWordTiming(1, 0.5, "end")).toEqual({ start: 1, end: 1.01 });
+  });
+
+  it("stops the moved edge at the bounds", () => {
+    const bounds = { min: 0.8, max: 2.2 };
+    expect(clampWordTiming(0.5, 2, "start", bounds)).toEqual({
+      start: 0.8,
+      end: 2,
+    });
+    expect(clampWordTiming(1, 3, "end", bounds)).toEqual({
+      start: 1,
+      end: 2.2,
+    });
+  });
+});
+
+describe("neighbour bounds", () => {
+  const timings = [
+    word(0, 1),
+    word(0.5, 1.5, { language: "original" }),
+    word(1.2, 2),
+    word(2.5, 3),
+  ];
+
+  it("finds the closest words in the same language", () => {
+    expect(findNeighbours(timings, 2)).toEqual({
+      prev: timings[0],
+      next: timings[3],
+    });
+    expect(findNeighbours(timings, 1)).toEqual({
+      prev: undefined,
+      next: undefined,
+    });
+  });
+
+  it("never tightens an overlap that is already there", () => {
+    expect(neighbourBounds(timings[2], timings[0], timings[3])).toEqual({
+      min: 1,
+      max: 2.5,
+    });
+    expect(neighbourBounds(word(0.9, 2.6), timings[0], timings[3])).toEqual({
+      min: 0.9,
+      max: 2.6,
+    });
+  });
+
+  it("nudges one edge within them", () => {
+    const bounds = neighbourBounds(timings[2], timings[0], timings[3]);
+    expect(nudgeWordTiming(timings[2], "start", -0.1, bounds)).toEqual({
+      start: 1.1,
+      end: 2,
+    });
+    expect(nudgeWordTiming(timings[2], "end", 1, bounds)).toEqual({
+      start: 1.2,
+      end: 2.5,
+    });
+  });
+});
+
+describe("applyTimingEdits", () => {
+  it("writes timings back through their source paths into a copy", () => {
+    const source = {
+      sentences: [{ words: [{ text: "a", start: 0, end: 1 }] }],
+    };
+    const result = applyTimingEdits(source, [
+      word(0.25, 0.75, { sourcePath: ["sentences", 0, "words", 0] }),
+      word(5, 6),
+      word(5, 6, { sourcePath: ["sentences", 3, "words", 0] }),
+    ]);
+
+    expect(result.sentences[0].words[0]).toEqual({
+      text: "a",
+      start: 0.25,
+      end: 0.75,
+    });
+    expect(source.sentences[0].words[0].start).toBe(0);
+  });
+
+  it("uses the given writer", () => {
+    const result = applyTimingEdits(
+      [{ startMs: 0, endMs: 0 }],
+      [word(1, 2, { sourcePath: [0] })],
+      (target, timing) => {
+        target.startMs = timing.start * 1000;
+        target.endMs = timing.end * 1000;
+      }
+    );
+    expect(result).toEqual([{ startMs: 1000, endMs: 2000 }]);
+  });
+});
@@ -0,0 +1,188 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_AUDIO_PATHS,
+  DEFAULT_ORIGINAL_AUDIO_PATHS,
+} from "../src/audioKey";
+import {
+  documentFromData,
+  documentFromText,
+  handleWorkerRequest,
+  loadTranscriptText,
+  resultBuffers,
+  type LoadStage,
+} from "../src/transcriptLoader";
+import {
+  buildLookups,
+  unpackLookups,
+  wordsToShow,
+} from "../src/transcriptLookups";
+
+function readFixture(name: string) {
+  return readFileSync(new URL(`./fixtures/${name}`, import.meta.url), "utf8");
+}
+
+function load(text: string, formatId?: string) {
+  const stages: LoadStage[] = [];
+  const result = loadTranscriptText(
+    {
+      type: "load",
+      text,
+      formatId,
+      audioPaths: DEFAULT_AUDIO_PATHS,
+      originalAudioPaths: DEFAULT_ORIGINAL_AUDIO_PATHS,
+    },
+    (progress) => stages.push(progress.stage)
+  );
+  return { result, stages };
+}
+
+describe("transcript loading", () => {
+  it("parses, detects and reads JSON in one pass", () => {
+    const { result, stages } = load(readFixture("dub-transcript.json"));
+    expect(stages).toEqual(["parsing", "detecting", "reading"]);
+    if (result.kind !== "json") throw new Error(result.kind);
+    expect(result.detectedId).toBe("dub-transcript");
+    expect(result.reading?.failed).toBe(false);
+    expect(result.reading?.result.timings.length).toBeGreaterThan(0);
+    expect(result.audioLocations).toEqual([
+      { bucket: "dubs", key: "jobs/42/dub.wav" },
+    ]);
+    expect(result.originalAudioLocations).toEqual([]);
+    // Posted from the worker, so it must survive structured cloning
+    expect(structuredClone(result)).toEqual(result);
+    expect(result).not.toHaveProperty("data");
+  });
+
+  it("builds the time lookups along with the words", () => {
+    const { result } = load(readFixture("sentence-timings.json"));
+    if (result.kind !== "json" || !result.reading) throw new Error();
+    const { timings } = result.reading.result;
+    const posted = structuredClone(result.reading, {
+      transfer: resultBuffers(result),
+    });
+    const lookups = unpackLookups(posted.result.timings, posted.lookups);
+    const built = buildLookups(timings);
+
+    expect(lookups.words.items).toEqual(built.words.items);
+    expect(lookups.words.findOverlapping(0.55)).toEqual(
+      built.words.findOverlapping(0.55)
+    );
+    expect(lookups.sentences.items).toEqual([
+      { start: 0, end: 1.2 },
+      { start: 2.5, end: 3.2 },
+    ]);
+    expect([...lookups.sentenceWords]).toEqual([...built.sentenceWords]);
+    expect(lookups.sentenceWords.get(1)?.map((timing) => timing.word)).toEqual([
+      "bye",
+    ]);
+    // Transferred, so the worker's copies are gone
+    expect(result.reading.lookups.words.starts.length).toBe(0);
+  });
+
+  it("shows a dub transcript's words while its subphrases play", () => {
+    const { result } = load(readFixture("dub-transcript.json"));
+    if (result.kind !== "json" || !result.reading) throw new Error();
+    const { timings, subphraseTimings } = result.reading.result;
+    const lookups = unpackLookups(timings, result.reading.lookups);
+    expect(subphraseTimings.length).toBeGreaterThan(0);
+    expect(lookups.hasOriginalWords).toBe(false);
+    expect(
+      wordsToShow(lookups.words.findOverlapping(0.6), lookups, true)
+    ).toEqual([timings[1]]);
+
+    const phrases = load(readFixture("sentence-timings.json")).result;
+    if (phrases.kind !== "json" || !phrases.reading) throw new Error();
+    const phraseLookups = buildLookups(phrases.reading.result.timings);
+    expect(phraseLookups.hasOriginalWords).toBe(true);
+    const shown = wordsToShow(
+      phraseLookups.words.findOverlapping(0.55),
+      phraseLookups,
+      true
+    );
+    expect(shown.length).toBeGreaterThan(0);
+    expect(shown.every((timing) => timing.language === "original")).toBe(true);
+  });
+
+  it("reads captions and reports unreadable text", () => {
+    expect(load(readFixture("captions.srt")).result).toMatchObject({
+      kind: "captions",
+      label: "SRT",
+    });
+    expect(load("{ not json").result).toMatchObject({
+      kind: "error",
+      message: expect.stringContaining("Invalid JSON format"),
+    });
+  });
+
+  it("reports unmatched JSON so a format can be picked", () => {
+    const { result } = load('{"hello": "world"}');
+    expect(result).toMatchObject({
+      kind: "json",
+      detectedId: undefined,
+      reading: null,
+    });
+  });
+
+  it("reads the text again with another format", () => {
+    const text = readFixture("whisper.json");
+    const reading = handleWorkerRequest(
+      { type: "read", text, formatId: "word-list" },
+      () => {}
+    );
+    expect(reading).toMatchObject({ formatId: "word-list" });
+    expect(() =>
+      handleWorkerRequest({ type: "read", text, formatId: "nope" }, () => {})
+    ).toThrow('Unknown transcript format "nope"');
+    expect(() =>
+      handleWorkerRequest(
+        { type: "read", text: "{", formatId: "word-list" },
+        () => {}
+      )
+    ).toThrow("Invalid JSON format");
+  });
+
+  it("re-derives the subphrases from edited words", () => {
+    const text = readFixture("sentence-timings.json");
+    const { result } = load(text);
+    if (result.kind !== "json" || !result.reading) throw new Error();
+    const hallo = result.reading.result.timings.find(
+      (timing) => timing.word === "hallo"
+    )!;
+    const spans = handleWorkerRequest(
+      {
+        type: "edit",
+        text,
+        formatId: "sentence-timings",
+        edits: [{ ...hallo, start: 0.2, end: 0.65 }],
+      },
+      () => {}
+    );
+    if (!("alignments" in spans)) throw new Error();
+    expect(spans.subphraseTimings[0]).toMatchObject({ start: 0.2, end: 0.65 });
+    expect(spans.subphraseTimings.slice(1)).toEqual(
+      result.reading.result.subphraseTimings.slice(1)
+    );
+    expect(spans.alignments[0].subphrases[0]).toMatchObject({
+      start: 0.2,
+      end: 0.65,
+    });
+  });
+});
+
+describe("source documents", () => {
+  it("keeps loaded text as it is and parses it once, when read", () => {
+    const text = '{ "words": [] }';
+    const document = documentFromText(text);
+    expect(document.text()).toBe(text);
+    expect(document.read()).toEqual({ words: [] });
+    expect(document.read()).toBe(document.read());
+    expect(() => documentFromText("{").read()).toThrow(SyntaxError);
+  });
+
+  it("serializes edited documents once", () => {
+    const document = documentFromData({ words: [1] });
+    expect(document.text()).toBe('{"words":[1]}');
+    expect(document.text()).toBe(document.text());
+  });
+});
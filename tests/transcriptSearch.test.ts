@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import type { WordTiming } from "../src/types";
+import { searchTranscript } from "../src/transcriptSearch";
+
+function word(text: string, start: number, language?: WordTiming["language"]) {
+  return { word: text, start, end: start + 0.5, language } as WordTiming;
+}
+
+const timings = [
+  word("Un", 0, "original"),
+  word("café,", 1, "original"),
+  word("s'il", 2, "original"),
+  word("vous", 3, "original"),
+  word("A", 0, "translated"),
+  word("coffee,", 1, "translated"),
+  word("please.", 2, "translated"),
+];
+
+function texts(query: string, regex = false, language = "all" as const) {
+  return searchTranscript(timings, query, { regex, language }).map(
+    (match) => match.text
+  );
+}
+
+describe("searchTranscript", () => {
+  it("ignores case, diacritics and punctuation in plain searches", () => {
+    expect(texts("CAFE S'IL")).toEqual(["café, s'il"]);
+    expect(texts("coffee please")).toEqual(["coffee, please."]);
+  });
+
+  it("never matches across the two languages", () => {
+    expect(texts("vous a")).toEqual([]);
+  });
+
+  it("keeps to the chosen language", () => {
+    const matches = searchTranscript(timings, "a", {
+      regex: false,
+      language: "translated",
+    });
+    expect(matches.map((match) => match.text)).toEqual(["A", "please."]);
+  });
+
+  it("folds accented regex patterns like the text", () => {
+    expect(texts("caf[eé]\\W", true)).toEqual(["café,"]);
+    expect(texts("^UN CAFÉ", true)).toEqual(["Un café,"]);
+  });
+
+  it("reports the span and words of a match", () => {
+    expect(
+      searchTranscript(timings, "un cafe", { regex: false, language: "all" })
+    ).toEqual([
+      {
+        start: 0,
+        end: 1.5,
+        firstIndex: 0,
+        lastIndex: 1,
+        language: "original",
+        text: "Un café,",
+      },
+    ]);
+  });
+
+  it("throws on invalid patterns", () => {
+    expect(() => texts("(", true)).toThrow(SyntaxError);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import type { SubphraseTiming, WordTiming } from "../src/types";
+import {
+  detectVoiceActivity,
+  findSilentSpans,
+  snapToVoiced,
+  voicedShare,
+} from "../src/voiceActivity";
+
+// Three seconds at 1 kHz with speech-level noise only from 1s to 2s
+function audio() {
+  const sampleRate = 1000;
+  const samples = new Float32Array(3 * sampleRate);
+  for (let i = sampleRate; i < 2 * sampleRate; i++) {
+    samples[i] = i % 2 === 0 ? 0.5 : -0.5;
+  }
+  return { samples, sampleRate };
+}
+
+function word(
+  text: string,
+  start: number,
+  end: number,
+  language?: WordTiming["language"]
+) {
+  return { word: text, start, end, language } as WordTiming;
+}
+
+const OPTIONS = { minVoicedShare: 0.5, maxSnapDistance: 1 };
+
+describe("voice activity", () => {
+  const activity = detectVoiceActivity(audio());
+
+  it("finds the voiced region", () => {
+    expect(activity.regions).toHaveLength(1);
+    expect(activity.regions[0].start).toBeCloseTo(1);
+    expect(activity.regions[0].end).toBeCloseTo(2);
+  });
+
+  it("measures the voiced share of a span, counting partial frames", () => {
+    expect(voicedShare(activity, 1.2, 1.8)).toBe(1);
+    expect(voicedShare(activity, 0.2, 0.8)).toBe(0);
+    expect(voicedShare(activity, 0.5, 1.5)).toBeCloseTo(0.5);
+    expect(voicedShare(activity, 1.99, 2.01)).toBeCloseTo(0.5);
+  });
+
+  it("snaps spans onto the nearest voiced region", () => {
+    expect(snapToVoiced(activity, 0.5, 0.8, 1)).toEqual({ start: 1, end: 1.3 });
+    expect(snapToVoiced(activity, 0.5, 2.5, 1)).toEqual({ start: 1, end: 2 });
+    expect(snapToVoiced(activity, 1.2, 1.5, 1)).toBeUndefined();
+    expect(snapToVoiced(activity, 0, 0.2, 0.5)).toBeUndefined();
+  });
+});
+
+describe("findSilentSpans", () => {
+  const activity = detectVoiceActivity(audio());
+
+  it("flags dub words and subphrases on silence", () => {
+    const timings = [word("a", 1.2, 1.5), word("b", 2.2, 2.5)];
+    const subphrases = [
+      {
+        start: 2.2,
+        end: 2.5,
+        startOriginal: 1.2,
+        endOriginal: 1.5,
+        textOriginal: "B",
+        textTranslated: "b",
+      },
+    ] as SubphraseTiming[];
+    expect(findSilentSpans(activity, timings, subphrases, OPTIONS)).toEqual([
+      {
+        kind: "word",
+        index: 1,
+        start: 2.2,
+        end: 2.5,
+        text: "b",
+        voicedShare: 0,
+        suggestion: { start: 1.7, end: 2 },
+      },
+      {
+        kind: "subphrase",
+        index: 0,
+        start: 2.2,
+        end: 2.5,
+        text: "b",
+        voicedShare: 0,
+      },
+    ]);
+  });
+
+  it("leaves original-language words alone", () => {
+    const timings = [
+      word("x", 0.2, 0.5, "original"),
+      word("y", 0.2, 0.5, "translated"),
+    ];
+    expect(
+      findSilentSpans(activity, timings, [], OPTIONS).map((f) => f.index)
+    ).toEqual([1]);
+  });
+});